@@ -3,7 +3,7 @@
  * React Native version of the GeminiHatake web application
  */
 
-import React, {useEffect} from 'react';
+import React, {useEffect, useMemo} from 'react';
 import {StatusBar, LogBox} from 'react-native';
 import {NavigationContainer} from '@react-navigation/native';
 import {Provider as PaperProvider} from 'react-native-paper';
@@ -11,6 +11,8 @@ import {SafeAreaProvider} from 'react-native-safe-area-context';
 
 import {AuthProvider} from './src/contexts/AuthContext';
 import {FirebaseProvider} from './src/contexts/FirebaseContext';
+import {Backend} from './src/services/backend';
+import {createFirebaseBackend} from './src/services/firebaseBackend';
 import RootNavigator from './src/navigation/RootNavigator';
 import {theme} from './src/utils/theme';
 import NetworkManager from './src/utils/network';
@@ -25,7 +27,14 @@ if (__DEV__) {
   ]);
 }
 
-const App: React.FC = () => {
+interface AppProps {
+  // Overrides the Firebase backend, e.g. with createMemoryBackend(demoSeed) for offline demos
+  backend?: Backend;
+}
+
+const App: React.FC<AppProps> = ({backend: backendOverride}) => {
+  const backend = useMemo(() => backendOverride || createFirebaseBackend(), [backendOverride]);
+
   useEffect(() => {
     // Initialize app services
     initializeApp();
@@ -51,7 +60,7 @@ const App: React.FC = () => {
   return (
     <SafeAreaProvider>
       <PaperProvider theme={theme}>
-        <FirebaseProvider>
+        <FirebaseProvider backend={backend}>
           <AuthProvider>
             <NavigationContainer theme={theme}>
               <StatusBar
@@ -0,0 +1,95 @@
+import {Text} from 'react-native';
+import React from 'react';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {Provider as PaperProvider} from 'react-native-paper';
+
+// Note: test renderer must be required after react-native.
+import renderer, {ReactTestRenderer, act} from 'react-test-renderer';
+
+import {AuthProvider} from '../src/contexts/AuthContext';
+import {FirebaseProvider} from '../src/contexts/FirebaseContext';
+import {MemoryBackend, createMemoryBackend, demoSeed} from '../src/services/memoryBackend';
+import ItemDetailsScreen from '../src/screens/main/ItemDetailsScreen';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
+const mockNavigation = {navigate: jest.fn(), goBack: jest.fn()};
+jest.mock('@react-navigation/native', () => {
+  const {useEffect} = require('react');
+  return {
+    useNavigation: () => mockNavigation,
+    useRoute: () => ({params: {itemId: 'demo-listing'}}),
+    useFocusEffect: (effect: () => void) => useEffect(effect, [effect]),
+  };
+});
+
+// The first render loads the icon set, which takes a while without a transform cache
+jest.setTimeout(30000);
+
+describe('ItemDetailsScreen', () => {
+  let backend: MemoryBackend;
+  let screen: ReactTestRenderer;
+
+  const render = async (email: string) => {
+    await backend.auth.signInWithEmailAndPassword(email, 'demo1234');
+    await act(async () => {
+      screen = renderer.create(
+        <FirebaseProvider backend={backend}>
+          <AuthProvider>
+            <PaperProvider>
+              <ItemDetailsScreen />
+            </PaperProvider>
+          </AuthProvider>
+        </FirebaseProvider>
+      );
+    });
+    // Lets the listing load once the signed-in user is known
+    await act(async () => {});
+  };
+
+  const texts = () =>
+    screen.root
+      .findAllByType(Text)
+      .map(node => [].concat(node.props.children).filter(child => typeof child === 'string'))
+      .map(children => children.join(''));
+
+  beforeEach(() => {
+    backend = createMemoryBackend(demoSeed);
+  });
+
+  afterEach(() => {
+    act(() => screen.unmount());
+  });
+
+  it('shows a listing from the backend with the buyer actions', async () => {
+    await render('demo@hatake.social');
+
+    expect(texts()).toEqual(
+      expect.arrayContaining(['Charizard Base Set (Unlimited)', '$320.00', 'Buy Now'])
+    );
+    expect(texts()).not.toContain('Edit Listing');
+  });
+
+  it('shows the owner actions to the seller', async () => {
+    await render('seller@hatake.social');
+
+    expect(texts()).toEqual(expect.arrayContaining(['Edit Listing', 'Mark Sold', 'Delete']));
+    expect(texts()).not.toContain('Buy Now');
+  });
+
+  it('hides Edit Listing while a trade holds the listing', async () => {
+    await backend.firestore
+      .collection('marketplace')
+      .doc('demo-listing')
+      .update({status: 'reserved', reservedByTradeId: 'demo-trade'});
+    await render('seller@hatake.social');
+
+    expect(texts()).toContain('Mark Available');
+    expect(texts()).not.toContain('Edit Listing');
+  });
+});
@@ -0,0 +1,97 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  AI_QUOTA_TIERS,
+  getQuotaExceededReason,
+  isCancelledError,
+  isQuotaExceededError,
+  parseListingSuggestion,
+} from '../src/services/ai';
+
+const request = {
+  hint: '',
+  imageUrls: [],
+  categories: [
+    {key: 'cards', label: 'Cards'},
+    {key: 'sealed', label: 'Sealed'},
+  ],
+  conditions: [{key: 'mint', label: 'Mint'}],
+};
+
+describe('parseListingSuggestion', () => {
+  it('reads a fenced JSON reply and trims every field', () => {
+    const text = [
+      '```json',
+      JSON.stringify({
+        title: `  ${'T'.repeat(120)}  `,
+        description: 'Light edge wear',
+        category: 'cards',
+        condition: 'mint',
+        tags: ['#Pokemon', 'pokemon', ' Holo ', 3, 'a', 'b', 'c', 'd', 'e', 'f', 'g'],
+      }),
+      '```',
+    ].join('\n');
+
+    const suggestion = parseListingSuggestion(text, request);
+
+    expect(suggestion.title).toHaveLength(100);
+    expect(suggestion).toMatchObject({
+      description: 'Light edge wear',
+      category: 'cards',
+      condition: 'mint',
+      tags: ['pokemon', 'holo', 'a', 'b', 'c', 'd', 'e', 'f'],
+    });
+  });
+
+  it('leaves out fields that are not among the offered options', () => {
+    const text = JSON.stringify({title: ' ', category: 'toys', condition: 'worn', tags: []});
+
+    expect(parseListingSuggestion(text, request)).toEqual({});
+  });
+
+  it('ignores JSON that is not an object', () => {
+    expect(parseListingSuggestion('["Charizard"]', request)).toEqual({});
+    expect(parseListingSuggestion('null', request)).toEqual({});
+  });
+
+  it('rejects a reply that is not JSON', () => {
+    expect(() => parseListingSuggestion('Sure! Here is a listing:', request)).toThrow(
+      expect.objectContaining({code: 'ai/invalid-response'})
+    );
+  });
+});
+
+describe('getQuotaExceededReason', () => {
+  const usage = (dayTokens: number, dayRequests: number, monthTokens: number) => ({
+    day: {key: '2024-05-01', requests: dayRequests, tokens: dayTokens, models: []},
+    month: {key: '2024-05', requests: dayRequests, tokens: monthTokens, models: []},
+  });
+  const {standard, unlimited} = AI_QUOTA_TIERS;
+
+  it('is null while quota is left', () => {
+    expect(getQuotaExceededReason(usage(1000, 10, 5000), standard)).toBeNull();
+    expect(getQuotaExceededReason(usage(1e9, 1e9, 1e9), unlimited)).toBeNull();
+  });
+
+  it('reports the monthly allowance first, then the daily limits', () => {
+    expect(getQuotaExceededReason(usage(25000, 50, 250000), standard)).toMatch(/month/);
+    expect(getQuotaExceededReason(usage(25000, 50, 30000), standard)).toMatch(
+      /today's AI allowance/
+    );
+    expect(getQuotaExceededReason(usage(100, 50, 30000), standard)).toMatch(/request limit/);
+  });
+});
+
+describe('error checks', () => {
+  it('reads the code of backend errors, with or without the functions/ prefix', () => {
+    expect(isQuotaExceededError({code: 'functions/resource-exhausted'})).toBe(true);
+    expect(isQuotaExceededError({code: 'resource-exhausted'})).toBe(true);
+    expect(isCancelledError({code: 'functions/cancelled'})).toBe(true);
+  });
+
+  it('is false for anything else that was thrown', () => {
+    [null, undefined, 'resource-exhausted', new Error('cancelled'), {code: 429}].forEach(error => {
+      expect(isQuotaExceededError(error)).toBe(false);
+      expect(isCancelledError(error)).toBe(false);
+    });
+  });
+});
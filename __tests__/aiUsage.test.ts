@@ -0,0 +1,77 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import {AIClient, AI_QUOTA_TIERS, createAIClient, isQuotaExceededError} from '../src/services/ai';
+import {getUsagePeriodKeys} from '../src/services/aiUsage';
+import {createCloudFunctions} from '../src/services/firebase';
+import {MemoryBackend, createMemoryBackend, demoSeed} from '../src/services/memoryBackend';
+import {Repository, createHelpers, createRepository} from '../src/services/repository';
+
+describe('generateResponse quota', () => {
+  let backend: MemoryBackend;
+  let repository: Repository;
+  let ai: AIClient;
+
+  const seedUsage = (uid: string, requests: number) => {
+    const {day} = getUsagePeriodKeys();
+    backend.firestore.seed('aiUsage', `${uid}_${day}`, {
+      uid,
+      period: 'day',
+      key: day,
+      requests,
+      tokens: 0,
+    });
+  };
+
+  beforeEach(async () => {
+    backend = createMemoryBackend({
+      ...demoSeed,
+      accounts: [
+        ...(demoSeed.accounts || []),
+        {uid: 'admin', email: 'admin@hatake.social', password: 'demo1234', claims: {admin: true}},
+      ],
+    });
+    repository = createRepository(backend.firestore, createHelpers(backend));
+    ai = createAIClient(createCloudFunctions(backend.functions));
+    await backend.auth.signInWithEmailAndPassword('demo@hatake.social', 'demo1234');
+  });
+
+  it('records each answer in the ledger of the caller', async () => {
+    const response = await ai.generateResponse({prompt: 'Hello there', model: 'gemini-pro'});
+
+    const usage = await repository.aiUsage.get('demo-user');
+    expect(usage.day).toMatchObject({requests: 1, tokens: response.tokens});
+    expect(usage.month).toMatchObject({requests: 1, tokens: response.tokens});
+    expect(usage.day.models).toEqual([{model: 'gemini-pro', requests: 1, tokens: response.tokens}]);
+  });
+
+  it('refuses a request once the daily requests are used up', async () => {
+    seedUsage('demo-user', AI_QUOTA_TIERS.standard.dailyRequests!);
+
+    const error = await ai.generateResponse({prompt: 'Hello'}).catch(caught => caught);
+
+    expect(isQuotaExceededError(error)).toBe(true);
+    expect(error.message).toMatch(/request limit/);
+    expect((await repository.aiUsage.get('demo-user')).day.requests).toBe(
+      AI_QUOTA_TIERS.standard.dailyRequests
+    );
+  });
+
+  it('applies the tier from the claims of the caller', async () => {
+    seedUsage('admin', AI_QUOTA_TIERS.standard.dailyRequests!);
+    await backend.auth.signInWithEmailAndPassword('admin@hatake.social', 'demo1234');
+
+    await expect(ai.generateResponse({prompt: 'Hello'})).resolves.toMatchObject({
+      model: 'gemini-pro',
+    });
+  });
+
+  it('lets only one of two concurrent calls spend the last request', async () => {
+    seedUsage('demo-user', AI_QUOTA_TIERS.standard.dailyRequests! - 1);
+
+    const results = await Promise.allSettled([
+      ai.generateResponse({prompt: 'One'}),
+      ai.generateResponse({prompt: 'Two'}),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+});
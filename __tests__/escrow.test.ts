@@ -0,0 +1,147 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {ESCROW_RELEASE_DAYS, PAYMENT_SESSION_MINUTES} from '../src/services/escrow';
+import {createCloudFunctions} from '../src/services/firebase';
+import {
+  MemoryBackend,
+  createFakePaymentProvider,
+  createMemoryBackend,
+  demoSeed,
+} from '../src/services/memoryBackend';
+import {PaymentsClient, createPaymentsClient} from '../src/services/payments';
+import {Repository, createHelpers, createRepository} from '../src/services/repository';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('escrow', () => {
+  let clock: number;
+  let provider: ReturnType<typeof createFakePaymentProvider>;
+  let backend: MemoryBackend;
+  let repository: Repository;
+  let payments: PaymentsClient;
+
+  const settleDue = () => backend.functions.runScheduled('settleDueEscrows');
+  const signIn = (email: string) => backend.auth.signInWithEmailAndPassword(email, 'demo1234');
+  const sessionOf = async (escrowId: string) =>
+    provider.getSession((await repository.escrows.get(escrowId))!.paymentSessionId!);
+
+  beforeEach(async () => {
+    clock = Date.now();
+    provider = createFakePaymentProvider({now: () => new Date(clock)});
+    backend = createMemoryBackend({
+      ...demoSeed,
+      functions: {...demoSeed.functions, ...provider.handlers},
+      schedules: {...demoSeed.schedules, ...provider.schedules},
+    });
+    repository = createRepository(backend.firestore, createHelpers(backend));
+    payments = createPaymentsClient(createCloudFunctions(backend.functions));
+    await signIn('demo@hatake.social');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('holds the listing while the buyer pays', async () => {
+    const escrowId = await payments.checkout('demo-listing');
+
+    const listing = await repository.marketplace.get('demo-listing');
+    expect(listing?.reservedByEscrowId).toBe(escrowId);
+    expect((await repository.escrows.get(escrowId))?.status).toBe('awaiting-payment');
+
+    backend.auth.addAccount({uid: 'other-buyer', email: 'buyer@example.com', password: 'demo1234'});
+    await signIn('buyer@example.com');
+    await expect(payments.checkout('demo-listing')).rejects.toMatchObject({
+      code: 'escrow/unavailable',
+    });
+
+    await signIn('seller@hatake.social');
+    await expect(repository.marketplace.setStatus('demo-listing', 'sold')).rejects.toMatchObject({
+      code: 'marketplace/held-by-purchase',
+    });
+    await expect(payments.cancel(escrowId)).rejects.toMatchObject({code: 'escrow/not-allowed'});
+  });
+
+  it('expires an unpaid checkout once the hold lapses', async () => {
+    const escrowId = await payments.checkout('demo-listing');
+    clock += (PAYMENT_SESSION_MINUTES + 1) * MINUTE;
+
+    expect(await payments.refresh(escrowId)).toBe('expired');
+    expect(await repository.escrows.get(escrowId)).toMatchObject({
+      endedBy: 'system',
+      endReason: 'payment-expired',
+    });
+    expect((await sessionOf(escrowId)).status).toBe('expired');
+  });
+
+  it('lets the buyer cancel and frees the listing', async () => {
+    const escrowId = await payments.checkout('demo-listing');
+
+    expect(await payments.cancel(escrowId)).toBe('cancelled');
+    expect(await repository.escrows.get(escrowId)).toMatchObject({
+      endedBy: 'demo-user',
+      endReason: 'cancelled-by-buyer',
+    });
+    expect((await repository.marketplace.get('demo-listing'))?.reservedByEscrowId).toBeUndefined();
+  });
+
+  it('holds funds from the payment and releases them once due', async () => {
+    const escrowId = await payments.checkout('demo-listing');
+    provider.pay((await sessionOf(escrowId)).id);
+    const paidAt = clock;
+    clock += 2 * DAY;
+
+    await signIn('seller@hatake.social');
+    expect(await payments.refresh(escrowId)).toBe('held');
+    const escrow = await repository.escrows.get(escrowId);
+    expect(escrow?.fundedAt?.getTime()).toBe(paidAt);
+    expect(escrow?.releaseAfter?.getTime()).toBe(paidAt + ESCROW_RELEASE_DAYS * DAY);
+    expect((await repository.marketplace.get('demo-listing'))?.status).toBe('reserved');
+    await expect(payments.confirmReceipt(escrowId)).rejects.toMatchObject({
+      code: 'escrow/not-allowed',
+    });
+
+    expect(await settleDue()).toBe(0);
+    clock += ESCROW_RELEASE_DAYS * DAY;
+    expect(await settleDue()).toBe(1);
+
+    expect((await repository.escrows.get(escrowId))?.status).toBe('released');
+    expect((await sessionOf(escrowId)).status).toBe('released');
+    expect((await repository.marketplace.get('demo-listing'))?.status).toBe('sold');
+  });
+
+  it('retries a release the provider failed', async () => {
+    const releasePayment = provider.provider.releasePayment;
+    provider.provider.releasePayment = jest
+      .fn<typeof releasePayment>()
+      .mockRejectedValueOnce(new Error('Provider unavailable'))
+      .mockImplementation(releasePayment);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const escrowId = await payments.checkout('demo-listing');
+    provider.pay((await sessionOf(escrowId)).id);
+    await payments.refresh(escrowId);
+
+    await expect(payments.confirmReceipt(escrowId)).rejects.toThrow('Provider unavailable');
+    expect((await repository.escrows.get(escrowId))?.status).toBe('releasing');
+
+    expect(await settleDue()).toBe(1);
+    expect((await repository.escrows.get(escrowId))?.status).toBe('released');
+    expect(provider.provider.releasePayment).toHaveBeenCalledTimes(2);
+  });
+
+  it('refunds a payment for a listing that went elsewhere', async () => {
+    const escrowId = await payments.checkout('demo-listing');
+    clock += (PAYMENT_SESSION_MINUTES - 1) * MINUTE;
+    provider.pay((await sessionOf(escrowId)).id);
+    clock += 2 * MINUTE;
+    await backend.firestore.doc('marketplace/demo-listing').update({status: 'sold'});
+
+    expect(await payments.refresh(escrowId)).toBe('refunded');
+    expect(await repository.escrows.get(escrowId)).toMatchObject({
+      endedBy: 'system',
+      endReason: 'listing-unavailable',
+    });
+    expect((await sessionOf(escrowId)).status).toBe('refunded');
+  });
+});
@@ -0,0 +1,96 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  LISTING_INDEX_VERSION,
+  buildListingIndex,
+  matchesSavedSearch,
+  pickIndexToken,
+  tokenize,
+} from '../src/services/marketplaceSearch';
+
+const listing = {
+  title: 'Pokémon Glurak Holo',
+  description: 'Near mint, ポケモンカード from 1999',
+  sellerName: 'Card Shop',
+  category: 'cards',
+  tags: ['Vintage', '#1st'],
+  shipping: {cost: 0, methods: ['Standard Shipping'], locations: ['Germany']},
+};
+
+describe('tokenize', () => {
+  it('folds Latin accents and keeps other scripts whole', () => {
+    expect(tokenize('Pokémon Ñandú ポケモンカード')).toEqual([
+      'pokemon',
+      'nandu',
+      'ポケモンカード',
+    ]);
+  });
+
+  it('drops stop words, single characters and duplicates', () => {
+    expect(tokenize('The card and the CARD x')).toEqual(['card']);
+  });
+});
+
+describe('buildListingIndex', () => {
+  it('indexes title prefixes, tags, seller, category and description', () => {
+    const index = buildListingIndex(listing);
+
+    expect(index.searchKeywords).toEqual(
+      expect.arrayContaining(['po', 'pok', 'pokemon', 'glurak', 'holo', 'tag:vintage', 'shop'])
+    );
+    expect(index.searchKeywords).toEqual(expect.arrayContaining(['cards', 'ポケモンカード']));
+    expect(index.searchKeywords).not.toContain('ne');
+    expect(index.searchIndexVersion).toBe(LISTING_INDEX_VERSION);
+  });
+
+  it('derives the shipping filters', () => {
+    expect(buildListingIndex(listing)).toMatchObject({shippingAvailable: true, freeShipping: true});
+    expect(buildListingIndex({...listing, shipping: {...listing.shipping, cost: 5}})).toMatchObject(
+      {shippingAvailable: true, freeShipping: false}
+    );
+    expect(buildListingIndex({...listing, shipping: undefined})).toMatchObject({
+      shippingAvailable: false,
+      freeShipping: false,
+    });
+  });
+});
+
+describe('pickIndexToken', () => {
+  it('prefers a tag, then the longest keyword', () => {
+    expect(pickIndexToken({keywords: 'glurak holo', tags: ['vintage']})).toBe('tag:vintage');
+    expect(pickIndexToken({keywords: 'glurak holo'})).toBe('glurak');
+    expect(pickIndexToken({})).toBeNull();
+  });
+});
+
+describe('matchesSavedSearch', () => {
+  const item = {
+    category: 'cards',
+    currency: 'EUR',
+    sellerId: 'seller',
+    condition: 'like-new' as const,
+    price: 120,
+  };
+  const index = buildListingIndex(listing);
+
+  it('matches keywords, tags and every filter', () => {
+    expect(
+      matchesSavedSearch(item, index, {
+        keywords: 'pokemon',
+        tags: ['vintage'],
+        category: 'cards',
+        currency: 'EUR',
+        conditions: ['like-new'],
+        shipping: 'free',
+        maxPrice: 150,
+      })
+    ).toBe(true);
+  });
+
+  it('rejects a listing outside any filter', () => {
+    expect(matchesSavedSearch(item, index, {keywords: 'charizard'})).toBe(false);
+    expect(matchesSavedSearch(item, index, {category: 'sealed'})).toBe(false);
+    expect(matchesSavedSearch(item, index, {currency: 'USD'})).toBe(false);
+    expect(matchesSavedSearch(item, index, {maxPrice: 100})).toBe(false);
+    expect(matchesSavedSearch(item, index, {conditions: ['good']})).toBe(false);
+  });
+});
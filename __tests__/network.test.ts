@@ -0,0 +1,99 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {Alert} from 'react-native';
+import {createBackendError} from '../src/services/backend';
+import {OfflineActionHandlers} from '../src/services/offlineActions';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
+jest.mock('../src/utils/storage', () => ({
+  __esModule: true,
+  default: {
+    getOfflineQueue: jest.fn(async () => []),
+    saveOfflineQueue: jest.fn(async () => {}),
+  },
+}));
+
+describe('NetworkManager offline queue', () => {
+  let network: typeof import('../src/utils/network').default;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // NetworkManager is a singleton, so each test loads a fresh copy
+    jest.resetModules();
+    const NetInfo = require('@react-native-community/netinfo');
+    network = require('../src/utils/network').default;
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const onChange = NetInfo.addEventListener.mock.calls[0][0];
+    onChange({isConnected: true, isInternetReachable: true, type: 'wifi'});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const follow = {uid: 'demo-user', targetUid: 'demo-seller'};
+
+  it('retries an action after a transient failure, with backoff', async () => {
+    const followUser = jest
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(createBackendError('firestore/unavailable', 'Backend unavailable'))
+      .mockResolvedValue(undefined);
+
+    await network.addToOfflineQueue('follow_user', follow);
+    network.setOfflineActionHandlers({
+      follow_user: followUser,
+    } as unknown as OfflineActionHandlers);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(network.getOfflineQueue()).toEqual([
+      expect.objectContaining({status: 'pending', retryCount: 1}),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(followUser).toHaveBeenCalledTimes(2);
+    expect(network.getOfflineQueue()).toEqual([]);
+  });
+
+  it('runs a retry requested while the queue is being processed', async () => {
+    let failUnfollow = true;
+    let finishFollow = () => {};
+    const handlers = {
+      unfollow_user: async () => {
+        if (failUnfollow) {
+          throw createBackendError('firestore/permission-denied', 'Permission denied');
+        }
+      },
+      follow_user: () =>
+        new Promise<void>(resolve => {
+          finishFollow = resolve;
+        }),
+    } as unknown as OfflineActionHandlers;
+
+    const unfollow = await network.addToOfflineQueue('unfollow_user', follow);
+    network.setOfflineActionHandlers(handlers);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(network.getFailedOfflineActions()).toHaveLength(1);
+
+    // A second pass stays busy on this action while the failed one is retried
+    await network.addToOfflineQueue('follow_user', follow);
+    network.setOfflineActionHandlers(handlers);
+    await jest.advanceTimersByTimeAsync(0);
+
+    failUnfollow = false;
+    const retried = network.retryOfflineAction(unfollow.id);
+    await jest.advanceTimersByTimeAsync(0);
+    finishFollow();
+    await jest.advanceTimersByTimeAsync(0);
+    await retried;
+
+    expect(network.getOfflineQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {OutboxSender} from '../src/utils/outbox';
+
+jest.mock('../src/utils/storage', () => ({
+  __esModule: true,
+  default: {
+    getMessageOutbox: jest.fn(async () => []),
+    saveMessageOutbox: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../src/utils/network', () => {
+  const network = {
+    online: true,
+    addNetworkListener: jest.fn(),
+    isOnline: () => network.online,
+    isOffline: () => !network.online,
+  };
+  return {__esModule: true, default: network};
+});
+
+const message = (content: string) => ({
+  content,
+  senderId: 'demo-user',
+  senderName: 'Demo User',
+  type: 'text' as const,
+  conversationId: 'conversation-1',
+});
+
+describe('MessageOutbox', () => {
+  let outbox: typeof import('../src/utils/outbox').default;
+  let network: {online: boolean};
+  let sent: string[];
+
+  const sendAll: OutboxSender = async entry => {
+    sent.push(entry.message.content);
+  };
+
+  beforeEach(() => {
+    // The outbox is a singleton, so each test loads a fresh copy
+    jest.resetModules();
+    outbox = require('../src/utils/outbox').default;
+    network = require('../src/utils/network').default;
+    sent = [];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps messages until there is a sender, then delivers them in order', async () => {
+    const first = await outbox.enqueue(message('first'), ['demo-seller']);
+    const second = await outbox.enqueue(message('second'), ['demo-seller']);
+    expect(outbox.getEntries('conversation-1').map(entry => entry.status)).toEqual([
+      'pending',
+      'pending',
+    ]);
+
+    const delivered = Promise.all([
+      outbox.waitForDelivery(first.id),
+      outbox.waitForDelivery(second.id),
+    ]);
+    outbox.setSender(sendAll);
+
+    await delivered;
+    expect(sent).toEqual(['first', 'second']);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('marks a message failed when sending fails online, until it is retried', async () => {
+    const entry = await outbox.enqueue(message('hello'), ['demo-seller']);
+    const delivered = outbox.waitForDelivery(entry.id);
+    let failing = true;
+    outbox.setSender(async sending => {
+      if (failing) {
+        throw new Error('Permission denied');
+      }
+      await sendAll(sending, () => {});
+    });
+
+    await expect(delivered).rejects.toThrow('Permission denied');
+    expect(outbox.getEntries()[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      lastError: 'Permission denied',
+    });
+
+    failing = false;
+    await outbox.retry(entry.id);
+    expect(sent).toEqual(['hello']);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('sends a message retried while the pass that failed it is still running', async () => {
+    const first = await outbox.enqueue(message('first'), ['demo-seller']);
+    const second = await outbox.enqueue(message('second'), ['demo-seller']);
+    const firstFailed = outbox.waitForDelivery(first.id);
+    let finishSending = () => {};
+    const secondSent = new Promise<void>(resolve => {
+      finishSending = resolve;
+    });
+    let failing = true;
+    outbox.setSender(async sending => {
+      if (sending.message.content === 'first' && failing) {
+        throw new Error('Permission denied');
+      }
+      if (sending.message.content === 'second') {
+        await secondSent;
+      }
+      await sendAll(sending, () => {});
+    });
+
+    await expect(firstFailed).rejects.toThrow('Permission denied');
+    failing = false;
+    const delivered = Promise.all([
+      outbox.waitForDelivery(first.id),
+      outbox.waitForDelivery(second.id),
+    ]);
+    await outbox.retry(first.id);
+    finishSending();
+
+    await delivered;
+    expect(sent).toEqual(['second', 'first']);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('leaves a message pending when the connection drops mid-send', async () => {
+    outbox.setSender(async () => {
+      network.online = false;
+      throw new Error('Network request failed');
+    });
+
+    const entry = await outbox.enqueue(message('hello'), ['demo-seller']);
+    await outbox.flush();
+
+    expect(outbox.getEntries()[0]).toMatchObject({id: entry.id, status: 'pending', attempts: 0});
+  });
+
+  it('rejects waiters when a queued message is deleted', async () => {
+    const entry = await outbox.enqueue(message('hello'), ['demo-seller']);
+    const delivered = outbox.waitForDelivery(entry.id);
+
+    await outbox.remove(entry.id);
+
+    await expect(delivered).rejects.toThrow('deleted before it was sent');
+    expect(outbox.getEntries()).toEqual([]);
+  });
+});
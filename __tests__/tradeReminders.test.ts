@@ -0,0 +1,70 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import {
+  MemoryBackend,
+  createMemoryBackend,
+  createTradeReminderSchedule,
+  demoSeed,
+} from '../src/services/memoryBackend';
+import {Repository, createHelpers, createRepository} from '../src/services/repository';
+import {TRADE_RECEIPT_DAYS, TRADE_SHIPPING_DAYS} from '../src/services/tradeStateMachine';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('scheduled trade reminders', () => {
+  let clock: number;
+  let backend: MemoryBackend;
+  let repository: Repository;
+  let tradeId: string;
+
+  // Trade steps are stamped with the real time, so the clock moves on from it
+  const daysLater = (days: number) => {
+    clock = Date.now() + days * DAY;
+  };
+  const runReminders = () => backend.functions.runScheduled('sendTradeReminders');
+  const titlesFor = async (uid: string) =>
+    (await repository.notifications.listForUser(uid))
+      .filter(notification => notification.data?.tradeId === tradeId)
+      .map(notification => notification.title);
+
+  beforeEach(async () => {
+    clock = Date.now();
+    backend = createMemoryBackend({
+      ...demoSeed,
+      schedules: {
+        ...demoSeed.schedules,
+        sendTradeReminders: createTradeReminderSchedule(() => new Date(clock)),
+      },
+    });
+    repository = createRepository(backend.firestore, createHelpers(backend));
+    const listing = await repository.marketplace.get('demo-listing');
+    tradeId = await repository.trades.create({
+      initiatorId: 'demo-user',
+      receiverId: 'demo-seller',
+      initiatorItems: [],
+      receiverItems: [listing!],
+    });
+    await repository.trades.accept(tradeId, 'demo-seller');
+  });
+
+  it('reminds the seller once when shipping is overdue', async () => {
+    expect(await runReminders()).toBe(0);
+
+    daysLater(TRADE_SHIPPING_DAYS);
+    expect(await runReminders()).toBe(1);
+    expect(await runReminders()).toBe(0);
+
+    expect(await titlesFor('demo-seller')).toContain('Trade shipment overdue');
+    expect(await titlesFor('demo-user')).not.toContain('Trade shipment overdue');
+  });
+
+  it('reminds the buyer to confirm a delivery that is overdue', async () => {
+    await repository.trades.markShipped(tradeId, 'demo-seller', {
+      carrier: 'UPS',
+      trackingNumber: '1Z999',
+    });
+
+    daysLater(TRADE_RECEIPT_DAYS);
+    expect(await runReminders()).toBe(1);
+    expect(await titlesFor('demo-user')).toContain('Confirm your trade delivery');
+  });
+});
@@ -0,0 +1,102 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import {createMemoryBackend, demoSeed} from '../src/services/memoryBackend';
+import {Repository, createHelpers, createRepository} from '../src/services/repository';
+import {getTradeActions} from '../src/services/tradeStateMachine';
+
+const shipment = {carrier: 'UPS', trackingNumber: '1Z999'};
+
+describe('trade state machine', () => {
+  let repository: Repository;
+  let tradeId: string;
+
+  beforeEach(async () => {
+    const backend = createMemoryBackend(demoSeed);
+    repository = createRepository(backend.firestore, createHelpers(backend));
+    const listing = await repository.marketplace.get('demo-listing');
+    tradeId = await repository.trades.create({
+      initiatorId: 'demo-user',
+      receiverId: 'demo-seller',
+      initiatorItems: [],
+      receiverItems: [listing!],
+    });
+  });
+
+  it('only lets the receiver accept an offer', async () => {
+    const trade = await repository.trades.get(tradeId);
+
+    expect(getTradeActions(trade!, 'demo-seller')).toEqual(
+      expect.arrayContaining(['accept', 'reject'])
+    );
+    expect(getTradeActions(trade!, 'demo-user')).not.toContain('accept');
+    await expect(repository.trades.accept(tradeId, 'demo-user')).rejects.toMatchObject({
+      code: 'trades/not-your-turn',
+    });
+  });
+
+  it('completes once the item arrives and marks the listing sold', async () => {
+    await repository.trades.accept(tradeId, 'demo-seller');
+    expect((await repository.marketplace.get('demo-listing'))?.status).toBe('reserved');
+
+    await repository.trades.markShipped(tradeId, 'demo-seller', shipment);
+    await repository.trades.confirmReceived(tradeId, 'demo-user');
+
+    const trade = await repository.trades.get(tradeId);
+    expect(trade?.status).toBe('completed');
+    expect(trade?.messages.map(message => message.type)).toEqual([
+      'offer',
+      'acceptance',
+      'shipment',
+      'receipt',
+      'completion',
+    ]);
+    expect(getTradeActions(trade!, 'demo-user')).toEqual([]);
+    expect((await repository.marketplace.get('demo-listing'))?.status).toBe('sold');
+  });
+
+  it('keeps the seller from editing or deleting a listing an accepted trade holds', async () => {
+    await repository.trades.accept(tradeId, 'demo-seller');
+
+    const held = {code: 'marketplace/held-by-trade'};
+    await expect(repository.marketplace.update('demo-listing', {price: 1})).rejects.toMatchObject(
+      held
+    );
+    await expect(repository.marketplace.setStatus('demo-listing', 'sold')).rejects.toMatchObject(
+      held
+    );
+    await expect(repository.marketplace.delete('demo-listing')).rejects.toMatchObject(held);
+    expect((await repository.marketplace.get('demo-listing'))?.price).toBe(320);
+  });
+
+  it('lets either trader cancel a disputed trade before anything ships', async () => {
+    await repository.trades.accept(tradeId, 'demo-seller');
+    await repository.trades.openDispute(tradeId, 'demo-user', 'Seller stopped replying');
+
+    const disputed = await repository.trades.get(tradeId);
+    expect(disputed?.status).toBe('disputed');
+    expect(getTradeActions(disputed!, 'demo-seller')).toEqual(['cancel']);
+    expect(getTradeActions(disputed!, 'demo-user')).toEqual(['cancel', 'resolve']);
+
+    await repository.trades.cancel(tradeId, 'demo-seller');
+
+    expect((await repository.trades.get(tradeId))?.status).toBe('cancelled');
+    const listing = await repository.marketplace.get('demo-listing');
+    expect(listing?.status).toBe('available');
+    expect(listing?.reservedByTradeId).toBeUndefined();
+  });
+
+  it('keeps a disputed trade frozen once something has shipped', async () => {
+    await repository.trades.accept(tradeId, 'demo-seller');
+    await repository.trades.markShipped(tradeId, 'demo-seller', shipment);
+    await repository.trades.openDispute(tradeId, 'demo-user', 'Never arrived');
+
+    const disputed = await repository.trades.get(tradeId);
+    expect(getTradeActions(disputed!, 'demo-seller')).toEqual([]);
+    expect(getTradeActions(disputed!, 'demo-user')).toEqual(['resolve']);
+    await expect(repository.trades.cancel(tradeId, 'demo-user')).rejects.toMatchObject({
+      code: 'trades/not-allowed',
+    });
+
+    expect((await repository.trades.get(tradeId))?.status).toBe('disputed');
+    expect((await repository.marketplace.get('demo-listing'))?.status).toBe('reserved');
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * AI Settings Sheet Component
+ * Bottom sheet for an AI conversation's model, temperature, response length
+ * and persona; custom prompts can be saved as personas for reuse
+ */
+
+import React, {useState, useEffect} from 'react';
+import {View, StyleSheet, ScrollView, Alert} from 'react-native';
+import {Text, TextInput, Button, Chip, IconButton, Portal, Modal} from 'react-native-paper';
+
+import {useAuth} from '../contexts/AuthContext';
+import {useFirebase} from '../contexts/FirebaseContext';
+import {
+  AI_MODELS,
+  BUILT_IN_PERSONAS,
+  DEFAULT_AI_MODEL,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  MAX_TOKEN_OPTIONS,
+} from '../services/ai';
+import {AIConversationSettings, AIPersona, Conversation} from '../types';
+import {theme} from '../utils/theme';
+
+const TEMPERATURE_STEP = 0.1;
+
+interface AISettingsSheetProps {
+  visible: boolean;
+  conversation: Conversation;
+  onDismiss: () => void;
+}
+
+const AISettingsSheet: React.FC<AISettingsSheetProps> = ({visible, conversation, onDismiss}) => {
+  const [draft, setDraft] = useState<AIConversationSettings>({});
+  const [savedPersonas, setSavedPersonas] = useState<AIPersona[]>([]);
+  const [personaName, setPersonaName] = useState('');
+  const [namingPersona, setNamingPersona] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const {user} = useAuth();
+  const {repository} = useFirebase();
+
+  // Every opening starts from the conversation's current settings
+  useEffect(() => {
+    if (!visible) return;
+
+    setDraft(conversation.metadata || {});
+    setNamingPersona(false);
+    setPersonaName('');
+    loadPersonas();
+  }, [visible]);
+
+  const loadPersonas = async () => {
+    if (!user) return;
+
+    try {
+      setSavedPersonas(await repository.personas.listForUser(user.uid));
+    } catch (error) {
+      console.error('Error loading personas:', error);
+    }
+  };
+
+  const updateDraft = (updates: AIConversationSettings) => {
+    setDraft(prev => ({...prev, ...updates}));
+  };
+
+  const selectPersona = (persona: AIPersona | null) => {
+    updateDraft({
+      personaId: persona?.id,
+      systemPrompt: persona?.systemPrompt,
+    });
+  };
+
+  // Editing the prompt turns it into a custom one
+  const handlePromptChange = (systemPrompt: string) => {
+    updateDraft({systemPrompt, personaId: undefined});
+  };
+
+  const temperature = draft.temperature !== undefined ? draft.temperature : DEFAULT_TEMPERATURE;
+
+  const changeTemperature = (delta: number) => {
+    const next = Math.round((temperature + delta) * 10) / 10;
+    updateDraft({temperature: Math.min(1, Math.max(0, next))});
+  };
+
+  const handleSavePersona = async () => {
+    if (!user || !personaName.trim() || !draft.systemPrompt?.trim()) return;
+
+    try {
+      const personaId = await repository.personas.create(user.uid, {
+        name: personaName.trim(),
+        systemPrompt: draft.systemPrompt.trim(),
+      });
+      updateDraft({personaId});
+      setNamingPersona(false);
+      setPersonaName('');
+      await loadPersonas();
+    } catch (error) {
+      console.error('Error saving persona:', error);
+      Alert.alert('Error', 'Failed to save persona');
+    }
+  };
+
+  const handleDeletePersona = (persona: AIPersona) => {
+    Alert.alert('Delete Persona', `Delete "${persona.name}"?`, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await repository.personas.delete(persona.id);
+            if (draft.personaId === persona.id) {
+              updateDraft({personaId: undefined});
+            }
+            await loadPersonas();
+          } catch (error) {
+            console.error('Error deleting persona:', error);
+            Alert.alert('Error', 'Failed to delete persona');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await repository.conversations.updateAISettings(conversation.id, {
+        ...draft,
+        systemPrompt: draft.systemPrompt?.trim() || undefined,
+      });
+      onDismiss();
+    } catch (error) {
+      console.error('Error saving AI settings:', error);
+      Alert.alert('Error', 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    onLongPress?: () => void
+  ) => (
+    <Chip
+      key={key}
+      selected={selected}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={[styles.optionChip, selected && styles.selectedChip]}
+      disabled={saving}>
+      {label}
+    </Chip>
+  );
+
+  const selectedModel = draft.model || DEFAULT_AI_MODEL;
+  const selectedMaxTokens = draft.maxTokens || DEFAULT_MAX_TOKENS;
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.sheet}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>Assistant Settings</Text>
+
+        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionTitle}>Persona</Text>
+          <View style={styles.optionsContainer}>
+            {BUILT_IN_PERSONAS.map(persona =>
+              renderOption(persona.id, persona.name, draft.personaId === persona.id, () =>
+                selectPersona(persona)
+              )
+            )}
+            {savedPersonas.map(persona =>
+              renderOption(
+                persona.id,
+                persona.name,
+                draft.personaId === persona.id,
+                () => selectPersona(persona),
+                () => handleDeletePersona(persona)
+              )
+            )}
+            {renderOption('custom', 'Custom', !draft.personaId, () => selectPersona(null))}
+          </View>
+          {savedPersonas.length > 0 && (
+            <Text style={styles.hint}>Long-press a saved persona to delete it</Text>
+          )}
+
+          <TextInput
+            label="System prompt"
+            value={draft.systemPrompt || ''}
+            onChangeText={handlePromptChange}
+            mode="outlined"
+            multiline
+            numberOfLines={4}
+            maxLength={2000}
+            style={styles.promptInput}
+            theme={{colors: {primary: theme.colors.primary}}}
+            disabled={saving}
+          />
+
+          {!draft.personaId && !!draft.systemPrompt?.trim() && (
+            namingPersona ? (
+              <View style={styles.personaNameRow}>
+                <TextInput
+                  label="Persona name"
+                  value={personaName}
+                  onChangeText={setPersonaName}
+                  mode="outlined"
+                  maxLength={40}
+                  style={styles.personaNameInput}
+                  theme={{colors: {primary: theme.colors.primary}}}
+                  autoFocus
+                />
+                <Button onPress={handleSavePersona} disabled={!personaName.trim()}>
+                  Save
+                </Button>
+              </View>
+            ) : (
+              <Button
+                mode="text"
+                icon="content-save-outline"
+                onPress={() => setNamingPersona(true)}
+                style={styles.savePersonaButton}>
+                Save as Persona
+              </Button>
+            )
+          )}
+
+          <Text style={styles.sectionTitle}>Model</Text>
+          <View style={styles.optionsContainer}>
+            {AI_MODELS.map(model =>
+              renderOption(model.id, model.label, selectedModel === model.id, () =>
+                updateDraft({model: model.id})
+              )
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Temperature</Text>
+          <View style={styles.stepper}>
+            <IconButton
+              icon="minus"
+              onPress={() => changeTemperature(-TEMPERATURE_STEP)}
+              disabled={saving || temperature <= 0}
+            />
+            <Text style={styles.stepperValue}>{temperature.toFixed(1)}</Text>
+            <IconButton
+              icon="plus"
+              onPress={() => changeTemperature(TEMPERATURE_STEP)}
+              disabled={saving || temperature >= 1}
+            />
+            <Text style={styles.hint}>Lower is more focused, higher more creative</Text>
+          </View>
+
+          <Text style={styles.sectionTitle}>Max Response Tokens</Text>
+          <View style={styles.optionsContainer}>
+            {MAX_TOKEN_OPTIONS.map(maxTokens =>
+              renderOption(
+                String(maxTokens),
+                String(maxTokens),
+                selectedMaxTokens === maxTokens,
+                () => updateDraft({maxTokens})
+              )
+            )}
+          </View>
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button onPress={onDismiss} disabled={saving}>
+            Cancel
+          </Button>
+          <Button mode="contained" onPress={handleSave} loading={saving} disabled={saving}>
+            Save
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '85%',
+    padding: theme.spacing.md,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    backgroundColor: theme.colors.surface,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outline,
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.md,
+  },
+  scrollView: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.sm,
+  },
+  optionChip: {
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  selectedChip: {
+    backgroundColor: theme.colors.primary,
+  },
+  hint: {
+    fontSize: 12,
+    color: theme.colors.onSurface,
+    opacity: 0.6,
+    marginBottom: theme.spacing.sm,
+  },
+  promptInput: {
+    backgroundColor: theme.colors.surface,
+    marginBottom: theme.spacing.sm,
+  },
+  personaNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  personaNameInput: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  savePersonaButton: {
+    alignSelf: 'flex-start',
+    marginBottom: theme.spacing.md,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.md,
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingTop: theme.spacing.md,
+  },
+});
+
+export default AISettingsSheet;
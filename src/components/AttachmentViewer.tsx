@@ -0,0 +1,66 @@
+/**
+ * Attachment Viewer Component
+ * Full-screen preview for image attachments in chat
+ */
+
+import React from 'react';
+import {View, StyleSheet, Image, Modal, StatusBar} from 'react-native';
+import {Text, IconButton} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {MessageAttachment} from '../types';
+import {theme} from '../utils/theme';
+
+interface AttachmentViewerProps {
+  attachment: MessageAttachment | null;
+  onDismiss: () => void;
+}
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({attachment, onDismiss}) => {
+  return (
+    <Modal
+      visible={!!attachment}
+      animationType="fade"
+      transparent
+      onRequestClose={onDismiss}>
+      <StatusBar barStyle="light-content" />
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title} numberOfLines={1}>
+            {attachment?.name}
+          </Text>
+          <IconButton icon="close" iconColor={theme.colors.onBackground} onPress={onDismiss} />
+        </View>
+        {attachment && (
+          <Image
+            source={{uri: attachment.url}}
+            style={styles.image}
+            resizeMode="contain"
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: theme.spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    color: theme.colors.onBackground,
+  },
+  image: {
+    flex: 1,
+    width: '100%',
+  },
+});
+
+export default AttachmentViewer;
@@ -0,0 +1,110 @@
+/**
+ * Listing Context Card Component
+ * Compact card pinned above a buyer-seller conversation showing the listing
+ * it is about
+ */
+
+import React from 'react';
+import {View, StyleSheet, Image, TouchableOpacity} from 'react-native';
+import {Text, Chip} from 'react-native-paper';
+
+import {isListingExpired} from '../services/repository';
+import {ConversationListing, MarketplaceItem} from '../types';
+import {theme} from '../utils/theme';
+
+interface ListingContextCardProps {
+  listing: ConversationListing;
+  // The current listing; null once it has been deleted, undefined while loading
+  item?: MarketplaceItem | null;
+  onPress: () => void;
+}
+
+const formatPrice = (price: number, currency: string) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency || 'USD',
+  }).format(price);
+};
+
+const ListingContextCard: React.FC<ListingContextCardProps> = ({listing, item, onPress}) => {
+  const getStatusLabel = () => {
+    if (item === null) return 'removed';
+    if (!item) return null;
+    return isListingExpired(item) ? 'expired' : item.status;
+  };
+
+  const statusLabel = getStatusLabel();
+  const imageURL = item && item.images[0] ? item.images[0] : listing.imageURL;
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={onPress} disabled={item === null}>
+      {imageURL ? (
+        <Image source={{uri: imageURL}} style={styles.image} />
+      ) : (
+        <View style={[styles.image, styles.imagePlaceholder]} />
+      )}
+      <View style={styles.details}>
+        <Text style={styles.title} numberOfLines={1}>
+          {item ? item.title : listing.title}
+        </Text>
+        <Text style={styles.price}>
+          {item ? formatPrice(item.price, item.currency) : formatPrice(listing.price, listing.currency)}
+        </Text>
+      </View>
+      {statusLabel && (
+        <Chip
+          compact
+          style={[
+            styles.statusChip,
+            {backgroundColor: statusLabel === 'available' ? theme.colors.success : theme.colors.error},
+          ]}
+          textStyle={styles.statusText}>
+          {statusLabel}
+        </Chip>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  image: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  imagePlaceholder: {
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: theme.spacing.sm,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+  },
+  price: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    marginTop: theme.spacing.xs,
+  },
+  statusChip: {
+    alignSelf: 'center',
+  },
+  statusText: {
+    fontSize: 12,
+    color: theme.colors.onPrimary,
+  },
+});
+
+export default ListingContextCard;
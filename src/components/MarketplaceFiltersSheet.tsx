@@ -0,0 +1,318 @@
+/**
+ * Marketplace Filters Sheet Component
+ * Bottom sheet for sorting and filtering marketplace search results by price,
+ * currency, condition, shipping, tags and seller
+ */
+
+import React, {useState, useEffect} from 'react';
+import {View, StyleSheet, ScrollView} from 'react-native';
+import {Text, TextInput, Button, Chip, Portal, Modal} from 'react-native-paper';
+
+import {MarketplaceItem, MarketplaceSearchQuery, MarketplaceSort} from '../types';
+import {theme} from '../utils/theme';
+
+const sortOptions: {key: MarketplaceSort; label: string}[] = [
+  {key: 'newest', label: 'Newest'},
+  {key: 'price-asc', label: 'Price: Low to High'},
+  {key: 'price-desc', label: 'Price: High to Low'},
+  {key: 'ending-soon', label: 'Ending Soonest'},
+];
+
+const conditionOptions: {key: MarketplaceItem['condition']; label: string}[] = [
+  {key: 'new', label: 'New'},
+  {key: 'like-new', label: 'Like New'},
+  {key: 'good', label: 'Good'},
+  {key: 'fair', label: 'Fair'},
+  {key: 'poor', label: 'Poor'},
+];
+
+const shippingOptions: {key: NonNullable<MarketplaceSearchQuery['shipping']>; label: string}[] = [
+  {key: 'any', label: 'Any'},
+  {key: 'available', label: 'Ships'},
+  {key: 'free', label: 'Free Shipping'},
+];
+
+const currencyOptions = ['USD', 'EUR', 'GBP', 'JPY'];
+
+interface MarketplaceFiltersSheetProps {
+  visible: boolean;
+  query: MarketplaceSearchQuery;
+  // Shown on the seller chip when the query is limited to one seller
+  sellerName?: string;
+  onApply: (query: MarketplaceSearchQuery) => void;
+  onDismiss: () => void;
+}
+
+const parsePrice = (value: string): number | undefined => {
+  const price = parseFloat(value);
+  return isNaN(price) ? undefined : price;
+};
+
+const MarketplaceFiltersSheet: React.FC<MarketplaceFiltersSheetProps> = ({
+  visible,
+  query,
+  sellerName,
+  onApply,
+  onDismiss,
+}) => {
+  const [draft, setDraft] = useState<MarketplaceSearchQuery>({});
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [currentTag, setCurrentTag] = useState('');
+
+  // Every opening starts from the filters currently applied
+  useEffect(() => {
+    if (!visible) return;
+
+    setDraft(query);
+    setMinPrice(query.minPrice !== undefined ? String(query.minPrice) : '');
+    setMaxPrice(query.maxPrice !== undefined ? String(query.maxPrice) : '');
+    setCurrentTag('');
+  }, [visible]);
+
+  const updateDraft = (updates: MarketplaceSearchQuery) => {
+    setDraft(prev => ({...prev, ...updates}));
+  };
+
+  const toggleCondition = (condition: MarketplaceItem['condition']) => {
+    const selected = draft.conditions || [];
+    updateDraft({
+      conditions: selected.includes(condition)
+        ? selected.filter(selectedCondition => selectedCondition !== condition)
+        : [...selected, condition],
+    });
+  };
+
+  const handleAddTag = () => {
+    const tag = currentTag.trim().replace(/^#/, '').toLowerCase();
+    if (tag && !(draft.tags || []).includes(tag)) {
+      updateDraft({tags: [...(draft.tags || []), tag]});
+    }
+    setCurrentTag('');
+  };
+
+  const handleReset = () => {
+    setDraft({keywords: query.keywords, category: query.category});
+    setMinPrice('');
+    setMaxPrice('');
+  };
+
+  const handleApply = () => {
+    const conditions = draft.conditions || [];
+    onApply({
+      ...draft,
+      minPrice: parsePrice(minPrice),
+      maxPrice: parsePrice(maxPrice),
+      // Every condition selected is the same as none
+      conditions:
+        conditions.length > 0 && conditions.length < conditionOptions.length ? conditions : undefined,
+      tags: draft.tags && draft.tags.length > 0 ? draft.tags : undefined,
+    });
+  };
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Chip
+      key={key}
+      selected={selected}
+      onPress={onPress}
+      style={[styles.optionChip, selected && styles.selectedChip]}>
+      {label}
+    </Chip>
+  );
+
+  const selectedSort = draft.sort || 'newest';
+  const selectedShipping = draft.shipping || 'any';
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.sheet}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>Sort & Filter</Text>
+
+        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionTitle}>Sort By</Text>
+          <View style={styles.optionsContainer}>
+            {sortOptions.map(option =>
+              renderOption(option.key, option.label, selectedSort === option.key, () =>
+                updateDraft({sort: option.key})
+              )
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Price</Text>
+          <View style={styles.priceContainer}>
+            <TextInput
+              label="Min"
+              value={minPrice}
+              onChangeText={setMinPrice}
+              mode="outlined"
+              keyboardType="numeric"
+              style={styles.priceInput}
+            />
+            <TextInput
+              label="Max"
+              value={maxPrice}
+              onChangeText={setMaxPrice}
+              mode="outlined"
+              keyboardType="numeric"
+              style={styles.priceInput}
+            />
+          </View>
+
+          <Text style={styles.sectionTitle}>Currency</Text>
+          <View style={styles.optionsContainer}>
+            {renderOption('any', 'Any', !draft.currency, () => updateDraft({currency: undefined}))}
+            {currencyOptions.map(currency =>
+              renderOption(currency, currency, draft.currency === currency, () =>
+                updateDraft({currency})
+              )
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Condition</Text>
+          <View style={styles.optionsContainer}>
+            {conditionOptions.map(option =>
+              renderOption(
+                option.key,
+                option.label,
+                (draft.conditions || []).includes(option.key),
+                () => toggleCondition(option.key)
+              )
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Shipping</Text>
+          <View style={styles.optionsContainer}>
+            {shippingOptions.map(option =>
+              renderOption(option.key, option.label, selectedShipping === option.key, () =>
+                updateDraft({shipping: option.key})
+              )
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Tags</Text>
+          <View style={styles.tagInputContainer}>
+            <TextInput
+              label="Add tag"
+              value={currentTag}
+              onChangeText={setCurrentTag}
+              mode="outlined"
+              style={styles.tagInput}
+              onSubmitEditing={handleAddTag}
+            />
+            <Button mode="contained" onPress={handleAddTag} disabled={!currentTag.trim()} compact>
+              Add
+            </Button>
+          </View>
+          <View style={styles.optionsContainer}>
+            {(draft.tags || []).map(tag => (
+              <Chip
+                key={tag}
+                onClose={() => updateDraft({tags: (draft.tags || []).filter(other => other !== tag)})}
+                style={styles.optionChip}>
+                #{tag}
+              </Chip>
+            ))}
+          </View>
+
+          {draft.sellerId && (
+            <>
+              <Text style={styles.sectionTitle}>Seller</Text>
+              <View style={styles.optionsContainer}>
+                <Chip
+                  icon="account"
+                  onClose={() => updateDraft({sellerId: undefined})}
+                  style={styles.optionChip}>
+                  {sellerName || 'Selected seller'}
+                </Chip>
+              </View>
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button onPress={handleReset}>Reset</Button>
+          <Button mode="contained" onPress={handleApply}>
+            Show Results
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '85%',
+    padding: theme.spacing.md,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    backgroundColor: theme.colors.surface,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outline,
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.md,
+  },
+  scrollView: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.sm,
+  },
+  optionChip: {
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  selectedChip: {
+    backgroundColor: theme.colors.primary,
+  },
+  priceContainer: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.md,
+  },
+  priceInput: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+  },
+  tagInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginBottom: theme.spacing.sm,
+  },
+  tagInput: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingTop: theme.spacing.md,
+  },
+});
+
+export default MarketplaceFiltersSheet;
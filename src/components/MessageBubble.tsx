@@ -3,22 +3,75 @@
  * Renders individual chat messages with different styles for user/AI messages
  */
 
-import React from 'react';
-import {View, StyleSheet} from 'react-native';
-import {Text, Avatar, Card} from 'react-native-paper';
-import {Message} from '../types';
+import React, {useState} from 'react';
+import {View, StyleSheet, Alert, TouchableOpacity, Image, Linking} from 'react-native';
+import {Text, Avatar, Card, Icon, IconButton, ProgressBar} from 'react-native-paper';
+import AttachmentViewer from './AttachmentViewer';
+import {Message, MessageAttachment, MessageDeliveryStatus} from '../types';
 import {theme} from '../utils/theme';
 
+// Previews without recorded dimensions render at this size
+const DEFAULT_THUMBNAIL_SIZE = 200;
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 interface MessageBubbleProps {
   message: Message;
   currentUserId: string;
+  showSeen?: boolean;
+  // Set while the outbox is uploading this message's attachments
+  uploadProgress?: number;
+  // AI replies still being generated render as they arrive
+  streaming?: boolean;
+  onRetry?: () => void;
+  onDelete?: () => void;
+  onRegenerate?: () => void;
+  onSelectVariant?: (index: number) => void;
+  // Local system messages, such as summaries, can be closed
+  onDismiss?: () => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({message, currentUserId}) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  currentUserId,
+  showSeen = false,
+  uploadProgress,
+  streaming = false,
+  onRetry,
+  onDelete,
+  onRegenerate,
+  onSelectVariant,
+  onDismiss,
+}) => {
+  const [viewerAttachment, setViewerAttachment] = useState<MessageAttachment | null>(null);
+
   const isUserMessage = message.senderId === currentUserId;
   const isAIMessage = message.type === 'ai';
   const isSystemMessage = message.type === 'system';
 
+  const getDeliveryStatus = (): MessageDeliveryStatus => {
+    if (message.deliveryStatus) return message.deliveryStatus;
+
+    const hasOtherRecipient = (userIds?: string[]) =>
+      (userIds || []).some(userId => userId !== message.senderId);
+
+    if (hasOtherRecipient(message.readBy)) return 'read';
+    if (hasOtherRecipient(message.deliveredTo)) return 'delivered';
+    return 'sent';
+  };
+
+  const deliveryStatus = getDeliveryStatus();
+  const variantCount = message.variants?.length || 0;
+  const selectedVariant = message.selectedVariant !== undefined
+    ? message.selectedVariant
+    : Math.max(variantCount - 1, 0);
+  const isFailed = isUserMessage && deliveryStatus === 'failed';
+
   const formatTime = (timestamp: Date) => {
     return timestamp.toLocaleTimeString([], {
       hour: '2-digit',
@@ -55,6 +108,78 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({message, currentUserId}) =
     return 'account';
   };
 
+  const getStatusIcon = () => {
+    if (deliveryStatus === 'pending') return 'clock-outline';
+    if (deliveryStatus === 'failed') return 'alert-circle';
+    if (deliveryStatus === 'delivered' || deliveryStatus === 'read') return 'check-all';
+    return 'check';
+  };
+
+  const getStatusColor = () => {
+    if (deliveryStatus === 'failed') return theme.colors.error;
+    if (deliveryStatus === 'read') return theme.colors.success;
+    return getTextColor();
+  };
+
+  const openFile = async (attachment: MessageAttachment) => {
+    try {
+      await Linking.openURL(attachment.url);
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      Alert.alert('Error', 'No app available to open this file');
+    }
+  };
+
+  const renderAttachment = (attachment: MessageAttachment) => {
+    if (attachment.kind === 'image') {
+      const size = attachment.thumbnail || {
+        width: DEFAULT_THUMBNAIL_SIZE,
+        height: DEFAULT_THUMBNAIL_SIZE,
+      };
+      return (
+        <TouchableOpacity
+          key={attachment.id}
+          activeOpacity={0.8}
+          onPress={() => setViewerAttachment(attachment)}>
+          <Image
+            source={{uri: attachment.url}}
+            style={[styles.attachmentImage, size]}
+            resizeMode="cover"
+          />
+        </TouchableOpacity>
+      );
+    }
+
+    // Files can only be opened once they have been uploaded
+    return (
+      <TouchableOpacity
+        key={attachment.id}
+        style={styles.attachmentFile}
+        disabled={deliveryStatus === 'pending' || isFailed}
+        onPress={() => openFile(attachment)}>
+        <Icon source="file-document-outline" size={28} color={getTextColor()} />
+        <View style={styles.attachmentFileInfo}>
+          <Text style={[styles.attachmentFileName, {color: getTextColor()}]} numberOfLines={1}>
+            {attachment.name}
+          </Text>
+          {!!attachment.size && (
+            <Text style={[styles.attachmentFileSize, {color: getTextColor()}]}>
+              {formatFileSize(attachment.size)}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const handleFailedPress = () => {
+    Alert.alert('Message Not Sent', 'This message could not be delivered.', [
+      {text: 'Delete', style: 'destructive', onPress: onDelete},
+      {text: 'Cancel', style: 'cancel'},
+      {text: 'Retry', onPress: onRetry},
+    ]);
+  };
+
   if (isSystemMessage) {
     return (
       <View style={styles.systemContainer}>
@@ -66,6 +191,15 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({message, currentUserId}) =
             <Text style={styles.systemTime}>
               {formatTime(message.timestamp)}
             </Text>
+            {onDismiss && (
+              <IconButton
+                icon="close"
+                size={16}
+                iconColor={theme.colors.onSecondary}
+                onPress={onDismiss}
+                style={styles.systemDismiss}
+              />
+            )}
           </Card.Content>
         </Card>
       </View>
@@ -90,34 +224,116 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({message, currentUserId}) =
           <Text style={styles.senderName}>{message.senderName}</Text>
         )}
         
-        <Card style={getBubbleStyle()}>
-          <Card.Content style={styles.bubbleContent}>
-            <Text style={[styles.messageText, {color: getTextColor()}]}>
-              {message.content}
-            </Text>
-            
-            <View style={styles.messageFooter}>
-              <Text style={[styles.timestamp, {color: getTextColor()}]}>
-                {formatTime(message.timestamp)}
-              </Text>
-              
-              {message.metadata && (
-                <View style={styles.metadata}>
-                  {message.metadata.model && (
-                    <Text style={[styles.metadataText, {color: getTextColor()}]}>
-                      {message.metadata.model}
-                    </Text>
-                  )}
-                  {message.metadata.tokens && (
-                    <Text style={[styles.metadataText, {color: getTextColor()}]}>
-                      {message.metadata.tokens} tokens
-                    </Text>
+        <TouchableOpacity
+          activeOpacity={0.7}
+          disabled={!isFailed}
+          onPress={handleFailedPress}>
+          <Card style={[...getBubbleStyle(), isFailed && styles.failedBubble]}>
+            <Card.Content style={styles.bubbleContent}>
+              {message.attachments && message.attachments.length > 0 && (
+                <View style={styles.attachments}>
+                  {message.attachments.map(renderAttachment)}
+                  {deliveryStatus === 'pending' && uploadProgress !== undefined && (
+                    <ProgressBar
+                      progress={uploadProgress}
+                      color={getTextColor()}
+                      style={styles.uploadProgress}
+                    />
                   )}
                 </View>
               )}
-            </View>
-          </Card.Content>
-        </Card>
+
+              {!!message.content && (
+                <Text style={[styles.messageText, {color: getTextColor()}]}>
+                  {message.content}
+                  {streaming && <Text style={styles.streamingCursor}> ▍</Text>}
+                </Text>
+              )}
+              
+              <View style={styles.messageFooter}>
+                <View style={styles.footerStatus}>
+                  <Text style={[styles.timestamp, {color: getTextColor()}]}>
+                    {formatTime(message.timestamp)}
+                  </Text>
+                  {isUserMessage && (
+                    <Icon
+                      source={getStatusIcon()}
+                      size={12}
+                      color={getStatusColor()}
+                    />
+                  )}
+                </View>
+                
+                {message.metadata && (
+                  <View style={styles.metadata}>
+                    {message.metadata.model && (
+                      <Text style={[styles.metadataText, {color: getTextColor()}]}>
+                        {message.metadata.model}
+                      </Text>
+                    )}
+                    {message.metadata.tokens && (
+                      <Text style={[styles.metadataText, {color: getTextColor()}]}>
+                        {message.metadata.tokens} tokens
+                      </Text>
+                    )}
+                    {!!message.metadata.processingTime && (
+                      <Text style={[styles.metadataText, {color: getTextColor()}]}>
+                        {(message.metadata.processingTime / 1000).toFixed(1)}s
+                      </Text>
+                    )}
+                    {message.metadata.stopped && (
+                      <Text style={[styles.metadataText, {color: getTextColor()}]}>
+                        Stopped
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </View>
+            </Card.Content>
+          </Card>
+        </TouchableOpacity>
+
+        {isFailed && (
+          <Text style={styles.failedText}>Not sent. Tap to retry or delete</Text>
+        )}
+
+        {isAIMessage && !streaming && (variantCount > 1 || onRegenerate) && (
+          <View style={styles.aiActions}>
+            {variantCount > 1 && (
+              <>
+                <IconButton
+                  icon="chevron-left"
+                  size={16}
+                  disabled={!onSelectVariant || selectedVariant === 0}
+                  onPress={() => onSelectVariant?.(selectedVariant - 1)}
+                  style={styles.aiActionButton}
+                />
+                <Text style={styles.variantText}>
+                  {selectedVariant + 1} / {variantCount}
+                </Text>
+                <IconButton
+                  icon="chevron-right"
+                  size={16}
+                  disabled={!onSelectVariant || selectedVariant === variantCount - 1}
+                  onPress={() => onSelectVariant?.(selectedVariant + 1)}
+                  style={styles.aiActionButton}
+                />
+              </>
+            )}
+            {onRegenerate && (
+              <IconButton
+                icon="refresh"
+                size={16}
+                onPress={onRegenerate}
+                style={styles.aiActionButton}
+              />
+            )}
+          </View>
+        )}
+
+        {isUserMessage && showSeen && (
+          <Text style={styles.seenText}>Seen</Text>
+        )}
       </View>
       
       {isUserMessage && (
@@ -127,6 +343,11 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({message, currentUserId}) =
           style={styles.userAvatar}
         />
       )}
+
+      <AttachmentViewer
+        attachment={viewerAttachment}
+        onDismiss={() => setViewerAttachment(null)}
+      />
     </View>
   );
 };
@@ -179,6 +400,40 @@ const styles = StyleSheet.create({
   systemBubble: {
     backgroundColor: theme.colors.secondary,
   },
+  failedBubble: {
+    opacity: 0.7,
+  },
+  failedText: {
+    fontSize: 11,
+    color: theme.colors.error,
+    alignSelf: 'flex-end',
+    marginTop: theme.spacing.xs,
+    marginRight: theme.spacing.sm,
+  },
+  streamingCursor: {
+    opacity: 0.6,
+  },
+  aiActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: theme.spacing.xs,
+  },
+  aiActionButton: {
+    margin: 0,
+  },
+  variantText: {
+    fontSize: 11,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
+  seenText: {
+    fontSize: 11,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    alignSelf: 'flex-end',
+    marginTop: theme.spacing.xs,
+    marginRight: theme.spacing.sm,
+  },
   bubbleContent: {
     paddingVertical: theme.spacing.sm,
     paddingHorizontal: theme.spacing.md,
@@ -187,15 +442,50 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 22,
   },
+  attachments: {
+    marginBottom: theme.spacing.xs,
+  },
+  attachmentImage: {
+    maxWidth: '100%',
+    maxHeight: 320,
+    borderRadius: 12,
+    marginBottom: theme.spacing.xs,
+  },
+  attachmentFile: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xs,
+  },
+  attachmentFileInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+  attachmentFileName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  attachmentFileSize: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  uploadProgress: {
+    marginTop: theme.spacing.xs,
+    borderRadius: 2,
+  },
   messageFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'flex-end',
     marginTop: theme.spacing.xs,
   },
+  footerStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   timestamp: {
     fontSize: 11,
     opacity: 0.7,
+    marginRight: theme.spacing.xs,
   },
   metadata: {
     alignItems: 'flex-end',
@@ -225,6 +515,9 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     marginTop: theme.spacing.xs,
   },
+  systemDismiss: {
+    margin: 0,
+  },
 });
 
 export default MessageBubble;
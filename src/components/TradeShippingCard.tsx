@@ -0,0 +1,200 @@
+/**
+ * Trade Shipping Card Component
+ * Shipment progress for each party of an accepted trade, with the forms to
+ * add tracking and to confirm receipt
+ */
+
+import React, {useState} from 'react';
+import {View, StyleSheet, Image} from 'react-native';
+import {Text, TextInput, Button, Card, IconButton} from 'react-native-paper';
+import {launchImageLibrary} from 'react-native-image-picker';
+
+import {getTradeSenders} from '../services/tradeStateMachine';
+import {Trade, TradeShipment} from '../types';
+import {theme} from '../utils/theme';
+
+interface TradeShippingCardProps {
+  trade: Trade;
+  userId: string;
+  getName: (uid: string) => string;
+  canShip: boolean;
+  canConfirm: boolean;
+  submitting: boolean;
+  // Photo URIs are local; the screen uploads them
+  onShip: (shipment: {carrier: string; trackingNumber: string; photoUri?: string}) => void;
+  onConfirmReceived: (photoUri?: string) => void;
+}
+
+const TradeShippingCard: React.FC<TradeShippingCardProps> = ({
+  trade,
+  userId,
+  getName,
+  canShip,
+  canConfirm,
+  submitting,
+  onShip,
+  onConfirmReceived,
+}) => {
+  const ownShipment = trade.shipments ? trade.shipments[userId] : undefined;
+  const [carrier, setCarrier] = useState(ownShipment ? ownShipment.carrier : '');
+  const [trackingNumber, setTrackingNumber] = useState(
+    ownShipment ? ownShipment.trackingNumber : ''
+  );
+  const [shipPhotoUri, setShipPhotoUri] = useState<string | undefined>();
+  const [receiptPhotoUri, setReceiptPhotoUri] = useState<string | undefined>();
+
+  const pickPhoto = (onPicked: (uri: string) => void) => {
+    launchImageLibrary({mediaType: 'photo', quality: 0.8, selectionLimit: 1}, response => {
+      const uri = response.assets && response.assets[0] ? response.assets[0].uri : undefined;
+      if (uri) {
+        onPicked(uri);
+      }
+    });
+  };
+
+  const describeShipment = (shipment?: TradeShipment) => {
+    if (!shipment) return 'Not shipped yet';
+
+    const shippedOn = shipment.shippedAt.toLocaleDateString();
+    const shipped = `Shipped ${shippedOn} via ${shipment.carrier} · ${shipment.trackingNumber}`;
+    return shipment.receivedAt
+      ? `${shipped}\nReceived ${shipment.receivedAt.toLocaleDateString()}`
+      : shipped;
+  };
+
+  const renderPhotoPicker = (uri: string | undefined, onChange: (uri?: string) => void) => (
+    <View style={styles.photoRow}>
+      {uri ? (
+        <>
+          <Image source={{uri}} style={styles.photo} />
+          <IconButton icon="close" size={18} onPress={() => onChange(undefined)} />
+        </>
+      ) : (
+        <Button icon="camera" mode="text" onPress={() => pickPhoto(onChange)} compact>
+          Add Photo
+        </Button>
+      )}
+    </View>
+  );
+
+  const renderSender = (senderId: string) => {
+    const shipment = trade.shipments ? trade.shipments[senderId] : undefined;
+    const isMine = senderId === userId;
+    const photos = shipment
+      ? [shipment.shippedPhotoURL, shipment.receivedPhotoURL].filter(
+          (photoURL): photoURL is string => !!photoURL
+        )
+      : [];
+
+    return (
+      <View key={senderId} style={styles.sender}>
+        <Text style={styles.senderTitle}>
+          {isMine ? 'Your shipment' : `${getName(senderId)}'s shipment`}
+        </Text>
+        <Text style={styles.statusText}>{describeShipment(shipment)}</Text>
+        {photos.length > 0 && (
+          <View style={styles.photoRow}>
+            {photos.map(photoURL => (
+              <Image key={photoURL} source={{uri: photoURL}} style={styles.photo} />
+            ))}
+          </View>
+        )}
+
+        {isMine && canShip && (
+          <>
+            <TextInput
+              label="Carrier"
+              value={carrier}
+              onChangeText={setCarrier}
+              mode="outlined"
+              style={styles.input}
+            />
+            <TextInput
+              label="Tracking Number"
+              value={trackingNumber}
+              onChangeText={setTrackingNumber}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+            />
+            {renderPhotoPicker(shipPhotoUri, setShipPhotoUri)}
+            <Button
+              mode="contained"
+              onPress={() => onShip({carrier, trackingNumber, photoUri: shipPhotoUri})}
+              loading={submitting}
+              disabled={!carrier.trim() || !trackingNumber.trim() || submitting}>
+              {shipment ? 'Update Tracking' : 'Mark Shipped'}
+            </Button>
+          </>
+        )}
+
+        {!isMine && canConfirm && shipment && !shipment.receivedAt && (
+          <>
+            {renderPhotoPicker(receiptPhotoUri, setReceiptPhotoUri)}
+            <Button
+              mode="contained"
+              onPress={() => onConfirmReceived(receiptPhotoUri)}
+              loading={submitting}
+              disabled={submitting}>
+              Confirm Received
+            </Button>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.sectionTitle}>Shipping</Text>
+        {getTradeSenders(trade).map(renderSender)}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    margin: theme.spacing.md,
+    marginBottom: 0,
+    backgroundColor: theme.colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  sender: {
+    marginBottom: theme.spacing.md,
+  },
+  senderTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+  },
+  statusText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    marginVertical: theme.spacing.xs,
+  },
+  input: {
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    marginRight: theme.spacing.sm,
+  },
+});
+
+export default TradeShippingCard;
@@ -0,0 +1,84 @@
+/**
+ * User Picker Component
+ * Checkbox list for choosing users, e.g. members of a group conversation
+ */
+
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import {Text, List, Avatar, Checkbox} from 'react-native-paper';
+import {User} from '../types';
+import {theme} from '../utils/theme';
+
+interface UserPickerProps {
+  users: User[];
+  selectedIds: string[];
+  onToggle: (uid: string) => void;
+  emptyText?: string;
+  disabled?: boolean;
+}
+
+const UserPicker: React.FC<UserPickerProps> = ({
+  users,
+  selectedIds,
+  onToggle,
+  emptyText = 'No users to choose from',
+  disabled = false,
+}) => {
+  if (users.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {users.map(candidate => (
+        <List.Item
+          key={candidate.uid}
+          title={candidate.displayName || 'Unknown User'}
+          titleStyle={styles.name}
+          left={() =>
+            candidate.photoURL ? (
+              <Avatar.Image size={40} source={{uri: candidate.photoURL}} style={styles.avatar} />
+            ) : (
+              <Avatar.Icon size={40} icon="account" style={styles.avatar} />
+            )
+          }
+          right={() => (
+            <Checkbox.Android
+              status={selectedIds.includes(candidate.uid) ? 'checked' : 'unchecked'}
+              color={theme.colors.primary}
+              disabled={disabled}
+            />
+          )}
+          onPress={() => onToggle(candidate.uid)}
+          disabled={disabled}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  avatar: {
+    backgroundColor: theme.colors.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  name: {
+    color: theme.colors.onSurface,
+  },
+  emptyContainer: {
+    padding: theme.spacing.lg,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+});
+
+export default UserPicker;
@@ -4,7 +4,9 @@
  */
 
 import React, {createContext, useContext, useEffect, useState, ReactNode} from 'react';
-import {FirebaseAuthTypes} from '@react-native-firebase/auth';
+import {AppState} from 'react-native';
+import {BackendUser} from '../services/backend';
+import {PRESENCE_HEARTBEAT_MS} from '../services/repository';
 import {useFirebase} from './FirebaseContext';
 
 interface User {
@@ -35,10 +37,10 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({children}) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const {auth} = useFirebase();
+  const {auth, repository} = useFirebase();
 
   useEffect(() => {
-    const unsubscribe = auth.onAuthStateChanged(async (firebaseUser: FirebaseAuthTypes.User | null) => {
+    const unsubscribe = auth.onAuthStateChanged(async (firebaseUser: BackendUser | null) => {
       if (firebaseUser) {
         // Get custom claims for user roles
         const idTokenResult = await firebaseUser.getIdTokenResult();
@@ -62,6 +64,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({children}) => {
     return unsubscribe;
   }, [auth]);
 
+  // Publish presence while the app is in the foreground
+  useEffect(() => {
+    if (!user) return;
+
+    const uid = user.uid;
+    const publishPresence = (online: boolean) => {
+      repository.presence.setOnline(uid, online).catch(error => {
+        console.error('Error updating presence:', error);
+      });
+    };
+
+    publishPresence(AppState.currentState === 'active');
+
+    const heartbeat = setInterval(() => {
+      if (AppState.currentState === 'active') {
+        publishPresence(true);
+      }
+    }, PRESENCE_HEARTBEAT_MS);
+
+    const subscription = AppState.addEventListener('change', state => {
+      publishPresence(state === 'active');
+    });
+
+    return () => {
+      clearInterval(heartbeat);
+      subscription.remove();
+    };
+  }, [user?.uid, repository]);
+
   const signIn = async (email: string, password: string): Promise<void> => {
     try {
       await auth.signInWithEmailAndPassword(email, password);
@@ -86,6 +117,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({children}) => {
 
   const signOut = async (): Promise<void> => {
     try {
+      // Written before signing out, while the user can still update their presence
+      if (user) {
+        await repository.presence.setOnline(user.uid, false).catch(error => {
+          console.error('Error updating presence:', error);
+        });
+      }
       await auth.signOut();
     } catch (error) {
       throw error;
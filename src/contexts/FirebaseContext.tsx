@@ -1,35 +1,93 @@
 /**
  * Firebase Context Provider
- * Provides Firebase services throughout the app
+ * Provides backend services throughout the app
  */
 
-import React, {createContext, useContext, ReactNode} from 'react';
-import firebase from '../services/firebase';
+import React, {createContext, useContext, useEffect, useMemo, ReactNode} from 'react';
+import {
+  Backend,
+  BackendAuth,
+  BackendFunctions,
+  BackendStorage,
+  DocumentStore,
+} from '../services/backend';
+import {collections, createCloudFunctions, CloudFunctions} from '../services/firebase';
+import {createAIClient, AIClient} from '../services/ai';
+import {createOfflineActionHandlers} from '../services/offlineActions';
+import {createPaymentsClient, PaymentsClient} from '../services/payments';
+import {
+  createHelpers,
+  createRepository,
+  FirebaseHelpers,
+  Repository,
+} from '../services/repository';
+import NetworkManager from '../utils/network';
+import MessageOutbox from '../utils/outbox';
 
 interface FirebaseContextType {
-  auth: typeof firebase.auth;
-  firestore: typeof firebase.firestore;
-  functions: typeof firebase.functions;
-  storage: typeof firebase.storage;
-  collections: typeof firebase.collections;
-  cloudFunctions: typeof firebase.cloudFunctions;
+  backend: Backend;
+  auth: BackendAuth;
+  firestore: DocumentStore;
+  functions: BackendFunctions;
+  storage: BackendStorage;
+  collections: typeof collections;
+  cloudFunctions: CloudFunctions;
+  ai: AIClient;
+  payments: PaymentsClient;
+  helpers: FirebaseHelpers;
+  repository: Repository;
 }
 
 const FirebaseContext = createContext<FirebaseContextType | undefined>(undefined);
 
 interface FirebaseProviderProps {
+  // Firebase in the app, the in-memory adapter in tests and offline demos
+  backend: Backend;
   children: ReactNode;
 }
 
-export const FirebaseProvider: React.FC<FirebaseProviderProps> = ({children}) => {
-  const value: FirebaseContextType = {
-    auth: firebase.auth,
-    firestore: firebase.firestore,
-    functions: firebase.functions,
-    storage: firebase.storage,
-    collections: firebase.collections,
-    cloudFunctions: firebase.cloudFunctions,
-  };
+export const FirebaseProvider: React.FC<FirebaseProviderProps> = ({backend, children}) => {
+  const value: FirebaseContextType = useMemo(() => {
+    const helpers = createHelpers(backend);
+    const cloudFunctions = createCloudFunctions(backend.functions);
+    const repository = createRepository(backend.firestore, helpers);
+
+    return {
+      backend,
+      auth: backend.auth,
+      firestore: backend.firestore,
+      functions: backend.functions,
+      storage: backend.storage,
+      collections,
+      cloudFunctions,
+      ai: createAIClient(cloudFunctions),
+      payments: createPaymentsClient(cloudFunctions),
+      helpers,
+      repository,
+    };
+  }, [backend]);
+
+  // Queued offline actions and outgoing messages are replayed against this provider's backend
+  useEffect(() => {
+    NetworkManager.setOfflineActionHandlers(createOfflineActionHandlers(value.repository));
+    MessageOutbox.setSender(async ({message, recipientIds, id}, onProgress) => {
+      const attachments = message.attachments?.length
+        ? await value.repository.messages.uploadAttachments(
+            message.conversationId,
+            id,
+            message.attachments,
+            onProgress
+          )
+        : undefined;
+
+      await value.repository.messages.send({...message, attachments}, recipientIds, id);
+    });
+
+    return () => {
+      NetworkManager.setOfflineActionHandlers(null);
+      MessageOutbox.setSender(null);
+    };
+  }, [value]);
 
   return (
     <FirebaseContext.Provider value={value}>
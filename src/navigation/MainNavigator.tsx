@@ -11,10 +11,17 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import FeedScreen from '../screens/main/FeedScreen';
 import ChatScreen from '../screens/main/ChatScreen';
 import ChatListScreen from '../screens/main/ChatListScreen';
+import NewGroupScreen from '../screens/main/NewGroupScreen';
+import GroupInfoScreen from '../screens/main/GroupInfoScreen';
 import MarketplaceScreen from '../screens/main/MarketplaceScreen';
 import ProfileScreen from '../screens/main/ProfileScreen';
 import SettingsScreen from '../screens/main/SettingsScreen';
+import AIUsageScreen from '../screens/main/AIUsageScreen';
 import ItemDetailsScreen from '../screens/main/ItemDetailsScreen';
+import SavedSearchesScreen from '../screens/main/SavedSearchesScreen';
+import TradeScreen from '../screens/main/TradeScreen';
+import TradesScreen from '../screens/main/TradesScreen';
+import CheckoutScreen from '../screens/main/CheckoutScreen';
 import CreateListingScreen from '../screens/main/CreateListingScreen';
 import CreatePostScreen from '../screens/main/CreatePostScreen';
 import {MainTabParamList, RootStackParamList} from '../types';
@@ -58,6 +65,34 @@ const ChatStack = () => (
         headerTintColor: theme.colors.onSurface,
       }}
     />
+    {/* Opened from the listing card of a buyer-seller thread */}
+    <Stack.Screen 
+      name="ItemDetails" 
+      component={ItemDetailsScreen}
+      options={{
+        title: 'Item Details',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
+    <Stack.Screen 
+      name="NewGroup" 
+      component={NewGroupScreen}
+      options={{
+        title: 'New Group',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
+    <Stack.Screen 
+      name="GroupInfo" 
+      component={GroupInfoScreen}
+      options={{
+        title: 'Group Info',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
   </Stack.Navigator>
 );
 
@@ -77,6 +112,16 @@ const MarketplaceStack = () => (
         headerTintColor: theme.colors.onSurface,
       }}
     />
+    {/* Contacting a seller keeps the buyer in the marketplace tab */}
+    <Stack.Screen 
+      name="Chat" 
+      component={ChatScreen}
+      options={{
+        title: 'Chat',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
     <Stack.Screen 
       name="CreateListing" 
       component={CreateListingScreen}
@@ -86,6 +131,42 @@ const MarketplaceStack = () => (
         headerTintColor: theme.colors.onSurface,
       }}
     />
+    <Stack.Screen 
+      name="SavedSearches" 
+      component={SavedSearchesScreen}
+      options={{
+        title: 'Saved Searches',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
+    <Stack.Screen 
+      name="Trades" 
+      component={TradesScreen}
+      options={{
+        title: 'Trades',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
+    <Stack.Screen 
+      name="Trade" 
+      component={TradeScreen}
+      options={{
+        title: 'Trade',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
+    <Stack.Screen 
+      name="Checkout" 
+      component={CheckoutScreen}
+      options={{
+        title: 'Checkout',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
   </Stack.Navigator>
 );
 
@@ -105,6 +186,15 @@ const ProfileStack = () => (
         headerTintColor: theme.colors.onSurface,
       }}
     />
+    <Stack.Screen 
+      name="AIUsage" 
+      component={AIUsageScreen}
+      options={{
+        title: 'AI Usage',
+        headerStyle: {backgroundColor: theme.colors.surface},
+        headerTintColor: theme.colors.onSurface,
+      }}
+    />
   </Stack.Navigator>
 );
 
@@ -0,0 +1,240 @@
+/**
+ * AI Usage Screen
+ * Shows the user's assistant usage for today and this month against the
+ * limits of their tier, broken down by model and day
+ */
+
+import React, {useState, useCallback} from 'react';
+import {View, StyleSheet, ScrollView, RefreshControl} from 'react-native';
+import {Text, Card, Appbar, List, ProgressBar, ActivityIndicator} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation, useFocusEffect} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import {AI_MODELS, getAIQuota, getQuotaExceededReason} from '../../services/ai';
+import {AIUsage, AIUsagePeriod, RootStackParamList} from '../../types';
+import {theme} from '../../utils/theme';
+
+type AIUsageScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AIUsage'>;
+
+const getModelLabel = (model: string) => {
+  const option = AI_MODELS.find(candidate => candidate.id === model);
+  return option ? option.label : model;
+};
+
+const AIUsageScreen: React.FC = () => {
+  const [usage, setUsage] = useState<AIUsage | null>(null);
+  const [history, setHistory] = useState<AIUsagePeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const navigation = useNavigation<AIUsageScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository} = useFirebase();
+
+  const quota = getAIQuota(user?.customClaims);
+
+  const loadUsage = async () => {
+    if (!user) return;
+
+    try {
+      const [currentUsage, days] = await Promise.all([
+        repository.aiUsage.get(user.uid),
+        repository.aiUsage.listDays(user.uid),
+      ]);
+      setUsage(currentUsage);
+      setHistory(days);
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadUsage();
+    }, [user])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadUsage();
+  };
+
+  const renderMeter = (label: string, used: number, limit: number | null) => (
+    <View style={styles.meter}>
+      <View style={styles.meterHeader}>
+        <Text style={styles.meterLabel}>{label}</Text>
+        <Text style={styles.meterValue}>
+          {used.toLocaleString()} / {limit === null ? 'Unlimited' : limit.toLocaleString()}
+        </Text>
+      </View>
+      {limit !== null && (
+        <ProgressBar
+          progress={Math.min(1, used / limit)}
+          color={used >= limit ? theme.colors.error : theme.colors.primary}
+          style={styles.progressBar}
+        />
+      )}
+    </View>
+  );
+
+  const exceededReason = usage ? getQuotaExceededReason(usage, quota) : null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Appbar.Header style={styles.header}>
+        <Appbar.BackAction onPress={() => navigation.goBack()} />
+        <Appbar.Content title="AI Usage" />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}>
+          {/* Limits */}
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text style={styles.sectionTitle}>{quota.label} Plan</Text>
+              {exceededReason && <Text style={styles.exceededText}>{exceededReason}</Text>}
+              {renderMeter('Requests today', usage ? usage.day.requests : 0, quota.dailyRequests)}
+              {renderMeter('Tokens today', usage ? usage.day.tokens : 0, quota.dailyTokens)}
+              {renderMeter('Tokens this month', usage ? usage.month.tokens : 0, quota.monthlyTokens)}
+              <Text style={styles.helperText}>
+                Daily limits reset at midnight UTC, monthly limits on the 1st.
+              </Text>
+            </Card.Content>
+          </Card>
+
+          {/* By Model */}
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text style={styles.sectionTitle}>This Month by Model</Text>
+              {!usage || usage.month.models.length === 0 ? (
+                <Text style={styles.emptyText}>You haven't used the assistant this month</Text>
+              ) : (
+                usage.month.models.map(modelUsage => (
+                  <List.Item
+                    key={modelUsage.model}
+                    title={getModelLabel(modelUsage.model)}
+                    titleStyle={styles.itemTitle}
+                    description={`${modelUsage.requests} requests`}
+                    right={() => (
+                      <Text style={styles.itemValue}>
+                        {modelUsage.tokens.toLocaleString()} tokens
+                      </Text>
+                    )}
+                  />
+                ))
+              )}
+            </Card.Content>
+          </Card>
+
+          {/* Recent Days */}
+          {history.length > 0 && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.sectionTitle}>Recent Days</Text>
+                {history.map(day => (
+                  <List.Item
+                    key={day.key}
+                    title={day.key}
+                    titleStyle={styles.itemTitle}
+                    description={`${day.requests} requests`}
+                    right={() => (
+                      <Text style={styles.itemValue}>{day.tokens.toLocaleString()} tokens</Text>
+                    )}
+                  />
+                ))}
+              </Card.Content>
+            </Card>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    backgroundColor: theme.colors.surface,
+    elevation: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    margin: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  exceededText: {
+    fontSize: 14,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+  },
+  meter: {
+    marginBottom: theme.spacing.md,
+  },
+  meterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.xs,
+  },
+  meterLabel: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+  },
+  meterValue: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  helperText: {
+    fontSize: 12,
+    color: theme.colors.onSurface,
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
+  itemTitle: {
+    color: theme.colors.onSurface,
+  },
+  itemValue: {
+    alignSelf: 'center',
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
+});
+
+export default AIUsageScreen;
@@ -3,12 +3,11 @@
  * Shows list of conversations and allows creating new chats
  */
 
-import React, {useState, useEffect, useCallback} from 'react';
+import React, {useState, useEffect, useMemo} from 'react';
 import {
   View,
   StyleSheet,
   FlatList,
-  RefreshControl,
   Alert,
 } from 'react-native';
 import {
@@ -17,121 +16,161 @@ import {
   Searchbar,
   List,
   Avatar,
+  Badge,
   IconButton,
   Appbar,
+  ActivityIndicator,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
-import {useNavigation, useFocusEffect} from '@react-navigation/native';
+import {useNavigation} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 
 import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
-import {Conversation, RootStackParamList} from '../../types';
+import {DEFAULT_AI_MODEL} from '../../services/ai';
+import {Conversation, ConversationListing, RootStackParamList, UserPresence} from '../../types';
 import {theme} from '../../utils/theme';
 
 type ChatListScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+type ChatListEntry =
+  | {type: 'conversation'; conversation: Conversation; nested: boolean}
+  | {type: 'listing'; listing: ConversationListing; conversations: Conversation[]};
+
 const ChatListScreen: React.FC = () => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
+  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [presenceByUid, setPresenceByUid] = useState<{[uid: string]: UserPresence}>({});
+  const [expandedListingIds, setExpandedListingIds] = useState<string[]>([]);
 
   const navigation = useNavigation<ChatListScreenNavigationProp>();
   const {user} = useAuth();
-  const {firestore, collections} = useFirebase();
+  const {repository} = useFirebase();
 
-  const loadConversations = async (showRefreshing = false) => {
+  // Conversations carry their own summary, so one listener keeps the list current
+  useEffect(() => {
     if (!user) return;
 
-    if (showRefreshing) {
-      setRefreshing(true);
-    } else {
-      setLoading(true);
+    return repository.conversations.subscribeForUser(
+      user.uid,
+      loadedConversations => {
+        setConversations(loadedConversations);
+        setLoading(false);
+      },
+      error => {
+        console.error('Error loading conversations:', error);
+        Alert.alert('Error', 'Failed to load conversations');
+        setLoading(false);
+      }
+    );
+  }, [user]);
+
+  // Presence is only shown for one-to-one conversations
+  const getDirectParticipantId = (conversation: Conversation) => {
+    if (
+      conversation.isAIConversation ||
+      conversation.isGroup ||
+      conversation.participants.length !== 2
+    ) {
+      return undefined;
     }
+    return conversation.participants.find(participantId => participantId !== user?.uid);
+  };
 
-    try {
-      const conversationsSnapshot = await firestore
-        .collection(collections.conversations)
-        .where('participants', 'array-contains', user.uid)
-        .orderBy('lastActivity', 'desc')
-        .limit(50)
-        .get();
-
-      const loadedConversations: Conversation[] = [];
-
-      for (const doc of conversationsSnapshot.docs) {
-        const conversationData = doc.data();
-        
-        // Get the last message for each conversation
-        const lastMessageSnapshot = await firestore
-          .collection(collections.messages)
-          .where('conversationId', '==', doc.id)
-          .orderBy('timestamp', 'desc')
-          .limit(1)
-          .get();
-
-        let lastMessage = undefined;
-        if (!lastMessageSnapshot.empty) {
-          const lastMessageDoc = lastMessageSnapshot.docs[0];
-          lastMessage = {
-            id: lastMessageDoc.id,
-            ...lastMessageDoc.data(),
-            timestamp: lastMessageDoc.data().timestamp.toDate(),
-          } as any;
-        }
+  const presenceUids = useMemo(() => {
+    const uids = conversations
+      .map(getDirectParticipantId)
+      .filter((uid): uid is string => Boolean(uid));
+    return Array.from(new Set(uids)).sort();
+  }, [conversations, user]);
 
-        const conversation: Conversation = {
-          id: doc.id,
-          title: conversationData.title,
-          participants: conversationData.participants,
-          lastMessage: lastMessage,
-          lastActivity: conversationData.lastActivity.toDate(),
-          createdAt: conversationData.createdAt.toDate(),
-          isAIConversation: conversationData.isAIConversation || false,
-          metadata: conversationData.metadata,
-        };
-
-        loadedConversations.push(conversation);
-      }
+  useEffect(() => {
+    if (presenceUids.length === 0) return;
 
-      setConversations(loadedConversations);
-      setFilteredConversations(loadedConversations);
-    } catch (error) {
-      console.error('Error loading conversations:', error);
-      Alert.alert('Error', 'Failed to load conversations');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+    return repository.presence.subscribe(
+      presenceUids,
+      setPresenceByUid,
+      error => console.error('Error subscribing to presence:', error)
+    );
+  }, [presenceUids.join(',')]);
+
+  const getConversationTitle = (conversation: Conversation) => {
+    if (conversation.title) {
+      return conversation.title;
     }
+
+    const participantId = getDirectParticipantId(conversation);
+    return (
+      (participantId && conversation.participantInfo[participantId]?.displayName) ||
+      'Unknown User'
+    );
   };
 
-  // Load conversations when screen comes into focus
-  useFocusEffect(
-    useCallback(() => {
-      loadConversations();
-    }, [user])
-  );
+  const filteredConversations = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) {
+      return conversations;
+    }
 
-  const onRefresh = () => {
-    loadConversations(true);
+    return conversations.filter(conversation =>
+      getConversationTitle(conversation).toLowerCase().includes(query) ||
+      conversation.lastMessage?.content.toLowerCase().includes(query) ||
+      conversation.listing?.title.toLowerCase().includes(query)
+    );
+  }, [conversations, searchQuery, user]);
+
+  // Inquiries about this user's own listings are grouped under the listing,
+  // placed where its most recent inquiry would be
+  const listEntries = useMemo(() => {
+    const entries: ChatListEntry[] = [];
+    const inquiriesByListing: {[listingId: string]: Conversation[]} = {};
+
+    filteredConversations.forEach(conversation => {
+      const {listing} = conversation;
+      if (!listing || listing.sellerId !== user?.uid) {
+        entries.push({type: 'conversation', conversation, nested: false});
+        return;
+      }
+
+      if (!inquiriesByListing[listing.id]) {
+        inquiriesByListing[listing.id] = [];
+        entries.push({type: 'listing', listing, conversations: inquiriesByListing[listing.id]});
+      }
+      inquiriesByListing[listing.id].push(conversation);
+    });
+
+    const expandedEntries: ChatListEntry[] = [];
+    entries.forEach(entry => {
+      expandedEntries.push(entry);
+      if (entry.type === 'listing' && expandedListingIds.includes(entry.listing.id)) {
+        entry.conversations.forEach(conversation =>
+          expandedEntries.push({type: 'conversation', conversation, nested: true})
+        );
+      }
+    });
+    return expandedEntries;
+  }, [filteredConversations, expandedListingIds, user]);
+
+  const toggleListing = (listingId: string) => {
+    setExpandedListingIds(prev =>
+      prev.includes(listingId) ? prev.filter(id => id !== listingId) : [...prev, listingId]
+    );
   };
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    
-    if (!query.trim()) {
-      setFilteredConversations(conversations);
-      return;
+  const getLastMessagePreview = (conversation: Conversation) => {
+    const {lastMessage} = conversation;
+    if (!lastMessage) {
+      return 'No messages yet';
     }
 
-    const filtered = conversations.filter(conversation =>
-      conversation.title.toLowerCase().includes(query.toLowerCase()) ||
-      conversation.lastMessage?.content.toLowerCase().includes(query.toLowerCase())
-    );
-    
-    setFilteredConversations(filtered);
+    // Membership changes in groups read as plain notices
+    if (lastMessage.type === 'system') {
+      return truncateMessage(lastMessage.content);
+    }
+
+    const sender = lastMessage.senderId === user?.uid ? 'You' : lastMessage.senderName;
+    return truncateMessage(`${sender}: ${lastMessage.content}`);
   };
 
   const formatLastActivity = (date: Date) => {
@@ -154,14 +193,74 @@ const ChatListScreen: React.FC = () => {
     return message.substring(0, maxLength) + '...';
   };
 
-  const navigateToChat = (conversationId?: string) => {
-    navigation.navigate('Chat', {conversationId});
+  const navigateToChat = (conversation?: Conversation) => {
+    navigation.navigate('Chat', {
+      conversationId: conversation?.id,
+      userId: conversation ? getDirectParticipantId(conversation) : undefined,
+    });
+  };
+
+  const startAIConversation = async () => {
+    if (!user) return;
+
+    try {
+      const conversationId = await repository.conversations.createAI(user.uid, {
+        model: DEFAULT_AI_MODEL,
+      });
+      navigation.navigate('Chat', {conversationId});
+    } catch (error) {
+      console.error('Error creating AI conversation:', error);
+      Alert.alert('Error', 'Failed to start a conversation with the assistant');
+    }
   };
 
   const createNewChat = () => {
     navigateToChat(); // Navigate without conversationId to create new chat
   };
 
+  const leaveGroup = (conversationId: string) => {
+    if (!user) return;
+
+    Alert.alert('Leave Group', 'You will stop receiving messages from this group.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await repository.conversations.leave(conversationId, user.uid);
+          } catch (error) {
+            console.error('Error leaving group:', error);
+            Alert.alert('Error', 'Failed to leave group');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderAvatar = (conversation: Conversation) => {
+    if (conversation.isAIConversation) {
+      return <Avatar.Icon size={48} icon="robot" style={[styles.avatar, styles.aiAvatar]} />;
+    }
+
+    const participantId = getDirectParticipantId(conversation);
+    const photoURL = conversation.isGroup
+      ? conversation.avatarURL
+      : participantId && conversation.participantInfo[participantId]?.photoURL;
+
+    if (photoURL) {
+      return <Avatar.Image size={48} source={{uri: photoURL}} style={styles.avatar} />;
+    }
+
+    return (
+      <Avatar.Icon
+        size={48}
+        icon={conversation.isGroup ? 'account-group' : 'account'}
+        style={[styles.avatar, styles.groupAvatar]}
+      />
+    );
+  };
+
   const deleteConversation = async (conversationId: string) => {
     Alert.alert(
       'Delete Conversation',
@@ -173,27 +272,7 @@ const ChatListScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              // Delete all messages in the conversation
-              const messagesSnapshot = await firestore
-                .collection(collections.messages)
-                .where('conversationId', '==', conversationId)
-                .get();
-
-              const batch = firestore.batch();
-              messagesSnapshot.docs.forEach(doc => {
-                batch.delete(doc.ref);
-              });
-
-              // Delete the conversation
-              batch.delete(
-                firestore.collection(collections.conversations).doc(conversationId)
-              );
-
-              await batch.commit();
-
-              // Remove from local state
-              setConversations(prev => prev.filter(conv => conv.id !== conversationId));
-              setFilteredConversations(prev => prev.filter(conv => conv.id !== conversationId));
+              await repository.conversations.delete(conversationId);
             } catch (error) {
               console.error('Error deleting conversation:', error);
               Alert.alert('Error', 'Failed to delete conversation');
@@ -204,84 +283,142 @@ const ChatListScreen: React.FC = () => {
     );
   };
 
-  const renderConversation = ({item}: {item: Conversation}) => (
-    <List.Item
-      title={item.title}
-      description={
-        item.lastMessage
-          ? truncateMessage(item.lastMessage.content)
-          : 'No messages yet'
-      }
-      left={() => (
-        <Avatar.Icon
-          size={48}
-          icon={item.isAIConversation ? 'robot' : 'account-group'}
-          style={[
-            styles.avatar,
-            item.isAIConversation ? styles.aiAvatar : styles.groupAvatar,
-          ]}
-        />
-      )}
-      right={() => (
-        <View style={styles.rightContainer}>
-          <Text style={styles.timeText}>
-            {formatLastActivity(item.lastActivity)}
-          </Text>
-          <IconButton
-            icon="delete"
-            size={20}
-            iconColor={theme.colors.error}
-            onPress={() => deleteConversation(item.id)}
-          />
-        </View>
-      )}
-      onPress={() => navigateToChat(item.id)}
-      style={styles.conversationItem}
-    />
-  );
+  const renderListingGroup = (listing: ConversationListing, inquiries: Conversation[]) => {
+    const unreadCount = user
+      ? inquiries.reduce((total, conversation) => total + (conversation.unreadCount[user.uid] || 0), 0)
+      : 0;
+    const expanded = expandedListingIds.includes(listing.id);
+
+    return (
+      <List.Item
+        title={listing.title}
+        titleStyle={unreadCount > 0 && styles.unreadTitle}
+        description={`${inquiries.length} ${inquiries.length === 1 ? 'inquiry' : 'inquiries'}`}
+        left={() => (
+          <View style={styles.avatarContainer}>
+            {listing.imageURL ? (
+              <Avatar.Image size={48} source={{uri: listing.imageURL}} style={styles.avatar} />
+            ) : (
+              <Avatar.Icon size={48} icon="tag" style={[styles.avatar, styles.groupAvatar]} />
+            )}
+          </View>
+        )}
+        right={() => (
+          <View style={styles.rightContainer}>
+            {unreadCount > 0 && (
+              <Badge style={styles.unreadBadge}>{unreadCount}</Badge>
+            )}
+            <IconButton
+              icon={expanded ? 'chevron-up' : 'chevron-down'}
+              size={20}
+              onPress={() => toggleListing(listing.id)}
+            />
+          </View>
+        )}
+        onPress={() => toggleListing(listing.id)}
+        style={styles.conversationItem}
+      />
+    );
+  };
+
+  const renderConversation = (item: Conversation, nested: boolean) => {
+    const unreadCount = user ? item.unreadCount[user.uid] || 0 : 0;
+    const preview = getLastMessagePreview(item);
+    // Buyers see which listing a thread is about; grouped threads already show it
+    const description = item.listing && !nested ? `${item.listing.title} · ${preview}` : preview;
+
+    return (
+      <List.Item
+        title={getConversationTitle(item)}
+        titleStyle={unreadCount > 0 && styles.unreadTitle}
+        description={description}
+        left={() => {
+          const participantId = getDirectParticipantId(item);
+          return (
+            <View style={styles.avatarContainer}>
+              {renderAvatar(item)}
+              {participantId && presenceByUid[participantId]?.online && (
+                <View style={styles.onlineDot} />
+              )}
+            </View>
+          );
+        }}
+        right={() => (
+          <View style={styles.rightContainer}>
+            <Text style={styles.timeText}>
+              {formatLastActivity(item.lastMessageTime)}
+            </Text>
+            {unreadCount > 0 && (
+              <Badge style={styles.unreadBadge}>{unreadCount}</Badge>
+            )}
+            <IconButton
+              icon={item.isGroup ? 'exit-to-app' : 'delete'}
+              size={20}
+              iconColor={theme.colors.error}
+              onPress={() =>
+                item.isGroup ? leaveGroup(item.id) : deleteConversation(item.id)
+              }
+            />
+          </View>
+        )}
+        onPress={() => navigateToChat(item)}
+        style={[styles.conversationItem, nested && styles.nestedConversationItem]}
+      />
+    );
+  };
+
+  const renderEntry = ({item}: {item: ChatListEntry}) =>
+    item.type === 'listing'
+      ? renderListingGroup(item.listing, item.conversations)
+      : renderConversation(item.conversation, item.nested);
 
-  const keyExtractor = (item: Conversation) => item.id;
+  const keyExtractor = (item: ChatListEntry) =>
+    item.type === 'listing' ? `listing-${item.listing.id}` : item.conversation.id;
 
   return (
     <SafeAreaView style={styles.container}>
       <Appbar.Header style={styles.header}>
         <Appbar.Content title="Messages" />
-        <Appbar.Action icon="refresh" onPress={onRefresh} />
+        <Appbar.Action icon="robot" onPress={startAIConversation} />
+        <Appbar.Action
+          icon="account-multiple-plus"
+          onPress={() => navigation.navigate('NewGroup')}
+        />
       </Appbar.Header>
 
       <Searchbar
         placeholder="Search conversations..."
-        onChangeText={handleSearch}
+        onChangeText={setSearchQuery}
         value={searchQuery}
         style={styles.searchbar}
         inputStyle={styles.searchInput}
       />
 
       <FlatList
-        data={filteredConversations}
-        renderItem={renderConversation}
+        data={listEntries}
+        renderItem={renderEntry}
         keyExtractor={keyExtractor}
         style={styles.list}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            colors={[theme.colors.primary]}
-            tintColor={theme.colors.primary}
-          />
-        }
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Avatar.Icon
-              size={64}
-              icon="chat"
-              style={styles.emptyIcon}
+          loading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary}
+              style={styles.loadingIndicator}
             />
-            <Text style={styles.emptyTitle}>No conversations yet</Text>
-            <Text style={styles.emptySubtitle}>
-              Start a new chat with Gemini AI or create a group conversation
-            </Text>
-          </View>
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Avatar.Icon
+                size={64}
+                icon="chat"
+                style={styles.emptyIcon}
+              />
+              <Text style={styles.emptyTitle}>No conversations yet</Text>
+              <Text style={styles.emptySubtitle}>
+                Start a new chat with Gemini AI or create a group conversation
+              </Text>
+            </View>
+          )
         }
       />
 
@@ -321,9 +458,26 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     elevation: 1,
   },
+  nestedConversationItem: {
+    marginLeft: theme.spacing.xl,
+  },
+  avatarContainer: {
+    justifyContent: 'center',
+  },
   avatar: {
     marginLeft: theme.spacing.sm,
   },
+  onlineDot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 4,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: theme.colors.success,
+    borderWidth: 2,
+    borderColor: theme.colors.surface,
+  },
   aiAvatar: {
     backgroundColor: theme.colors.secondary,
   },
@@ -340,6 +494,16 @@ const styles = StyleSheet.create({
     color: theme.colors.onSurface,
     opacity: 0.6,
   },
+  unreadTitle: {
+    fontWeight: '700',
+  },
+  unreadBadge: {
+    backgroundColor: theme.colors.primary,
+    marginTop: theme.spacing.xs,
+  },
+  loadingIndicator: {
+    marginTop: theme.spacing.xxl,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
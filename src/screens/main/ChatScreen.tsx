@@ -1,9 +1,9 @@
 /**
  * Chat Screen - User-to-User Messaging
- * Direct messaging interface between platform users
+ * Direct, group and AI assistant conversations
  */
 
-import React, {useState, useEffect, useRef} from 'react';
+import React, {useState, useEffect, useMemo, useRef} from 'react';
 import {
   View,
   StyleSheet,
@@ -11,6 +11,9 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  TouchableOpacity,
+  ScrollView,
+  Image,
 } from 'react-native';
 import {
   TextInput,
@@ -19,65 +22,421 @@ import {
   Appbar,
   Avatar,
   ActivityIndicator,
+  Chip,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {
+  launchImageLibrary,
+  Asset,
+  ImageLibraryOptions,
+  PhotoQuality,
+} from 'react-native-image-picker';
 
 import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
 import MessageBubble from '../../components/MessageBubble';
-import {Message, User, RootStackParamList} from '../../types';
+import AISettingsSheet from '../../components/AISettingsSheet';
+import ListingContextCard from '../../components/ListingContextCard';
+import {TYPING_REFRESH_MS} from '../../services/repository';
+import {createIdempotencyKey} from '../../services/offlineActions';
+import {
+  AI_ASSISTANT_ID,
+  AI_ASSISTANT_NAME,
+  buildConversationContext,
+  isCancelledError,
+  isQuotaExceededError,
+} from '../../services/ai';
+import {
+  Conversation,
+  MarketplaceItem,
+  Message,
+  MessageAttachment,
+  MessageAttachmentKind,
+  MessageMetadata,
+  User,
+  UserPresence,
+  RootStackParamList,
+} from '../../types';
 import {theme} from '../../utils/theme';
 import NetworkManager from '../../utils/network';
+import MessageOutbox, {OutboxMessage} from '../../utils/outbox';
+import StorageManager from '../../utils/storage';
+import {PerformanceUtils} from '../../utils/performance';
 
 type ChatScreenRouteProp = RouteProp<RootStackParamList, 'Chat'>;
 type ChatScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Chat'>;
 
+// Typing is cleared after this long without input
+const TYPING_IDLE_MS = 3000;
+
+// The live listener covers the newest page; older pages are fetched on scroll-back
+const MESSAGE_PAGE_SIZE = 50;
+const MESSAGE_CACHE_LIMIT = 200;
+
+// Time range, in ms, that a fetch returned every message for; `to` is exclusive
+interface MessageRange {
+  from: number;
+  to: number;
+}
+
+// Merges by id so a message seen by both the live window and a fetched page, or
+// updated by a later snapshot, is only listed once. Known messages inside the
+// fetched range that the backend no longer returned were deleted, or are from
+// a group the user has left, and are dropped
+const mergeMessages = (
+  current: Message[],
+  incoming: Message[],
+  range?: MessageRange
+): Message[] => {
+  const kept = range
+    ? current.filter(message => {
+        const time = message.timestamp.getTime();
+        return time < range.from || time >= range.to;
+      })
+    : current;
+  const byId = new Map(kept.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+
+  return Array.from(byId.values()).sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+};
+
+// Photos are downscaled before upload; bubbles preview them at thumbnail width
+const MAX_ATTACHMENTS = 4;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+const IMAGE_MAX_DIMENSION = 1600;
+const THUMBNAIL_WIDTH = 220;
+
+const toAttachment = (asset: Asset, kind: MessageAttachmentKind): MessageAttachment => {
+  const attachment: MessageAttachment = {
+    id: createIdempotencyKey(),
+    kind,
+    url: asset.uri!,
+    name: asset.fileName || `${kind}_${Date.now()}`,
+  };
+
+  // Only known fields are set, the backend rejects undefined values
+  if (asset.type) attachment.mimeType = asset.type;
+  if (asset.fileSize) attachment.size = asset.fileSize;
+  if (asset.width && asset.height) {
+    attachment.width = asset.width;
+    attachment.height = asset.height;
+    if (kind === 'image') {
+      attachment.thumbnail = PerformanceUtils.optimizeImageSize(
+        asset.width,
+        asset.height,
+        THUMBNAIL_WIDTH
+      );
+    }
+  }
+
+  return attachment;
+};
+
+const getMessageType = (attachments: MessageAttachment[]): Message['type'] => {
+  if (attachments.length === 0) return 'text';
+  return attachments.every(attachment => attachment.kind === 'image') ? 'image' : 'file';
+};
+
+// Stands in for an AI reply until it has been saved
+const STREAMING_MESSAGE_ID = 'ai-streaming-reply';
+
+// Summaries are shown to this user only and never saved
+const SUMMARY_MESSAGE_PREFIX = 'local-summary-';
+// Summarized when there is nothing unread
+const RECENT_SUMMARY_MESSAGES = 30;
+
+interface StreamingReply {
+  // Set when regenerating an existing reply
+  messageId?: string;
+  content: string;
+}
+
+const formatLastSeen = (date: Date) => {
+  const diffInMinutes = (Date.now() - date.getTime()) / (1000 * 60);
+
+  if (diffInMinutes < 1) {
+    return 'just now';
+  } else if (diffInMinutes < 60) {
+    return `${Math.floor(diffInMinutes)}m ago`;
+  } else if (diffInMinutes < 24 * 60) {
+    return `${Math.floor(diffInMinutes / 60)}h ago`;
+  } else {
+    return date.toLocaleDateString();
+  }
+};
+
 const ChatScreen: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
+  const [draftAttachments, setDraftAttachments] = useState<MessageAttachment[]>([]);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxMessage[]>([]);
   const [loading, setLoading] = useState(true);
-  const [sending, setSending] = useState(false);
   const [otherUser, setOtherUser] = useState<User | null>(null);
+  const [otherPresence, setOtherPresence] = useState<UserPresence | null>(null);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [aiThinking, setAIThinking] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
+  const [aiSettingsVisible, setAISettingsVisible] = useState(false);
+  // This user's unread count when the chat was opened, before it was marked read
+  const [unreadAtOpen, setUnreadAtOpen] = useState(0);
+  const [localMessages, setLocalMessages] = useState<Message[]>([]);
+  const [summarizing, setSummarizing] = useState(false);
+  const [smartRepliesEnabled, setSmartRepliesEnabled] = useState(false);
+  const [smartReplies, setSmartReplies] = useState<string[]>([]);
+  // Current state of the listing a buyer-seller thread is about; null once deleted
+  const [listingItem, setListingItem] = useState<MarketplaceItem | null | undefined>(undefined);
 
   const flatListRef = useRef<FlatList>(null);
+  // Read from the snapshot listener, so kept in a ref rather than state
+  const sendReadReceiptsRef = useRef(true);
+  // Newest message when the first page arrived; suggestions skip it unless it was unread
+  const lastMessageAtOpenRef = useRef<string | undefined>(undefined);
+  // When this user last published that they are typing, 0 when not typing
+  const typingPublishedAtRef = useRef(0);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  // Start of the range the live window is authoritative for, once it has loaded
+  const liveWindowStartRef = useRef<number | null>(null);
   const route = useRoute<ChatScreenRouteProp>();
   const navigation = useNavigation<ChatScreenNavigationProp>();
   const {user} = useAuth();
-  const {firestore, collections, helpers} = useFirebase();
+  const {repository, ai} = useFirebase();
+
+  const {userId: routeUserId, conversationId: existingConversationId} = route.params;
+
+  const isGroup = !!conversation?.isGroup;
+  const isAIConversation = !!conversation?.isAIConversation;
+  // Direct chats opened from the chat list only carry the conversation id
+  const otherUserId =
+    routeUserId ||
+    (conversation && !conversation.isGroup
+      ? conversation.participants.find(participantId => participantId !== user?.uid)
+      : undefined);
+  // Removed group members keep read access to the history but cannot send
+  const isMember = !conversation || !user || conversation.participants.includes(user.uid);
 
-  const {userId: otherUserId, conversationId: existingConversationId} = route.params;
+  useEffect(() => {
+    loadOrCreateConversation();
+  }, [routeUserId, existingConversationId]);
 
   useEffect(() => {
     if (otherUserId) {
       loadOtherUser();
-      loadOrCreateConversation();
     }
   }, [otherUserId]);
 
   useEffect(() => {
     if (conversationId) {
+      loadCachedMessages();
       const unsubscribe = subscribeToMessages();
       return unsubscribe;
     }
   }, [conversationId]);
 
-  const loadOtherUser = async () => {
-    try {
-      const userDoc = await firestore
-        .collection(collections.users)
-        .doc(otherUserId)
-        .get();
-
-      if (userDoc.exists) {
-        const userData = userDoc.data() as User;
-        setOtherUser({
-          uid: userDoc.id,
-          ...userData,
+  useEffect(() => {
+    if (!conversationId) return;
+
+    return repository.conversations.subscribe(
+      conversationId,
+      setConversation,
+      error => console.error('Error subscribing to conversation:', error)
+    );
+  }, [conversationId]);
+
+  const listingId = conversation?.listing?.id;
+
+  useEffect(() => {
+    if (!listingId) return;
+
+    repository.marketplace
+      .get(listingId)
+      .then(setListingItem)
+      .catch(error => console.error('Error loading listing:', error));
+  }, [listingId]);
+
+  const cacheMessages = useMemo(
+    () =>
+      PerformanceUtils.debounce((cachedMessages: Message[], hasMore: boolean) => {
+        if (!conversationId) return;
+
+        StorageManager.setMessageCache(conversationId, {
+          messages: cachedMessages.slice(-MESSAGE_CACHE_LIMIT),
+          hasMore: hasMore || cachedMessages.length > MESSAGE_CACHE_LIMIT,
         });
+      }, 1000),
+    [conversationId]
+  );
+
+  useEffect(() => {
+    if (messages.length > 0) {
+      cacheMessages(messages, hasMoreHistory);
+    }
+  }, [messages, hasMoreHistory]);
+
+  useEffect(() => {
+    if (!otherUserId) return;
+
+    return repository.presence.subscribe(
+      [otherUserId],
+      presenceByUid => setOtherPresence(presenceByUid[otherUserId] || null),
+      error => console.error('Error subscribing to presence:', error)
+    );
+  }, [otherUserId]);
+
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    const unsubscribe = repository.typing.subscribe(
+      conversationId,
+      typingUids => setTypingUserIds(typingUids.filter(uid => uid !== user.uid)),
+      error => console.error('Error subscribing to typing state:', error)
+    );
+
+    return () => {
+      unsubscribe();
+      if (typingPublishedAtRef.current) {
+        publishTyping(false);
       }
+    };
+  }, [conversationId, user]);
+
+  const lastMessage = messages[messages.length - 1];
+
+  // Suggestions cost the reader's AI allowance, so they are only asked for
+  // once the reader opts in, and only for a message from someone else that is
+  // new or was still unread when the chat opened, not on every visit
+  useEffect(() => {
+    setSmartReplies([]);
+    if (!lastMessage) return;
+    if (lastMessageAtOpenRef.current === undefined) {
+      lastMessageAtOpenRef.current = lastMessage.id;
+    }
+
+    if (
+      !smartRepliesEnabled ||
+      !user ||
+      !conversation ||
+      isAIConversation ||
+      !isMember ||
+      (lastMessage.id === lastMessageAtOpenRef.current && unreadAtOpen === 0) ||
+      lastMessage.senderId === user.uid ||
+      lastMessage.type === 'system' ||
+      NetworkManager.isOffline()
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    ai.suggestReplies(messages, user.uid)
+      .then(replies => {
+        if (!cancelled) {
+          setSmartReplies(replies);
+        }
+      })
+      .catch(error => {
+        if (!isQuotaExceededError(error)) {
+          console.error('Error suggesting replies:', error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lastMessage?.id, smartRepliesEnabled, !!conversation, isMember]);
+
+  // Leaving the chat stops a reply that is still streaming
+  useEffect(() => {
+    return () => aiAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    setOutboxEntries(MessageOutbox.getEntries(conversationId));
+    return MessageOutbox.addListener(entries => {
+      setOutboxEntries(entries.filter(entry => entry.message.conversationId === conversationId));
+    });
+  }, [conversationId]);
+
+  // Seen on the newest own message another participant has read
+  const lastSeenMessageId = useMemo(() => {
+    const seen = [...messages]
+      .reverse()
+      .find(
+        message =>
+          message.senderId === user?.uid &&
+          (message.readBy || []).some(readerId => readerId !== user?.uid)
+      );
+    return seen?.id;
+  }, [messages, user]);
+
+  // Outgoing messages are shown until the backend echoes them back under the same id
+  const displayedMessages = useMemo(() => {
+    const deliveredIds = new Set(messages.map(message => message.id));
+    const outgoing: Message[] = outboxEntries
+      .filter(entry => !deliveredIds.has(entry.id))
+      .map(entry => ({
+        ...entry.message,
+        id: entry.id,
+        timestamp: new Date(entry.createdAt),
+        deliveryStatus: entry.status,
+      }));
+
+    const streamed: Message[] =
+      streamingReply && !streamingReply.messageId && streamingReply.content && conversationId
+        ? [
+            {
+              id: STREAMING_MESSAGE_ID,
+              conversationId,
+              senderId: AI_ASSISTANT_ID,
+              senderName: AI_ASSISTANT_NAME,
+              content: streamingReply.content,
+              type: 'ai',
+              timestamp: new Date(),
+            },
+          ]
+        : [];
+
+    const shown = [...messages, ...outgoing, ...streamed, ...localMessages].map(message =>
+      streamingReply?.messageId === message.id && streamingReply.content
+        ? {...message, content: streamingReply.content, metadata: undefined}
+        : message
+    );
+
+    // Newest first for the inverted list
+    return shown.reverse();
+  }, [messages, outboxEntries, streamingReply, localMessages]);
+
+  // Only the newest reply can be regenerated
+  const lastAIMessageId = useMemo(() => {
+    const lastMessage = messages[messages.length - 1];
+    return lastMessage?.type === 'ai' ? lastMessage.id : undefined;
+  }, [messages]);
+
+  const uploadProgressById = useMemo(() => {
+    const progress: {[messageId: string]: number} = {};
+    outboxEntries.forEach(entry => {
+      if (entry.uploadProgress !== undefined) {
+        progress[entry.id] = entry.uploadProgress;
+      }
+    });
+    return progress;
+  }, [outboxEntries]);
+
+  const canSend = !!inputText.trim() || draftAttachments.length > 0;
+
+  const loadOtherUser = async () => {
+    if (!otherUserId) return;
+
+    try {
+      setOtherUser(await repository.users.get(otherUserId));
     } catch (error) {
       console.error('Error loading user:', error);
       Alert.alert('Error', 'Failed to load user information');
@@ -85,43 +444,25 @@ const ChatScreen: React.FC = () => {
   };
 
   const loadOrCreateConversation = async () => {
-    if (!user) return;
+    if (!user || (!existingConversationId && !routeUserId)) {
+      setLoading(false);
+      return;
+    }
 
     try {
-      let convId = existingConversationId;
-
-      if (!convId) {
-        // Check if conversation already exists between these users
-        const existingConversation = await firestore
-          .collection(collections.conversations)
-          .where('participants', 'array-contains', user.uid)
-          .get();
-
-        const conversation = existingConversation.docs.find(doc => {
-          const data = doc.data();
-          return data.participants.includes(otherUserId) && data.participants.length === 2;
-        });
+      // The receipt preference must be known before the first snapshot arrives
+      const [convId, settings] = await Promise.all([
+        existingConversationId ||
+          repository.conversations.findOrCreateDirect(user.uid, routeUserId!),
+        repository.users.getSettings(user.uid).catch(() => null),
+      ]);
 
-        if (conversation) {
-          convId = conversation.id;
-        } else {
-          // Create new conversation
-          const newConversation = await firestore
-            .collection(collections.conversations)
-            .add({
-              participants: [user.uid, otherUserId],
-              createdAt: helpers.timestamp(),
-              lastMessage: null,
-              lastMessageTime: helpers.timestamp(),
-              unreadCount: {
-                [user.uid]: 0,
-                [otherUserId]: 0,
-              },
-            });
-          convId = newConversation.id;
-        }
-      }
+      sendReadReceiptsRef.current = settings?.privacy.readReceipts !== false;
+      setSmartRepliesEnabled(settings?.ai?.smartReplies === true);
 
+      // Read before the message listener marks the conversation as read
+      const openedConversation = await repository.conversations.get(convId).catch(() => null);
+      setUnreadAtOpen(openedConversation?.unreadCount[user.uid] || 0);
       setConversationId(convId);
     } catch (error) {
       console.error('Error loading conversation:', error);
@@ -134,101 +475,512 @@ const ChatScreen: React.FC = () => {
   const subscribeToMessages = () => {
     if (!conversationId) return () => {};
 
-    return firestore
-      .collection(collections.messages)
-      .where('conversationId', '==', conversationId)
-      .orderBy('timestamp', 'desc')
-      .limit(50)
-      .onSnapshot(
-        (snapshot) => {
-          const messageList: Message[] = snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data(),
-            timestamp: doc.data().timestamp?.toDate() || new Date(),
-          })) as Message[];
-
-          setMessages(messageList.reverse());
-
-          // Mark messages as read
-          markMessagesAsRead();
-
-          // Scroll to bottom when new messages arrive
-          setTimeout(() => {
-            flatListRef.current?.scrollToEnd({animated: true});
-          }, 100);
-        },
-        (error) => {
-          console.error('Error subscribing to messages:', error);
+    liveWindowStartRef.current = null;
+    return repository.messages.subscribe(
+      conversationId,
+      MESSAGE_PAGE_SIZE,
+      (messageList) => {
+        // Messages that slide out of the live window stay in the merged history;
+        // a window short of a full page holds the whole conversation
+        const complete = messageList.length < MESSAGE_PAGE_SIZE;
+        const windowStart =
+          complete || messageList.length === 0 ? -Infinity : messageList[0].timestamp.getTime();
+        liveWindowStartRef.current = windowStart;
+        setMessages(prev => mergeMessages(prev, messageList, {from: windowStart, to: Infinity}));
+        if (complete) {
+          setHasMoreHistory(false);
         }
+
+        // Mark messages as read
+        markMessagesAsRead();
+        updateReceipts(messageList);
+      },
+      (error) => {
+        console.error('Error subscribing to messages:', error);
+      }
+    );
+  };
+
+  // Renders the last session's history while the listener connects
+  const loadCachedMessages = async () => {
+    if (!conversationId) return;
+
+    const cache = await StorageManager.getMessageCache(conversationId);
+    if (cache) {
+      // The live window wins for its range if it loaded first
+      const windowStart = liveWindowStartRef.current;
+      const cached =
+        windowStart === null
+          ? cache.messages
+          : cache.messages.filter(message => message.timestamp.getTime() < windowStart);
+      setMessages(prev => mergeMessages(cached, prev));
+      setHasMoreHistory(cache.hasMore);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    if (!conversationId || !hasMoreHistory || loadingHistory || messages.length === 0) return;
+
+    setLoadingHistory(true);
+    try {
+      const before = messages[0];
+      const page = await repository.messages.listBefore(conversationId, before, MESSAGE_PAGE_SIZE);
+
+      // The page covers everything older than the cursor back to its oldest
+      // message, or to the start of the conversation on the last page
+      const from =
+        page.hasMore && page.messages.length > 0 ? page.messages[0].timestamp.getTime() : -Infinity;
+      setMessages(prev =>
+        mergeMessages(prev, page.messages, {from, to: before.timestamp.getTime()})
       );
+      setHasMoreHistory(page.hasMore);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingHistory(false);
+    }
   };
 
   const markMessagesAsRead = async () => {
     if (!user || !conversationId) return;
 
     try {
-      await firestore
-        .collection(collections.conversations)
-        .doc(conversationId)
-        .update({
-          [`unreadCount.${user.uid}`]: 0,
-        });
+      await repository.conversations.markRead(conversationId, user.uid);
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
   };
 
-  const sendMessage = async () => {
-    if (!inputText.trim() || !user || !conversationId || sending) return;
+  const publishTyping = (isTyping: boolean) => {
+    if (!user || !conversationId || isAIConversation || NetworkManager.isOffline()) return;
 
-    if (NetworkManager.isOffline()) {
-      Alert.alert('No Connection', 'Please check your internet connection and try again.');
+    typingPublishedAtRef.current = isTyping ? Date.now() : 0;
+    repository.typing.set(conversationId, user.uid, isTyping).catch(error => {
+      console.error('Error updating typing state:', error);
+    });
+  };
+
+  const stopTyping = useMemo(
+    () =>
+      PerformanceUtils.debounce(() => {
+        if (typingPublishedAtRef.current) {
+          publishTyping(false);
+        }
+      }, TYPING_IDLE_MS),
+    [conversationId, user]
+  );
+
+  // Typing is republished periodically so readers do not treat it as stale
+  const handleChangeText = (text: string) => {
+    setInputText(text);
+
+    if (!text.trim()) {
+      if (typingPublishedAtRef.current) {
+        publishTyping(false);
+      }
       return;
     }
 
-    setSending(true);
-    const messageText = inputText.trim();
-    setInputText('');
+    if (Date.now() - typingPublishedAtRef.current > TYPING_REFRESH_MS) {
+      publishTyping(true);
+    }
+    stopTyping();
+  };
+
+  const openGroupInfo = () => {
+    if (conversationId && isGroup) {
+      navigation.navigate('GroupInfo', {conversationId});
+    }
+  };
+
+  const getRecipientIds = (): string[] => {
+    if (conversation) {
+      return conversation.participants.filter(participantId => participantId !== user?.uid);
+    }
+    return otherUserId ? [otherUserId] : [];
+  };
+
+  const getHeaderTitle = () => {
+    if (isAIConversation) {
+      return conversation?.title || AI_ASSISTANT_NAME;
+    }
+    if (isGroup) {
+      return conversation?.title || 'Group';
+    }
+    return otherUser?.displayName || 'Unknown User';
+  };
+
+  const getHeaderSubtitle = () => {
+    if (isAIConversation) {
+      if (aiThinking) {
+        return streamingReply?.content ? 'Responding...' : 'Thinking...';
+      }
+      return conversation?.metadata?.model || 'AI Assistant';
+    }
+    if (conversation && isGroup) {
+      const typingNames = typingUserIds.map(
+        uid => conversation.participantInfo[uid]?.displayName || 'Someone'
+      );
+      if (typingNames.length === 1) {
+        return `${typingNames[0]} is typing...`;
+      }
+      if (typingNames.length > 1) {
+        return `${typingNames.length} people are typing...`;
+      }
+      return `${conversation.participants.length} members`;
+    }
+
+    if (otherUserId && typingUserIds.includes(otherUserId)) {
+      return 'typing...';
+    }
+    if (otherPresence?.online) {
+      return 'Online';
+    }
+    if (otherPresence?.lastSeen) {
+      return `Last seen ${formatLastSeen(otherPresence.lastSeen)}`;
+    }
+    return 'Offline';
+  };
+
+  // Record that this client has received the other participants' messages, and
+  // read them unless the user has turned read receipts off
+  const updateReceipts = async (messageList: Message[]) => {
+    if (!user) return;
+
+    const incoming = messageList.filter(
+      message => message.senderId !== user.uid && message.type !== 'system'
+    );
+
+    try {
+      if (sendReadReceiptsRef.current) {
+        await repository.messages.markRead(
+          incoming
+            .filter(message => !(message.readBy || []).includes(user.uid))
+            .map(message => message.id),
+          user.uid
+        );
+      } else {
+        await repository.messages.markDelivered(
+          incoming
+            .filter(message => !(message.deliveredTo || []).includes(user.uid))
+            .map(message => message.id),
+          user.uid
+        );
+      }
+    } catch (error) {
+      console.error('Error updating message receipts:', error);
+    }
+  };
+
+  // The image picker is the only file source, so "File" picks from the media
+  // library and sends the original instead of a downscaled photo
+  const pickAttachments = (kind: MessageAttachmentKind) => {
+    const remaining = MAX_ATTACHMENTS - draftAttachments.length;
+    const options: ImageLibraryOptions =
+      kind === 'image'
+        ? {
+            mediaType: 'photo',
+            selectionLimit: remaining,
+            maxWidth: IMAGE_MAX_DIMENSION,
+            maxHeight: IMAGE_MAX_DIMENSION,
+            quality: NetworkManager.getRecommendedImageQuality() as PhotoQuality,
+          }
+        : {mediaType: 'mixed', selectionLimit: remaining};
+
+    launchImageLibrary(options, response => {
+      if (response.errorMessage) {
+        Alert.alert('Error', response.errorMessage);
+        return;
+      }
+
+      const assets = (response.assets || []).filter(asset => asset.uri);
+      const accepted = assets.filter(asset => (asset.fileSize || 0) <= MAX_ATTACHMENT_BYTES);
+      if (accepted.length < assets.length) {
+        Alert.alert('File Too Large', 'Attachments can be up to 25 MB.');
+      }
+
+      setDraftAttachments(prev =>
+        [...prev, ...accepted.map(asset => toAttachment(asset, kind))].slice(0, MAX_ATTACHMENTS)
+      );
+    });
+  };
+
+  const showAttachmentOptions = () => {
+    Alert.alert('Attach', undefined, [
+      {text: 'Photo', onPress: () => pickAttachments('image')},
+      {text: 'File', onPress: () => pickAttachments('file')},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
 
+  const removeDraftAttachment = (attachmentId: string) => {
+    setDraftAttachments(prev => prev.filter(attachment => attachment.id !== attachmentId));
+  };
+
+  // The assistant's reply is streamed into the list and written by this client
+  // once it finishes. Regenerating adds the new answer as a variant of the
+  // existing reply instead of a new message
+  const requestAIResponse = async (
+    prompt: string,
+    history: Message[],
+    replaceMessageId?: string
+  ) => {
+    if (!user || !conversationId) return;
+
+    const settings = conversation?.metadata || {};
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    let partialText = '';
+    let reply: {content: string; metadata: MessageMetadata} | null = null;
+
+    setAIThinking(true);
+    setStreamingReply({messageId: replaceMessageId, content: ''});
     try {
-      const messageData = {
-        conversationId,
-        senderId: user.uid,
-        senderName: user.displayName || 'Anonymous',
-        senderAvatar: user.photoURL || null,
-        content: messageText,
-        timestamp: helpers.timestamp(),
-        type: 'text',
-        readBy: [user.uid],
+      const response = await ai.streamResponse(
+        {
+          prompt,
+          conversationId,
+          model: settings.model,
+          temperature: settings.temperature,
+          maxTokens: settings.maxTokens,
+          systemPrompt: settings.systemPrompt,
+          history: buildConversationContext(history),
+        },
+        text => {
+          partialText = text;
+          setStreamingReply({messageId: replaceMessageId, content: text});
+        },
+        controller.signal
+      );
+
+      reply = {
+        content: response.response,
+        metadata: {
+          model: response.model,
+          tokens: response.tokens,
+          processingTime: response.processingTime,
+        },
       };
+    } catch (error) {
+      if (isCancelledError(error)) {
+        // Whatever arrived before the user stopped the reply is kept
+        if (partialText) {
+          reply = {content: partialText, metadata: {model: settings.model, stopped: true}};
+        }
+      } else if (isQuotaExceededError(error)) {
+        Alert.alert('AI Limit Reached', (error as Error).message);
+      } else {
+        console.error('Error generating AI response:', error);
+        Alert.alert('Error', 'The assistant could not respond. Please try again.');
+      }
+    }
 
-      // Add message to messages collection
-      await firestore.collection(collections.messages).add(messageData);
-
-      // Update conversation with last message
-      await firestore
-        .collection(collections.conversations)
-        .doc(conversationId)
-        .update({
-          lastMessage: messageText,
-          lastMessageTime: helpers.timestamp(),
-          [`unreadCount.${otherUserId}`]: helpers.increment(1),
-        });
+    try {
+      if (reply && replaceMessageId) {
+        await repository.messages.addVariant(replaceMessageId, reply);
+      } else if (reply) {
+        // No recipients: the owner watched the reply arrive, so it is never unread
+        await repository.messages.send(
+          {
+            conversationId,
+            senderId: AI_ASSISTANT_ID,
+            senderName: AI_ASSISTANT_NAME,
+            content: reply.content,
+            type: 'ai',
+            metadata: reply.metadata,
+          },
+          []
+        );
+      }
+    } catch (error) {
+      console.error('Error saving AI response:', error);
+      Alert.alert('Error', 'Failed to save the response');
+    } finally {
+      aiAbortRef.current = null;
+      setStreamingReply(null);
+      setAIThinking(false);
+    }
+  };
+
+  const stopAIResponse = () => {
+    aiAbortRef.current?.abort();
+  };
+
+  // Answers the prompt the reply was given to again, with the history before it
+  const regenerateResponse = (message: Message) => {
+    if (aiThinking || !user) return;
+
+    if (NetworkManager.isOffline()) {
+      Alert.alert('No Connection', 'The assistant is only available while online.');
+      return;
+    }
+
+    const replyIndex = messages.findIndex(candidate => candidate.id === message.id);
+    let promptIndex = replyIndex - 1;
+    while (promptIndex >= 0 && messages[promptIndex].senderId !== user.uid) {
+      promptIndex--;
+    }
+    if (promptIndex < 0) return;
 
+    requestAIResponse(messages[promptIndex].content, messages.slice(0, promptIndex), message.id);
+  };
+
+  const selectVariant = async (messageId: string, index: number) => {
+    try {
+      await repository.messages.selectVariant(messageId, index);
+    } catch (error) {
+      console.error('Error selecting response:', error);
+      Alert.alert('Error', 'Failed to switch responses');
+    }
+  };
+
+  const summarizeSinceLastRead = async () => {
+    if (!user || !conversationId || summarizing) return;
+
+    if (NetworkManager.isOffline()) {
+      Alert.alert('No Connection', 'Summaries need an internet connection.');
+      return;
+    }
+
+    // The oldest unread message is the unreadAtOpen-th newest one from someone else
+    let boundary = messages.length;
+    let remaining = unreadAtOpen;
+    while (remaining > 0 && boundary > 0) {
+      boundary--;
+      if (messages[boundary].senderId !== user.uid && messages[boundary].type !== 'system') {
+        remaining--;
+      }
+    }
+    if (unreadAtOpen === 0) {
+      boundary = Math.max(0, messages.length - RECENT_SUMMARY_MESSAGES);
+    }
+
+    const toSummarize = messages.slice(boundary);
+    if (!toSummarize.some(message => message.type !== 'system' && message.content.trim())) {
+      Alert.alert('Summary', 'There are no messages to summarize yet.');
+      return;
+    }
+
+    setSummarizing(true);
+    try {
+      const summary = await ai.summarizeMessages(toSummarize, messages.slice(0, boundary), user.uid);
+      const heading =
+        unreadAtOpen > 0
+          ? `Summary of ${unreadAtOpen} unread message${unreadAtOpen === 1 ? '' : 's'}`
+          : 'Summary of recent messages';
+
+      setLocalMessages(prev => [
+        ...prev,
+        {
+          id: `${SUMMARY_MESSAGE_PREFIX}${Date.now()}`,
+          conversationId,
+          senderId: 'system',
+          senderName: AI_ASSISTANT_NAME,
+          content: `${heading}\n\n${summary}`,
+          type: 'system',
+          timestamp: new Date(),
+        },
+      ]);
+      flatListRef.current?.scrollToOffset({offset: 0, animated: true});
+    } catch (error) {
+      if (isQuotaExceededError(error)) {
+        Alert.alert('AI Limit Reached', (error as Error).message);
+      } else {
+        console.error('Error summarizing conversation:', error);
+        Alert.alert('Error', 'Failed to summarize the conversation');
+      }
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  const dismissLocalMessage = (messageId: string) => {
+    setLocalMessages(prev => prev.filter(message => message.id !== messageId));
+  };
+
+  // Messages go through the outbox so they show up immediately and survive
+  // being offline or restarting the app
+  const sendMessage = async () => {
+    if (!canSend || !user || !conversationId || !isMember || aiThinking) return;
+
+    if (isAIConversation && NetworkManager.isOffline()) {
+      Alert.alert('No Connection', 'The assistant is only available while online.');
+      return;
+    }
+
+    const messageText = inputText.trim();
+    if (isAIConversation && !messageText) {
+      Alert.alert(
+        'Add a Message',
+        'Tell the assistant what you want to know about the attachments.'
+      );
+      return;
+    }
+
+    const attachments = draftAttachments;
+    setInputText('');
+    setDraftAttachments([]);
+    if (typingPublishedAtRef.current) {
+      publishTyping(false);
+    }
+    flatListRef.current?.scrollToOffset({offset: 0, animated: true});
+
+    let entryId: string;
+    try {
+      const entry = await MessageOutbox.enqueue(
+        {
+          conversationId,
+          senderId: user.uid,
+          senderName: user.displayName || 'Anonymous',
+          senderAvatar: user.photoURL || undefined,
+          content: messageText,
+          type: getMessageType(attachments),
+          attachments: attachments.length > 0 ? attachments : undefined,
+        },
+        getRecipientIds()
+      );
+      entryId = entry.id;
     } catch (error) {
       console.error('Error sending message:', error);
       Alert.alert('Error', 'Failed to send message. Please try again.');
       setInputText(messageText); // Restore the message text
-    } finally {
-      setSending(false);
+      setDraftAttachments(attachments);
+      return;
+    }
+
+    // The reply is only requested once the prompt is stored, so it can never
+    // be written ahead of it
+    if (isAIConversation) {
+      const history = messages;
+      setAIThinking(true);
+      try {
+        await MessageOutbox.waitForDelivery(entryId);
+      } catch (error) {
+        console.error('Error delivering prompt:', error);
+        setAIThinking(false);
+        Alert.alert('Error', 'Your message was not sent, so the assistant was not asked.');
+        return;
+      }
+      requestAIResponse(messageText, history);
     }
   };
 
   const renderMessage = ({item}: {item: Message}) => (
     <MessageBubble
       message={item}
-      isOwnMessage={item.senderId === user?.uid}
-      showAvatar={item.senderId !== user?.uid}
+      currentUserId={user?.uid || ''}
+      showSeen={item.id === lastSeenMessageId}
+      uploadProgress={uploadProgressById[item.id]}
+      streaming={item.id === STREAMING_MESSAGE_ID || item.id === streamingReply?.messageId}
+      onRegenerate={
+        item.id === lastAIMessageId && !aiThinking ? () => regenerateResponse(item) : undefined
+      }
+      onSelectVariant={aiThinking ? undefined : index => selectVariant(item.id, index)}
+      onDismiss={
+        item.id.startsWith(SUMMARY_MESSAGE_PREFIX) ? () => dismissLocalMessage(item.id) : undefined
+      }
+      onRetry={() => MessageOutbox.retry(item.id)}
+      onDelete={() => MessageOutbox.remove(item.id)}
     />
   );
 
@@ -253,56 +1005,130 @@ const ChatScreen: React.FC = () => {
     <SafeAreaView style={styles.container}>
       <Appbar.Header style={styles.header}>
         <Appbar.BackAction onPress={() => navigation.goBack()} />
-        <View style={styles.headerContent}>
-          <Avatar.Image
-            size={32}
-            source={
-              otherUser?.photoURL
-                ? {uri: otherUser.photoURL}
-                : undefined
-            }
-            style={styles.headerAvatar}
-          />
+        <TouchableOpacity
+          style={styles.headerContent}
+          onPress={openGroupInfo}
+          disabled={!isGroup}>
+          {isAIConversation ? (
+            <Avatar.Icon size={32} icon="robot" style={[styles.headerAvatar, styles.aiAvatar]} />
+          ) : isGroup ? (
+            conversation?.avatarURL ? (
+              <Avatar.Image
+                size={32}
+                source={{uri: conversation.avatarURL}}
+                style={styles.headerAvatar}
+              />
+            ) : (
+              <Avatar.Icon size={32} icon="account-group" style={styles.headerAvatar} />
+            )
+          ) : (
+            <Avatar.Image
+              size={32}
+              source={
+                otherUser?.photoURL
+                  ? {uri: otherUser.photoURL}
+                  : undefined
+              }
+              style={styles.headerAvatar}
+            />
+          )}
           <View style={styles.headerText}>
             <Text style={styles.headerTitle}>
-              {otherUser?.displayName || 'Unknown User'}
+              {getHeaderTitle()}
             </Text>
             <Text style={styles.headerSubtitle}>
-              {NetworkManager.isOnline() ? 'Online' : 'Offline'}
+              {getHeaderSubtitle()}
             </Text>
           </View>
-        </View>
-        <Appbar.Action
-          icon="phone"
-          onPress={() => Alert.alert('Voice Call', 'Voice calling feature coming soon')}
-        />
-        <Appbar.Action
-          icon="video"
-          onPress={() => Alert.alert('Video Call', 'Video calling feature coming soon')}
-        />
+        </TouchableOpacity>
+        {isAIConversation ? (
+          <Appbar.Action
+            icon="tune"
+            onPress={() => setAISettingsVisible(true)}
+            disabled={!conversation}
+          />
+        ) : isGroup ? (
+          <>
+            <Appbar.Action
+              icon="text-box-outline"
+              onPress={summarizeSinceLastRead}
+              disabled={summarizing}
+            />
+            <Appbar.Action icon="information-outline" onPress={openGroupInfo} />
+          </>
+        ) : (
+          <>
+            <Appbar.Action
+              icon="text-box-outline"
+              onPress={summarizeSinceLastRead}
+              disabled={summarizing}
+            />
+            <Appbar.Action
+              icon="phone"
+              onPress={() => Alert.alert('Voice Call', 'Voice calling feature coming soon')}
+            />
+            <Appbar.Action
+              icon="video"
+              onPress={() => Alert.alert('Video Call', 'Video calling feature coming soon')}
+            />
+          </>
+        )}
       </Appbar.Header>
 
+      {conversation?.listing && (
+        <ListingContextCard
+          listing={conversation.listing}
+          item={listingItem}
+          onPress={() => navigation.navigate('ItemDetails', {itemId: conversation.listing!.id})}
+        />
+      )}
+
       <KeyboardAvoidingView
         style={styles.keyboardAvoidingView}
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
         keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}>
         
+        {/* Inverted so new messages stay anchored at the bottom while older
+            pages are appended at the top without moving the visible ones */}
         <FlatList
           ref={flatListRef}
-          data={messages}
+          data={displayedMessages}
           renderItem={renderMessage}
           keyExtractor={getKeyExtractor}
           style={styles.messagesList}
           contentContainerStyle={styles.messagesContainer}
-          inverted={false}
+          inverted
           showsVerticalScrollIndicator={false}
-          onContentSizeChange={() => {
-            flatListRef.current?.scrollToEnd({animated: false});
-          }}
+          onEndReached={loadOlderMessages}
+          onEndReachedThreshold={0.3}
+          ListHeaderComponent={
+            aiThinking && !streamingReply?.content ? (
+              <View style={styles.thinkingContainer}>
+                <Avatar.Icon size={32} icon="robot" style={styles.aiAvatar} />
+                <View style={styles.thinkingBubble}>
+                  <ActivityIndicator size="small" color={theme.colors.secondary} />
+                  <Text style={styles.thinkingText}>{AI_ASSISTANT_NAME} is thinking...</Text>
+                </View>
+              </View>
+            ) : null
+          }
+          ListFooterComponent={
+            loadingHistory ? (
+              <ActivityIndicator
+                size="small"
+                color={theme.colors.primary}
+                style={styles.historyLoader}
+              />
+            ) : null
+          }
           ListEmptyComponent={
-            <View style={styles.emptyContainer}>
+            <View style={[styles.emptyContainer, styles.invertedEmpty]}>
               <Text style={styles.emptyText}>
-                Start a conversation with {otherUser?.displayName || 'this user'}
+                {isAIConversation
+                  ? `Ask ${AI_ASSISTANT_NAME} anything`
+                  : isGroup
+                  ? `Say hello to ${conversation?.title || 'the group'}`
+                  : `Start a conversation with ${otherUser?.displayName || 'this user'}`}
               </Text>
               <Text style={styles.emptySubtext}>
                 Send a message to begin chatting
@@ -311,37 +1137,122 @@ const ChatScreen: React.FC = () => {
           }
         />
 
-        <View style={styles.inputContainer}>
-          <TextInput
-            value={inputText}
-            onChangeText={setInputText}
-            placeholder="Type a message..."
-            mode="outlined"
-            multiline
-            maxLength={1000}
-            style={styles.textInput}
-            theme={{colors: {primary: theme.colors.primary}}}
-            disabled={sending}
-            onSubmitEditing={sendMessage}
-            blurOnSubmit={false}
-          />
-          <IconButton
-            icon="send"
-            size={24}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || sending}
-            style={[
-              styles.sendButton,
-              (!inputText.trim() || sending) && styles.sendButtonDisabled,
-            ]}
-            iconColor={
-              !inputText.trim() || sending
-                ? theme.colors.onSurface
-                : theme.colors.primary
-            }
-          />
-        </View>
+        {!isMember ? (
+          <View style={styles.inputContainer}>
+            <Text style={styles.notMemberText}>
+              You are no longer a member of this group
+            </Text>
+          </View>
+        ) : (
+          <View>
+            {summarizing && (
+              <View style={styles.summarizingBanner}>
+                <ActivityIndicator size="small" color={theme.colors.secondary} />
+                <Text style={styles.thinkingText}>Summarizing...</Text>
+              </View>
+            )}
+            {smartReplies.length > 0 && !inputText && draftAttachments.length === 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                contentContainerStyle={styles.smartReplies}>
+                {smartReplies.map(reply => (
+                  <Chip
+                    key={reply}
+                    onPress={() => handleChangeText(reply)}
+                    style={styles.smartReplyChip}>
+                    {reply}
+                  </Chip>
+                ))}
+              </ScrollView>
+            )}
+            {draftAttachments.length > 0 && (
+              <ScrollView
+                horizontal
+                style={styles.attachmentTray}
+                contentContainerStyle={styles.attachmentTrayContent}>
+                {draftAttachments.map(attachment => (
+                  <View key={attachment.id} style={styles.draftAttachment}>
+                    {attachment.kind === 'image' ? (
+                      <Image source={{uri: attachment.url}} style={styles.draftImage} />
+                    ) : (
+                      <View style={styles.draftFile}>
+                        <Avatar.Icon size={32} icon="file-document-outline" style={styles.draftFileIcon} />
+                        <Text style={styles.draftFileName} numberOfLines={2}>
+                          {attachment.name}
+                        </Text>
+                      </View>
+                    )}
+                    <IconButton
+                      icon="close-circle"
+                      size={18}
+                      onPress={() => removeDraftAttachment(attachment.id)}
+                      style={styles.draftRemove}
+                    />
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+            <View style={styles.inputContainer}>
+              {!isAIConversation && (
+                <IconButton
+                  icon="paperclip"
+                  size={24}
+                  onPress={showAttachmentOptions}
+                  disabled={draftAttachments.length >= MAX_ATTACHMENTS}
+                  style={styles.attachButton}
+                />
+              )}
+              <TextInput
+                value={inputText}
+                onChangeText={handleChangeText}
+                placeholder="Type a message..."
+                mode="outlined"
+                multiline
+                maxLength={1000}
+                style={styles.textInput}
+                theme={{colors: {primary: theme.colors.primary}}}
+                onSubmitEditing={sendMessage}
+                blurOnSubmit={false}
+              />
+              {aiThinking ? (
+                <IconButton
+                  icon="stop-circle"
+                  size={24}
+                  onPress={stopAIResponse}
+                  style={styles.sendButton}
+                  iconColor={theme.colors.error}
+                />
+              ) : (
+                <IconButton
+                  icon="send"
+                  size={24}
+                  onPress={sendMessage}
+                  disabled={!canSend}
+                  style={[
+                    styles.sendButton,
+                    !canSend && styles.sendButtonDisabled,
+                  ]}
+                  iconColor={
+                    !canSend
+                      ? theme.colors.onSurface
+                      : theme.colors.primary
+                  }
+                />
+              )}
+            </View>
+          </View>
+        )}
       </KeyboardAvoidingView>
+
+      {conversation && isAIConversation && (
+        <AISettingsSheet
+          visible={aiSettingsVisible}
+          conversation={conversation}
+          onDismiss={() => setAISettingsVisible(false)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -396,6 +1307,13 @@ const styles = StyleSheet.create({
     padding: theme.spacing.md,
     paddingBottom: theme.spacing.lg,
   },
+  historyLoader: {
+    marginVertical: theme.spacing.md,
+  },
+  // Inverted lists also flip the empty component
+  invertedEmpty: {
+    transform: [{scaleY: -1}],
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -429,10 +1347,101 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.background,
     marginRight: theme.spacing.sm,
   },
+  attachButton: {
+    margin: 0,
+    marginRight: theme.spacing.xs,
+  },
+  summarizingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.outline,
+  },
+  smartReplies: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingTop: theme.spacing.sm,
+  },
+  smartReplyChip: {
+    marginRight: theme.spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  attachmentTray: {
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.outline,
+  },
+  attachmentTrayContent: {
+    padding: theme.spacing.sm,
+  },
+  draftAttachment: {
+    marginRight: theme.spacing.sm,
+  },
+  draftImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  draftFile: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: theme.spacing.xs,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  draftFileIcon: {
+    backgroundColor: 'transparent',
+  },
+  draftFileName: {
+    fontSize: 9,
+    textAlign: 'center',
+    color: theme.colors.onSurface,
+  },
+  draftRemove: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    margin: 0,
+    backgroundColor: theme.colors.surface,
+  },
+  aiAvatar: {
+    backgroundColor: theme.colors.secondary,
+  },
+  thinkingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.sm,
+    marginVertical: theme.spacing.xs,
+  },
+  thinkingBubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: 16,
+    backgroundColor: theme.colors.surface,
+  },
+  thinkingText: {
+    marginLeft: theme.spacing.sm,
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
   sendButton: {
     margin: 0,
     backgroundColor: theme.colors.surface,
   },
+  notMemberText: {
+    flex: 1,
+    textAlign: 'center',
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    paddingVertical: theme.spacing.sm,
+  },
   sendButtonDisabled: {
     opacity: 0.5,
   },
@@ -0,0 +1,424 @@
+/**
+ * Checkout Screen
+ * Buy Now payment for a listing, and the escrow status of a purchase until
+ * the funds are released to the seller
+ */
+
+import React, {useState, useEffect, useCallback} from 'react';
+import {View, StyleSheet, ScrollView, Alert, Linking} from 'react-native';
+import {Text, Button, Card, Chip, Appbar, ActivityIndicator, Divider} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation, useRoute, useFocusEffect, RouteProp} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import {ESCROW_RELEASE_DAYS} from '../../services/escrow';
+import {ConversationListing, Escrow, EscrowStatus, RootStackParamList} from '../../types';
+import {theme} from '../../utils/theme';
+
+type CheckoutScreenRouteProp = RouteProp<RootStackParamList, 'Checkout'>;
+type CheckoutScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Checkout'>;
+
+const statusLabels: {[status in EscrowStatus]: string} = {
+  'awaiting-payment': 'Awaiting payment',
+  held: 'Payment held',
+  releasing: 'Releasing payment',
+  released: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  refunded: 'Refunded',
+};
+
+const formatPrice = (price: number, currency: string) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency || 'USD',
+  }).format(price);
+};
+
+const CheckoutScreen: React.FC = () => {
+  const [listing, setListing] = useState<ConversationListing | null>(null);
+  const [shippingCost, setShippingCost] = useState(0);
+  const [escrow, setEscrow] = useState<Escrow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const route = useRoute<CheckoutScreenRouteProp>();
+  const navigation = useNavigation<CheckoutScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository, payments} = useFirebase();
+
+  const {itemId, escrowId} = route.params;
+  const isBuyer = !escrow || escrow.buyerId === user?.uid;
+
+  useEffect(() => {
+    if (escrowId || !itemId) return;
+
+    repository.marketplace
+      .get(itemId)
+      .then(item => {
+        if (!item) {
+          Alert.alert('Error', 'Item not found');
+          navigation.goBack();
+          return;
+        }
+        setListing({
+          id: item.id,
+          title: item.title,
+          imageURL: item.images[0] || null,
+          price: item.price,
+          currency: item.currency,
+          sellerId: item.sellerId,
+        });
+        setShippingCost(item.shipping ? item.shipping.cost : 0);
+      })
+      .catch(error => {
+        console.error('Error loading item:', error);
+        Alert.alert('Error', 'Failed to load item details');
+      })
+      .finally(() => setLoading(false));
+  }, [itemId, escrowId]);
+
+  useEffect(() => {
+    if (!escrowId) return;
+
+    return repository.escrows.subscribe(
+      escrowId,
+      loadedEscrow => {
+        setEscrow(loadedEscrow);
+        if (loadedEscrow) {
+          setListing(loadedEscrow.listing);
+          setShippingCost(loadedEscrow.amount - loadedEscrow.listing.price);
+        }
+        setLoading(false);
+      },
+      error => {
+        console.error('Error loading purchase:', error);
+        Alert.alert('Error', 'Failed to load purchase');
+        setLoading(false);
+      }
+    );
+  }, [escrowId]);
+
+  // Coming back from the provider's payment page picks up the payment
+  useFocusEffect(
+    useCallback(() => {
+      if (!escrowId || !user) return;
+
+      payments
+        .refresh(escrowId)
+        .catch(error => console.error('Error checking payment:', error));
+    }, [escrowId, user])
+  );
+
+  const runCheckoutAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating purchase:', error);
+      Alert.alert('Error', (error as Error).message || failureMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openPaymentPage = async (url?: string) => {
+    if (url && (await Linking.canOpenURL(url))) {
+      await Linking.openURL(url);
+    }
+  };
+
+  const handlePay = () => {
+    if (!user || !itemId) return;
+
+    runCheckoutAction(async () => {
+      const newEscrowId = await payments.checkout(itemId);
+      navigation.setParams({escrowId: newEscrowId, itemId: undefined});
+      const newEscrow = await repository.escrows.get(newEscrowId);
+      if (newEscrow && newEscrow.status === 'awaiting-payment') {
+        await openPaymentPage(newEscrow.checkoutUrl);
+      }
+    }, 'Failed to start checkout');
+  };
+
+  const handleCheckPayment = () => {
+    if (!escrow) return;
+
+    runCheckoutAction(async () => {
+      const status = await payments.refresh(escrow.id);
+      if (status === 'awaiting-payment') {
+        Alert.alert('Not Paid Yet', 'The payment has not come through yet');
+      }
+    }, 'Failed to check the payment');
+  };
+
+  const handleCancel = () => {
+    if (!escrow) return;
+
+    Alert.alert('Cancel Checkout', 'The listing will be available to other buyers again.', [
+      {text: 'Keep', style: 'cancel'},
+      {
+        text: 'Cancel Checkout',
+        style: 'destructive',
+        onPress: () =>
+          runCheckoutAction(
+            () => payments.cancel(escrow.id),
+            'Failed to cancel checkout'
+          ),
+      },
+    ]);
+  };
+
+  const handleConfirmReceipt = () => {
+    if (!escrow) return;
+
+    Alert.alert(
+      'Confirm Receipt',
+      'The payment is released to the seller. Only confirm once the item has arrived as described.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Confirm',
+          onPress: () =>
+            runCheckoutAction(
+              () => payments.confirmReceipt(escrow.id),
+              'Failed to release the payment'
+            ),
+        },
+      ]
+    );
+  };
+
+  const describeStatus = (current: Escrow) => {
+    const releaseOn = current.releaseAfter ? current.releaseAfter.toLocaleDateString() : '';
+
+    switch (current.status) {
+      case 'awaiting-payment': {
+        const until = current.expiresAt.toLocaleTimeString();
+        return isBuyer
+          ? `The item is reserved for you until ${until} while you complete the payment.`
+          : `The item is reserved until ${until} while the buyer completes the payment.`;
+      }
+      case 'held':
+        return isBuyer
+          ? `Your payment is held until you confirm the item arrived. ` +
+              `It is released to the seller on ${releaseOn} otherwise.`
+          : `The buyer has paid. Ship the item; the payment is released to you when ` +
+              `they confirm receipt, or on ${releaseOn} at the latest.`;
+      case 'releasing':
+        return 'The payment is being released to the seller.';
+      case 'released':
+        return current.releaseReason === 'timeout'
+          ? 'The hold period ended and the payment was released to the seller.'
+          : 'The buyer confirmed receipt and the payment was released to the seller.';
+      case 'cancelled':
+        return current.endReason === 'checkout-failed'
+          ? 'The payment provider could not start this checkout.'
+          : 'This checkout was cancelled.';
+      case 'expired':
+        return 'The checkout ran out of time before it was paid, so the item went back on sale.';
+      case 'refunded':
+        return 'The item was no longer available when the payment arrived, so it was refunded.';
+    }
+  };
+
+  const renderActions = (current: Escrow) => {
+    if (!isBuyer) return null;
+
+    if (current.status === 'awaiting-payment') {
+      return (
+        <>
+          <Button
+            mode="contained"
+            onPress={() => openPaymentPage(current.checkoutUrl)}
+            disabled={!current.checkoutUrl || submitting}
+            style={styles.actionButton}>
+            Open Payment Page
+          </Button>
+          <Button
+            mode="outlined"
+            onPress={handleCheckPayment}
+            loading={submitting}
+            disabled={submitting}
+            style={styles.actionButton}>
+            Check Payment
+          </Button>
+          <Button
+            mode="text"
+            onPress={handleCancel}
+            disabled={submitting}
+            textColor={theme.colors.error}
+            style={styles.actionButton}>
+            Cancel Checkout
+          </Button>
+        </>
+      );
+    }
+
+    if (current.status === 'held') {
+      return (
+        <Button
+          mode="contained"
+          onPress={handleConfirmReceipt}
+          loading={submitting}
+          disabled={submitting}
+          style={styles.actionButton}>
+          Confirm Received
+        </Button>
+      );
+    }
+
+    return null;
+  };
+
+  const renderSummary = (summary: ConversationListing) => (
+    <Card style={styles.card}>
+      {summary.imageURL && <Card.Cover source={{uri: summary.imageURL}} />}
+      <Card.Content>
+        <Text style={styles.title}>{summary.title}</Text>
+        <View style={styles.row}>
+          <Text style={styles.label}>Price</Text>
+          <Text style={styles.value}>{formatPrice(summary.price, summary.currency)}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Shipping</Text>
+          <Text style={styles.value}>
+            {shippingCost > 0 ? formatPrice(shippingCost, summary.currency) : 'Free'}
+          </Text>
+        </View>
+        <Divider style={styles.divider} />
+        <View style={styles.row}>
+          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalValue}>
+            {formatPrice(summary.price + shippingCost, summary.currency)}
+          </Text>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Appbar.Header style={styles.header}>
+        <Appbar.BackAction onPress={() => navigation.goBack()} />
+        <Appbar.Content title={escrow ? (isBuyer ? 'Purchase' : 'Sale') : 'Checkout'} />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView}>
+          {listing && renderSummary(listing)}
+
+          <Card style={styles.card}>
+            <Card.Content>
+              {escrow ? (
+                <>
+                  <Chip compact style={styles.statusChip}>
+                    {statusLabels[escrow.status]}
+                  </Chip>
+                  <Text style={styles.statusText}>{describeStatus(escrow)}</Text>
+                  {renderActions(escrow)}
+                </>
+              ) : (
+                <>
+                  <Text style={styles.statusText}>
+                    Your payment is held until you confirm the item arrived. If you don't,
+                    it is released to the seller {ESCROW_RELEASE_DAYS} days after payment.
+                  </Text>
+                  <Button
+                    mode="contained"
+                    onPress={handlePay}
+                    loading={submitting}
+                    disabled={!listing || submitting}
+                    style={styles.actionButton}>
+                    {listing
+                      ? `Pay ${formatPrice(listing.price + shippingCost, listing.currency)}`
+                      : 'Pay'}
+                  </Button>
+                </>
+              )}
+            </Card.Content>
+          </Card>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    backgroundColor: theme.colors.surface,
+    elevation: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    margin: theme.spacing.md,
+    marginBottom: 0,
+    backgroundColor: theme.colors.surface,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginVertical: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.xs,
+  },
+  label: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
+  value: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+  },
+  divider: {
+    marginVertical: theme.spacing.sm,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+  statusChip: {
+    alignSelf: 'flex-start',
+    marginBottom: theme.spacing.sm,
+  },
+  statusText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    lineHeight: 20,
+    marginBottom: theme.spacing.md,
+  },
+  actionButton: {
+    marginBottom: theme.spacing.sm,
+  },
+});
+
+export default CheckoutScreen;
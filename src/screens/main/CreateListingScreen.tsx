@@ -1,9 +1,9 @@
 /**
  * Create Listing Screen
- * Interface for creating marketplace listings
+ * Interface for creating marketplace listings and editing existing ones
  */
 
-import React, {useState} from 'react';
+import React, {useState, useRef, useEffect} from 'react';
 import {
   View,
   StyleSheet,
@@ -19,18 +19,52 @@ import {
   Chip,
   IconButton,
   Appbar,
+  List,
+  ActivityIndicator,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
-import {useNavigation} from '@react-navigation/native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {launchImageLibrary} from 'react-native-image-picker';
 
 import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
-import {RootStackParamList} from '../../types';
+import {ListingSuggestion, MarketplaceItem, RootStackParamList} from '../../types';
 import {theme} from '../../utils/theme';
+import NetworkManager from '../../utils/network';
+import {isQuotaExceededError} from '../../services/ai';
 
 type CreateListingScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'CreateListing'>;
+type CreateListingScreenRouteProp = RouteProp<RootStackParamList, 'CreateListing'>;
+
+interface UploadedImage {
+  url: string;
+  // Unknown for images of listings created before paths were recorded
+  path?: string;
+}
+
+const categories = [
+  {key: 'cards', label: 'Trading Cards'},
+  {key: 'collectibles', label: 'Collectibles'},
+  {key: 'accessories', label: 'Accessories'},
+  {key: 'digital', label: 'Digital Items'},
+];
+
+const conditions = [
+  {key: 'new', label: 'New'},
+  {key: 'like-new', label: 'Like New'},
+  {key: 'good', label: 'Good'},
+  {key: 'fair', label: 'Fair'},
+  {key: 'poor', label: 'Poor'},
+];
+
+const suggestionFields: {key: keyof ListingSuggestion; label: string}[] = [
+  {key: 'title', label: 'Title'},
+  {key: 'description', label: 'Description'},
+  {key: 'category', label: 'Category'},
+  {key: 'condition', label: 'Condition'},
+  {key: 'tags', label: 'Tags'},
+];
 
 const CreateListingScreen: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -46,25 +80,67 @@ const CreateListingScreen: React.FC = () => {
   const [tags, setTags] = useState<string[]>([]);
   const [currentTag, setCurrentTag] = useState('');
   const [loading, setLoading] = useState(false);
+  const [aiHint, setAIHint] = useState('');
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestion, setSuggestion] = useState<ListingSuggestion | null>(null);
+  const [editingItem, setEditingItem] = useState<MarketplaceItem | null>(null);
+  const [loadingItem, setLoadingItem] = useState(false);
+  // Images uploaded for auto-fill, and those of the listing being edited, are
+  // reused when the listing is saved
+  const uploadedImagesRef = useRef<{[uri: string]: UploadedImage}>({});
 
   const navigation = useNavigation<CreateListingScreenNavigationProp>();
+  const route = useRoute<CreateListingScreenRouteProp>();
   const {user} = useAuth();
-  const {firestore, helpers} = useFirebase();
-
-  const categories = [
-    {key: 'cards', label: 'Trading Cards'},
-    {key: 'collectibles', label: 'Collectibles'},
-    {key: 'accessories', label: 'Accessories'},
-    {key: 'digital', label: 'Digital Items'},
-  ];
-
-  const conditions = [
-    {key: 'new', label: 'New'},
-    {key: 'like-new', label: 'Like New'},
-    {key: 'good', label: 'Good'},
-    {key: 'fair', label: 'Fair'},
-    {key: 'poor', label: 'Poor'},
-  ];
+  const {repository, helpers, ai} = useFirebase();
+
+  const editItemId = route.params?.itemId;
+
+  useEffect(() => {
+    if (editItemId) {
+      loadItem(editItemId);
+    }
+  }, [editItemId]);
+
+  const loadItem = async (itemId: string) => {
+    setLoadingItem(true);
+    try {
+      const item = await repository.marketplace.get(itemId);
+      if (!item || item.sellerId !== user?.uid) {
+        Alert.alert('Error', 'Listing not found');
+        navigation.goBack();
+        return;
+      }
+      if (item.status === 'sold') {
+        Alert.alert('Listing Sold', 'Sold listings cannot be edited. Relist the item first.');
+        navigation.goBack();
+        return;
+      }
+
+      setEditingItem(item);
+      setFormData({
+        title: item.title,
+        description: item.description,
+        price: String(item.price),
+        currency: item.currency,
+        category: item.category,
+        condition: item.condition,
+        shippingCost: item.shipping && item.shipping.cost > 0 ? String(item.shipping.cost) : '',
+      });
+      setTags(item.tags || []);
+      setSelectedImages(item.images);
+      item.images.forEach((url, index) => {
+        const path = item.imagePaths ? item.imagePaths[index] : '';
+        uploadedImagesRef.current[url] = {url, path: path || undefined};
+      });
+    } catch (error) {
+      console.error('Error loading listing:', error);
+      Alert.alert('Error', 'Failed to load listing');
+      navigation.goBack();
+    } finally {
+      setLoadingItem(false);
+    }
+  };
 
   const updateFormData = (field: string, value: string) => {
     setFormData(prev => ({...prev, [field]: value}));
@@ -103,17 +179,100 @@ const CreateListingScreen: React.FC = () => {
     setSelectedImages(selectedImages.filter(image => image !== imageToRemove));
   };
 
-  const uploadImages = async (): Promise<string[]> => {
+  const uploadImages = async (): Promise<UploadedImage[]> => {
     if (selectedImages.length === 0) return [];
 
     const uploadPromises = selectedImages.map(async (imageUri, index) => {
-      const fileName = `listing_${Date.now()}_${index}.jpg`;
-      return await helpers.uploadFile(imageUri, fileName, 'marketplace');
+      if (!uploadedImagesRef.current[imageUri]) {
+        const fileName = `listing_${Date.now()}_${index}.jpg`;
+        const url = await helpers.uploadFile(imageUri, fileName, 'marketplace');
+        uploadedImagesRef.current[imageUri] = {url, path: `marketplace/${fileName}`};
+      }
+      return uploadedImagesRef.current[imageUri];
     });
 
     return await Promise.all(uploadPromises);
   };
 
+  const handleAutoFill = async () => {
+    if (selectedImages.length === 0 && !aiHint.trim()) {
+      Alert.alert('Auto-fill', 'Add a photo or describe the item first');
+      return;
+    }
+
+    if (NetworkManager.isOffline()) {
+      Alert.alert('No Connection', 'Auto-fill needs an internet connection.');
+      return;
+    }
+
+    setSuggesting(true);
+    try {
+      const uploadedImages = await uploadImages();
+      const result = await ai.suggestListing({
+        hint: aiHint.trim(),
+        imageUrls: uploadedImages.map(image => image.url),
+        categories,
+        conditions,
+      });
+
+      if (Object.keys(result).length === 0) {
+        Alert.alert('Auto-fill', "The assistant couldn't make any suggestions for this item.");
+        setSuggestion(null);
+      } else {
+        setSuggestion(result);
+      }
+    } catch (error) {
+      if (isQuotaExceededError(error)) {
+        Alert.alert('AI Limit Reached', (error as Error).message);
+      } else {
+        console.error('Error suggesting listing:', error);
+        Alert.alert('Error', 'Failed to auto-fill the listing. Please try again.');
+      }
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const applySuggestion = (current: ListingSuggestion, field: keyof ListingSuggestion) => {
+    if (field === 'tags') {
+      const suggestedTags = current.tags || [];
+      setTags(prev => [...prev, ...suggestedTags.filter(tag => !prev.includes(tag))]);
+    } else if (current[field]) {
+      updateFormData(field, current[field] as string);
+    }
+  };
+
+  const acceptSuggestion = (field: keyof ListingSuggestion) => {
+    if (!suggestion) return;
+
+    applySuggestion(suggestion, field);
+    const remaining = {...suggestion};
+    delete remaining[field];
+    setSuggestion(Object.keys(remaining).length > 0 ? remaining : null);
+  };
+
+  const acceptAllSuggestions = () => {
+    if (!suggestion) return;
+
+    suggestionFields.forEach(field => applySuggestion(suggestion, field.key));
+    setSuggestion(null);
+  };
+
+  const describeSuggestion = (field: keyof ListingSuggestion): string => {
+    if (!suggestion) return '';
+
+    switch (field) {
+      case 'category':
+        return categories.find(option => option.key === suggestion.category)?.label || '';
+      case 'condition':
+        return conditions.find(option => option.key === suggestion.condition)?.label || '';
+      case 'tags':
+        return (suggestion.tags || []).map(tag => `#${tag}`).join(' ');
+      default:
+        return suggestion[field] || '';
+    }
+  };
+
   const validateForm = () => {
     if (!formData.title.trim()) {
       Alert.alert('Error', 'Please enter a title for your listing');
@@ -138,44 +297,84 @@ const CreateListingScreen: React.FC = () => {
     return true;
   };
 
-  const handleCreateListing = async () => {
+  const handleSaveListing = async () => {
     if (!validateForm() || !user) return;
 
+    const offline = NetworkManager.isOffline();
+    if (offline && selectedImages.some(uri => !uploadedImagesRef.current[uri])) {
+      Alert.alert(
+        'No Connection',
+        'New photos can only be uploaded while online. Remove them or try again later.'
+      );
+      return;
+    }
+
     setLoading(true);
     try {
-      // Upload images
-      const imageUrls = await uploadImages();
+      // Upload images (already uploaded ones are reused, so this works offline)
+      const uploadedImages = await uploadImages();
 
-      // Create listing object
-      const listingData = {
+      const fields = {
         title: formData.title.trim(),
         description: formData.description.trim(),
         price: Number(formData.price),
         currency: formData.currency,
-        sellerId: user.uid,
-        sellerName: user.displayName || 'Anonymous',
-        images: imageUrls,
+        images: uploadedImages.map(image => image.url),
+        imagePaths: uploadedImages.map(image => image.path || ''),
         category: formData.category,
-        condition: formData.condition,
-        status: 'available',
-        createdAt: helpers.timestamp(),
-        updatedAt: helpers.timestamp(),
+        condition: formData.condition as MarketplaceItem['condition'],
         tags: tags,
         shipping: {
           cost: Number(formData.shippingCost) || 0,
-          methods: ['Standard Shipping'],
-          locations: ['United States'],
+          methods: editingItem?.shipping?.methods || ['Standard Shipping'],
+          locations: editingItem?.shipping?.locations || ['United States'],
         },
       };
 
-      // Save listing to Firestore
-      await firestore
-        .collection('marketplace')
-        .add(listingData);
+      if (offline) {
+        // Saved by NetworkManager once back online
+        if (editingItem) {
+          await NetworkManager.addToOfflineQueue('update_listing', {
+            itemId: editingItem.id,
+            updates: fields,
+          });
+        } else {
+          await NetworkManager.addToOfflineQueue('create_listing', {
+            item: {...fields, sellerId: user.uid, sellerName: user.displayName || 'Anonymous'},
+          });
+        }
+
+        Alert.alert(
+          'Saved Offline',
+          editingItem
+            ? 'Your changes will be saved when you are back online.'
+            : 'Your listing will be published when you are back online.',
+          [
+            {
+              text: 'OK',
+              onPress: () => navigation.goBack(),
+            },
+          ]
+        );
+        return;
+      }
+
+      // Save listing through the data layer
+      if (editingItem) {
+        await repository.marketplace.update(editingItem.id, fields);
+      } else {
+        await repository.marketplace.create({
+          ...fields,
+          sellerId: user.uid,
+          sellerName: user.displayName || 'Anonymous',
+        });
+      }
 
       Alert.alert(
         'Success',
-        'Your listing has been created successfully!',
+        editingItem
+          ? 'Your listing has been updated.'
+          : 'Your listing has been created successfully!',
         [
           {
             text: 'OK',
@@ -185,21 +384,101 @@ const CreateListingScreen: React.FC = () => {
       );
 
     } catch (error) {
-      console.error('Error creating listing:', error);
-      Alert.alert('Error', 'Failed to create listing. Please try again.');
+      console.error('Error saving listing:', error);
+      Alert.alert(
+        'Error',
+        editingItem
+          ? 'Failed to update listing. Please try again.'
+          : 'Failed to create listing. Please try again.'
+      );
     } finally {
       setLoading(false);
     }
   };
 
+  const getSaveButtonLabel = () => {
+    if (editingItem) {
+      return loading ? 'Saving Changes...' : 'Save Changes';
+    }
+    return loading ? 'Creating Listing...' : 'Create Listing';
+  };
+
+  if (loadingItem) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Appbar.Header style={styles.header}>
+          <Appbar.BackAction onPress={() => navigation.goBack()} />
+          <Appbar.Content title="Edit Listing" />
+        </Appbar.Header>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <Appbar.Header style={styles.header}>
         <Appbar.BackAction onPress={() => navigation.goBack()} />
-        <Appbar.Content title="Create Listing" />
+        <Appbar.Content title={editItemId ? 'Edit Listing' : 'Create Listing'} />
       </Appbar.Header>
 
       <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+        {/* AI Auto-fill */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>Auto-fill with AI</Text>
+            <TextInput
+              label="Describe the item in a few words (optional)"
+              value={aiHint}
+              onChangeText={setAIHint}
+              mode="outlined"
+              maxLength={150}
+              style={styles.input}
+              disabled={loading || suggesting}
+            />
+            <Button
+              mode="outlined"
+              icon="auto-fix"
+              onPress={handleAutoFill}
+              loading={suggesting}
+              disabled={loading || suggesting}>
+              {suggesting ? 'Looking at your item...' : 'Auto-fill with AI'}
+            </Button>
+            <Text style={[styles.helperText, styles.autoFillHint]}>
+              Uses your photos below. You choose which suggestions to keep.
+            </Text>
+
+            {suggestion && (
+              <View style={styles.suggestions}>
+                {suggestionFields
+                  .filter(field => suggestion[field.key] !== undefined)
+                  .map(field => (
+                    <List.Item
+                      key={field.key}
+                      title={field.label}
+                      titleStyle={styles.suggestionTitle}
+                      description={describeSuggestion(field.key)}
+                      descriptionNumberOfLines={3}
+                      right={() => (
+                        <Button compact onPress={() => acceptSuggestion(field.key)}>
+                          Use
+                        </Button>
+                      )}
+                    />
+                  ))}
+                <View style={styles.suggestionActions}>
+                  <Button onPress={() => setSuggestion(null)}>Dismiss</Button>
+                  <Button mode="contained" onPress={acceptAllSuggestions}>
+                    Use All
+                  </Button>
+                </View>
+              </View>
+            )}
+          </Card.Content>
+        </Card>
+
         {/* Basic Info */}
         <Card style={styles.card}>
           <Card.Content>
@@ -389,12 +668,12 @@ const CreateListingScreen: React.FC = () => {
         <View style={styles.createButtonContainer}>
           <Button
             mode="contained"
-            onPress={handleCreateListing}
+            onPress={handleSaveListing}
             loading={loading}
             disabled={loading}
             style={styles.createButton}
             contentStyle={styles.createButtonContent}>
-            {loading ? 'Creating Listing...' : 'Create Listing'}
+            {getSaveButtonLabel()}
           </Button>
         </View>
       </ScrollView>
@@ -411,6 +690,11 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.surface,
     elevation: 4,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -504,6 +788,20 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.sm,
     backgroundColor: theme.colors.primary,
   },
+  autoFillHint: {
+    marginTop: theme.spacing.sm,
+  },
+  suggestions: {
+    marginTop: theme.spacing.md,
+  },
+  suggestionTitle: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+  },
+  suggestionActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
   createButtonContainer: {
     padding: theme.spacing.md,
     paddingBottom: theme.spacing.xl,
@@ -3,7 +3,7 @@
  * Interface for creating new social posts
  */
 
-import React, {useState} from 'react';
+import React, {useState, useEffect, useRef} from 'react';
 import {
   View,
   StyleSheet,
@@ -19,6 +19,8 @@ import {
   Chip,
   IconButton,
   Appbar,
+  Portal,
+  Dialog,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import {useNavigation} from '@react-navigation/native';
@@ -27,11 +29,21 @@ import {launchImageLibrary} from 'react-native-image-picker';
 
 import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
-import {RootStackParamList} from '../../types';
+import {Post, RootStackParamList} from '../../types';
 import {theme} from '../../utils/theme';
+import NetworkManager from '../../utils/network';
+import {
+  MAX_POST_CANDIDATES,
+  POST_LENGTHS,
+  POST_TONES,
+  isCancelledError,
+  isQuotaExceededError,
+} from '../../services/ai';
 
 type CreatePostScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'CreatePost'>;
 
+const MAX_CONTENT_LENGTH = 2000;
+
 const CreatePostScreen: React.FC = () => {
   const [content, setContent] = useState('');
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
@@ -40,10 +52,26 @@ const CreatePostScreen: React.FC = () => {
   const [postType, setPostType] = useState<'text' | 'image' | 'poll' | 'article'>('text');
   const [visibility, setVisibility] = useState<'public' | 'followers' | 'private'>('public');
   const [loading, setLoading] = useState(false);
+  const [aiDialogVisible, setAIDialogVisible] = useState(false);
+  const [aiTopic, setAITopic] = useState('');
+  const [aiTone, setAITone] = useState(POST_TONES[0].key);
+  const [aiLength, setAILength] = useState(POST_LENGTHS[1].key);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [candidateIndex, setCandidateIndex] = useState(0);
+  const [generating, setGenerating] = useState(false);
+  const aiAbortRef = useRef<AbortController | null>(null);
 
   const navigation = useNavigation<CreatePostScreenNavigationProp>();
   const {user} = useAuth();
-  const {firestore, collections, helpers} = useFirebase();
+  const {repository, helpers, ai} = useFirebase();
+
+  useEffect(() => {
+    return () => aiAbortRef.current?.abort();
+  }, []);
+
+  // Posts that started from an AI draft keep the badge even after edits
+  const isAIDraft = candidates.length > 0;
+  const publishedType: Post['type'] = isAIDraft ? 'ai-generated' : postType;
 
   const handleAddTag = () => {
     if (currentTag.trim() && !tags.includes(currentTag.trim())) {
@@ -107,31 +135,55 @@ const CreatePostScreen: React.FC = () => {
       return;
     }
 
+    if (NetworkManager.isOffline() && selectedImages.length > 0) {
+      Alert.alert('No Connection', 'Images can only be uploaded while online. Remove them or try again later.');
+      return;
+    }
+
     setLoading(true);
     try {
+      if (NetworkManager.isOffline()) {
+        // Text-only posts are published by NetworkManager once back online
+        await NetworkManager.addToOfflineQueue('create_post', {
+          post: {
+            content: content.trim(),
+            authorId: user.uid,
+            authorName: user.displayName || 'Anonymous',
+            authorAvatar: user.photoURL || undefined,
+            images: [],
+            type: publishedType,
+            visibility: visibility,
+            tags: tags,
+          },
+        });
+
+        Alert.alert(
+          'Saved Offline',
+          'Your post will be published when you are back online.',
+          [
+            {
+              text: 'OK',
+              onPress: () => navigation.goBack(),
+            },
+          ]
+        );
+        return;
+      }
+
       // Upload images if any
       const imageUrls = await uploadImages();
 
-      // Create post object
-      const postData = {
+      // Save post through the data layer
+      await repository.posts.create({
         content: content.trim(),
         authorId: user.uid,
         authorName: user.displayName || 'Anonymous',
-        authorAvatar: user.photoURL || null,
-        timestamp: helpers.timestamp(),
-        likes: [],
-        comments: [],
-        shares: 0,
+        authorAvatar: user.photoURL || undefined,
         images: imageUrls,
-        type: postType,
+        type: publishedType,
         visibility: visibility,
         tags: tags,
-      };
-
-      // Save post to Firestore
-      const postRef = await firestore
-        .collection(collections.posts)
-        .add(postData);
+      });
 
       Alert.alert(
         'Success',
@@ -152,24 +204,93 @@ const CreatePostScreen: React.FC = () => {
     }
   };
 
-  const handleGenerateAIPost = async () => {
-    if (!content.trim()) {
+  const handleGenerateAIPost = () => {
+    if (NetworkManager.isOffline()) {
+      Alert.alert('No Connection', 'AI drafts need an internet connection.');
+      return;
+    }
+
+    // Until a draft exists, whatever was typed is the topic
+    if (!isAIDraft) {
+      setAITopic(content.trim());
+    }
+    setAIDialogVisible(true);
+  };
+
+  // Edits made to the draft on screen stay with it when another one is shown
+  const withEditedCandidate = () =>
+    candidates.map((candidate, index) => (index === candidateIndex ? content : candidate));
+
+  const generateDraft = async () => {
+    if (!aiTopic.trim()) {
       Alert.alert('Error', 'Please enter a topic or prompt for AI generation');
       return;
     }
 
-    setLoading(true);
+    const contentBefore = content;
+    const savedCandidates = withEditedCandidate();
+    setAIDialogVisible(false);
+    setGenerating(true);
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    let draft = '';
+
     try {
-      // This would call your Gemini AI function to generate content
-      Alert.alert('AI Generation', 'AI post generation feature coming soon');
+      const response = await ai.draftPost(
+        {
+          topic: aiTopic.trim(),
+          postType,
+          tags,
+          tone: aiTone,
+          length: aiLength,
+          previousDrafts: savedCandidates,
+        },
+        text => {
+          draft = text.slice(0, MAX_CONTENT_LENGTH);
+          setContent(draft);
+        },
+        controller.signal
+      );
+      draft = response.response.trim().slice(0, MAX_CONTENT_LENGTH);
     } catch (error) {
-      console.error('Error generating AI post:', error);
-      Alert.alert('Error', 'Failed to generate AI post');
+      if (isQuotaExceededError(error)) {
+        Alert.alert('AI Limit Reached', (error as Error).message);
+      } else if (!isCancelledError(error)) {
+        console.error('Error generating AI post:', error);
+        Alert.alert('Error', 'Failed to generate AI post');
+      }
+      draft = draft.trim();
     } finally {
-      setLoading(false);
+      aiAbortRef.current = null;
+      setGenerating(false);
+    }
+
+    if (draft) {
+      setContent(draft);
+      setCandidateIndex(savedCandidates.length);
+      setCandidates([...savedCandidates, draft]);
+    } else {
+      setContent(contentBefore);
     }
   };
 
+  const stopGenerating = () => {
+    aiAbortRef.current?.abort();
+  };
+
+  const selectCandidate = (index: number) => {
+    const savedCandidates = withEditedCandidate();
+    setCandidates(savedCandidates);
+    setCandidateIndex(index);
+    setContent(savedCandidates[index]);
+  };
+
+  const discardDrafts = () => {
+    setCandidates([]);
+    setCandidateIndex(0);
+    setContent(aiTopic);
+  };
+
   const postTypeOptions = [
     {key: 'text', label: 'Text', icon: 'text'},
     {key: 'image', label: 'Image', icon: 'image'},
@@ -188,11 +309,15 @@ const CreatePostScreen: React.FC = () => {
       <Appbar.Header style={styles.header}>
         <Appbar.BackAction onPress={() => navigation.goBack()} />
         <Appbar.Content title="Create Post" />
-        <Appbar.Action
-          icon="robot"
-          onPress={handleGenerateAIPost}
-          disabled={loading}
-        />
+        {generating ? (
+          <Appbar.Action icon="stop-circle" onPress={stopGenerating} />
+        ) : (
+          <Appbar.Action
+            icon="robot"
+            onPress={handleGenerateAIPost}
+            disabled={loading}
+          />
+        )}
       </Appbar.Header>
 
       <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
@@ -206,17 +331,69 @@ const CreatePostScreen: React.FC = () => {
               mode="outlined"
               multiline
               numberOfLines={6}
-              maxLength={2000}
+              maxLength={MAX_CONTENT_LENGTH}
               style={styles.contentInput}
               theme={{colors: {primary: theme.colors.primary}}}
-              disabled={loading}
+              disabled={loading || generating}
             />
             <Text style={styles.characterCount}>
-              {content.length}/2000 characters
+              {content.length}/{MAX_CONTENT_LENGTH} characters
             </Text>
           </Card.Content>
         </Card>
 
+        {/* AI Drafts */}
+        {(isAIDraft || generating) && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>
+                  {generating
+                    ? 'Drafting...'
+                    : `AI Draft ${candidateIndex + 1} of ${candidates.length}`}
+                </Text>
+                {candidates.length > 1 && (
+                  <View style={styles.candidateSwitcher}>
+                    <IconButton
+                      icon="chevron-left"
+                      size={20}
+                      onPress={() => selectCandidate(candidateIndex - 1)}
+                      disabled={generating || candidateIndex === 0}
+                    />
+                    <IconButton
+                      icon="chevron-right"
+                      size={20}
+                      onPress={() => selectCandidate(candidateIndex + 1)}
+                      disabled={generating || candidateIndex === candidates.length - 1}
+                    />
+                  </View>
+                )}
+              </View>
+              <Text style={styles.helperText}>
+                Edit the draft freely. It will be published as an AI Generated post.
+              </Text>
+              <View style={styles.draftActions}>
+                <Button
+                  mode="outlined"
+                  icon="refresh"
+                  onPress={handleGenerateAIPost}
+                  disabled={generating || loading || candidates.length >= MAX_POST_CANDIDATES}
+                  compact>
+                  Another Draft
+                </Button>
+                <Button
+                  mode="text"
+                  onPress={discardDrafts}
+                  disabled={generating || loading}
+                  textColor={theme.colors.error}
+                  compact>
+                  Discard
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+
         {/* Post Type Selection */}
         <Card style={styles.card}>
           <Card.Content>
@@ -345,13 +522,63 @@ const CreatePostScreen: React.FC = () => {
             mode="contained"
             onPress={handleCreatePost}
             loading={loading}
-            disabled={!content.trim() || loading}
+            disabled={!content.trim() || loading || generating}
             style={styles.createButton}
             contentStyle={styles.createButtonContent}>
             {loading ? 'Creating Post...' : 'Create Post'}
           </Button>
         </View>
       </ScrollView>
+
+      <Portal>
+        <Dialog visible={aiDialogVisible} onDismiss={() => setAIDialogVisible(false)}>
+          <Dialog.Title>Draft with AI</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Topic or prompt"
+              value={aiTopic}
+              onChangeText={setAITopic}
+              mode="outlined"
+              multiline
+              maxLength={500}
+              style={styles.topicInput}
+              theme={{colors: {primary: theme.colors.primary}}}
+            />
+            <Text style={styles.sectionTitle}>Tone</Text>
+            <View style={styles.optionsContainer}>
+              {POST_TONES.map(option => (
+                <Chip
+                  key={option.key}
+                  selected={aiTone === option.key}
+                  onPress={() => setAITone(option.key)}
+                  style={[styles.optionChip, aiTone === option.key && styles.selectedChip]}>
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+            <Text style={styles.sectionTitle}>Length</Text>
+            <View style={styles.optionsContainer}>
+              {POST_LENGTHS.map(option => (
+                <Chip
+                  key={option.key}
+                  selected={aiLength === option.key}
+                  onPress={() => setAILength(option.key)}
+                  style={[styles.optionChip, aiLength === option.key && styles.selectedChip]}>
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setAIDialogVisible(false)}>Cancel</Button>
+            <Button
+              onPress={generateDraft}
+              disabled={!aiTopic.trim() || candidates.length >= MAX_POST_CANDIDATES}>
+              {isAIDraft ? 'Another Draft' : 'Generate'}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </SafeAreaView>
   );
 };
@@ -451,6 +678,19 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.sm,
     backgroundColor: theme.colors.primary,
   },
+  candidateSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  draftActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.sm,
+  },
+  topicInput: {
+    backgroundColor: theme.colors.surface,
+    marginBottom: theme.spacing.md,
+  },
   createButtonContainer: {
     padding: theme.spacing.md,
     paddingBottom: theme.spacing.xl,
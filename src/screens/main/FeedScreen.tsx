@@ -27,6 +27,7 @@ import {useFirebase} from '../../contexts/FirebaseContext';
 import PostCard from '../../components/PostCard';
 import {Post, RootStackParamList} from '../../types';
 import {theme} from '../../utils/theme';
+import NetworkManager from '../../utils/network';
 
 type FeedScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -40,7 +41,7 @@ const FeedScreen: React.FC = () => {
 
   const navigation = useNavigation<FeedScreenNavigationProp>();
   const {user} = useAuth();
-  const {firestore, collections} = useFirebase();
+  const {repository} = useFirebase();
 
   const filters = [
     {key: 'all', label: 'All Posts'},
@@ -60,58 +61,29 @@ const FeedScreen: React.FC = () => {
     }
 
     try {
-      let query = firestore
-        .collection(collections.posts)
-        .where('visibility', 'in', ['public', 'followers'])
-        .orderBy('timestamp', 'desc')
-        .limit(50);
+      let loadedPosts: Post[];
 
       // Apply filter
       if (selectedFilter === 'following') {
         // Get user's following list first
-        const userDoc = await firestore
-          .collection(collections.users)
-          .doc(user.uid)
-          .get();
-        
-        const userData = userDoc.data();
-        const following = userData?.following || [];
-        
-        if (following.length > 0) {
-          query = firestore
-            .collection(collections.posts)
-            .where('authorId', 'in', following.slice(0, 10)) // Firestore 'in' limit
-            .orderBy('timestamp', 'desc')
-            .limit(50);
-        } else {
+        const profile = await repository.users.get(user.uid);
+        const following = profile?.following || [];
+
+        if (following.length === 0) {
           setPosts([]);
           setFilteredPosts([]);
           return;
         }
+
+        loadedPosts = await repository.posts.list({authorIds: following});
       } else if (selectedFilter === 'ai') {
-        query = firestore
-          .collection(collections.posts)
-          .where('type', '==', 'ai-generated')
-          .where('visibility', 'in', ['public', 'followers'])
-          .orderBy('timestamp', 'desc')
-          .limit(50);
+        loadedPosts = await repository.posts.list({type: 'ai-generated'});
       } else if (selectedFilter === 'articles') {
-        query = firestore
-          .collection(collections.posts)
-          .where('type', '==', 'article')
-          .where('visibility', 'in', ['public', 'followers'])
-          .orderBy('timestamp', 'desc')
-          .limit(50);
+        loadedPosts = await repository.posts.list({type: 'article'});
+      } else {
+        loadedPosts = await repository.posts.list();
       }
 
-      const postsSnapshot = await query.get();
-
-      const loadedPosts: Post[] = postsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        timestamp: doc.data().timestamp.toDate(),
-      })) as Post[];
-
       setPosts(loadedPosts);
       applySearchFilter(loadedPosts, searchQuery);
     } catch (error) {
@@ -166,18 +138,16 @@ const FeedScreen: React.FC = () => {
     if (!user) return;
 
     try {
-      const postRef = firestore.collection(collections.posts).doc(postId);
-      
-      if (isLiked) {
-        // Remove like
-        await postRef.update({
-          likes: firestore.FieldValue.arrayRemove(user.uid),
+      if (NetworkManager.isOffline()) {
+        // Replayed by NetworkManager once back online
+        await NetworkManager.addToOfflineQueue(isLiked ? 'unlike_post' : 'like_post', {
+          postId,
+          uid: user.uid,
         });
+      } else if (isLiked) {
+        await repository.posts.unlike(postId, user.uid);
       } else {
-        // Add like
-        await postRef.update({
-          likes: firestore.FieldValue.arrayUnion(user.uid),
-        });
+        await repository.posts.like(postId, user.uid);
       }
 
       // Update local state
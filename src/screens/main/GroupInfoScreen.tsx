@@ -0,0 +1,396 @@
+/**
+ * Group Info Screen
+ * Shows a group conversation's members; admins can rename the group, change
+ * its photo, add or remove members and manage admin roles
+ */
+
+import React, {useState, useEffect} from 'react';
+import {View, StyleSheet, ScrollView, Alert, TouchableOpacity} from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  Appbar,
+  Avatar,
+  List,
+  Portal,
+  Dialog,
+  ActivityIndicator,
+} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {launchImageLibrary} from 'react-native-image-picker';
+
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import UserPicker from '../../components/UserPicker';
+import {Conversation, RootStackParamList, User} from '../../types';
+import {theme} from '../../utils/theme';
+
+type GroupInfoScreenRouteProp = RouteProp<RootStackParamList, 'GroupInfo'>;
+type GroupInfoScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'GroupInfo'>;
+
+const GroupInfoScreen: React.FC = () => {
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [renameVisible, setRenameVisible] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [addVisible, setAddVisible] = useState(false);
+  const [candidates, setCandidates] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const route = useRoute<GroupInfoScreenRouteProp>();
+  const navigation = useNavigation<GroupInfoScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository, helpers} = useFirebase();
+
+  const {conversationId} = route.params;
+
+  useEffect(() => {
+    return repository.conversations.subscribe(
+      conversationId,
+      loadedConversation => {
+        setConversation(loadedConversation);
+        setLoading(false);
+      },
+      error => {
+        console.error('Error loading group:', error);
+        Alert.alert('Error', 'Failed to load group');
+        setLoading(false);
+      }
+    );
+  }, [conversationId]);
+
+  const isAdmin = !!user && !!conversation?.admins.includes(user.uid);
+
+  // Runs a membership change, surfacing failures the same way for every action
+  const runGroupAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error updating group:', error);
+      Alert.alert('Error', error?.code === 'conversations/last-admin' ? error.message : errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!user || !newTitle.trim()) return;
+
+    setRenameVisible(false);
+    await runGroupAction(
+      () => repository.conversations.updateGroup(conversationId, user.uid, {title: newTitle.trim()}),
+      'Failed to rename group'
+    );
+  };
+
+  const handleChangePhoto = () => {
+    if (!user) return;
+
+    launchImageLibrary({mediaType: 'photo', quality: 0.8, selectionLimit: 1}, response => {
+      const uri = response.assets?.[0]?.uri;
+      if (!uri) return;
+
+      runGroupAction(async () => {
+        const avatarURL = await helpers.uploadFile(uri, `group_${Date.now()}.jpg`, 'groups');
+        await repository.conversations.updateGroup(conversationId, user.uid, {avatarURL});
+      }, 'Failed to change group photo');
+    });
+  };
+
+  const openAddMembers = async () => {
+    if (!user || !conversation) return;
+
+    setSelectedIds([]);
+    setAddVisible(true);
+    try {
+      const following = await repository.users.listFollowing(user.uid);
+      setCandidates(following.filter(candidate => !conversation.participants.includes(candidate.uid)));
+    } catch (error) {
+      console.error('Error loading users:', error);
+    }
+  };
+
+  const toggleCandidate = (uid: string) => {
+    setSelectedIds(prev =>
+      prev.includes(uid) ? prev.filter(selectedId => selectedId !== uid) : [...prev, uid]
+    );
+  };
+
+  const handleAddMembers = async () => {
+    if (!user || selectedIds.length === 0) return;
+
+    setAddVisible(false);
+    await runGroupAction(
+      () => repository.conversations.addMembers(conversationId, user.uid, selectedIds),
+      'Failed to add members'
+    );
+  };
+
+  const handleMemberPress = (memberId: string) => {
+    if (!user || !conversation || !isAdmin || memberId === user.uid) return;
+
+    const memberIsAdmin = conversation.admins.includes(memberId);
+    const memberName = conversation.participantInfo[memberId]?.displayName || 'this member';
+
+    Alert.alert(memberName, undefined, [
+      {
+        text: memberIsAdmin ? 'Remove as Admin' : 'Make Admin',
+        onPress: () =>
+          runGroupAction(
+            () => repository.conversations.setAdmin(conversationId, user.uid, memberId, !memberIsAdmin),
+            'Failed to update admin role'
+          ),
+      },
+      {
+        text: 'Remove from Group',
+        style: 'destructive',
+        onPress: () =>
+          runGroupAction(
+            () => repository.conversations.removeMember(conversationId, user.uid, memberId),
+            'Failed to remove member'
+          ),
+      },
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  const handleLeave = () => {
+    if (!user) return;
+
+    Alert.alert('Leave Group', 'You will stop receiving messages from this group.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () =>
+          runGroupAction(async () => {
+            await repository.conversations.leave(conversationId, user.uid);
+            navigation.popToTop();
+          }, 'Failed to leave group'),
+      },
+    ]);
+  };
+
+  if (loading || !conversation) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Appbar.Header style={styles.header}>
+          <Appbar.BackAction onPress={() => navigation.goBack()} />
+          <Appbar.Content title="Group Info" />
+        </Appbar.Header>
+        <View style={styles.loadingContainer}>
+          {loading ? (
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          ) : (
+            <Text style={styles.emptyText}>This group no longer exists</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Appbar.Header style={styles.header}>
+        <Appbar.BackAction onPress={() => navigation.goBack()} />
+        <Appbar.Content title="Group Info" />
+        {isAdmin && (
+          <Appbar.Action
+            icon="pencil"
+            onPress={() => {
+              setNewTitle(conversation.title || '');
+              setRenameVisible(true);
+            }}
+            disabled={saving}
+          />
+        )}
+      </Appbar.Header>
+
+      <ScrollView style={styles.scrollView}>
+        {/* Group Details */}
+        <Card style={styles.card}>
+          <Card.Content style={styles.detailsContent}>
+            <TouchableOpacity onPress={handleChangePhoto} disabled={!isAdmin || saving}>
+              {conversation.avatarURL ? (
+                <Avatar.Image size={80} source={{uri: conversation.avatarURL}} />
+              ) : (
+                <Avatar.Icon size={80} icon="account-group" style={styles.groupAvatar} />
+              )}
+            </TouchableOpacity>
+            <Text style={styles.groupTitle}>{conversation.title || 'Group'}</Text>
+            <Text style={styles.memberCount}>
+              {conversation.participants.length} members
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Members */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Members</Text>
+              {isAdmin && (
+                <Button mode="outlined" onPress={openAddMembers} disabled={saving} compact>
+                  Add
+                </Button>
+              )}
+            </View>
+
+            {conversation.participants.map(memberId => {
+              const info = conversation.participantInfo[memberId];
+              return (
+                <List.Item
+                  key={memberId}
+                  title={`${info?.displayName || 'Unknown User'}${memberId === user?.uid ? ' (You)' : ''}`}
+                  titleStyle={styles.memberName}
+                  description={conversation.admins.includes(memberId) ? 'Admin' : undefined}
+                  left={() =>
+                    info?.photoURL ? (
+                      <Avatar.Image size={40} source={{uri: info.photoURL}} />
+                    ) : (
+                      <Avatar.Icon size={40} icon="account" style={styles.memberAvatar} />
+                    )
+                  }
+                  onPress={() => handleMemberPress(memberId)}
+                  disabled={!isAdmin || memberId === user?.uid || saving}
+                />
+              );
+            })}
+          </Card.Content>
+        </Card>
+
+        <View style={styles.buttonContainer}>
+          <Button
+            mode="outlined"
+            icon="exit-to-app"
+            onPress={handleLeave}
+            disabled={saving}
+            textColor={theme.colors.error}
+            style={styles.leaveButton}>
+            Leave Group
+          </Button>
+        </View>
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={renameVisible} onDismiss={() => setRenameVisible(false)}>
+          <Dialog.Title>Rename Group</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              value={newTitle}
+              onChangeText={setNewTitle}
+              mode="outlined"
+              maxLength={60}
+              autoFocus
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRenameVisible(false)}>Cancel</Button>
+            <Button onPress={handleRename} disabled={!newTitle.trim()}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={addVisible} onDismiss={() => setAddVisible(false)}>
+          <Dialog.Title>Add Members</Dialog.Title>
+          <Dialog.ScrollArea style={styles.dialogScrollArea}>
+            <ScrollView>
+              <UserPicker
+                users={candidates}
+                selectedIds={selectedIds}
+                onToggle={toggleCandidate}
+                emptyText="Everyone you follow is already in this group"
+              />
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setAddVisible(false)}>Cancel</Button>
+            <Button onPress={handleAddMembers} disabled={selectedIds.length === 0}>
+              Add
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    backgroundColor: theme.colors.surface,
+    elevation: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.onBackground,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    margin: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+  },
+  detailsContent: {
+    alignItems: 'center',
+  },
+  groupAvatar: {
+    backgroundColor: theme.colors.primary,
+  },
+  groupTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginTop: theme.spacing.md,
+  },
+  memberCount: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    marginTop: theme.spacing.xs,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+  },
+  memberName: {
+    color: theme.colors.onSurface,
+  },
+  memberAvatar: {
+    backgroundColor: theme.colors.primary,
+  },
+  buttonContainer: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xl,
+  },
+  leaveButton: {
+    borderColor: theme.colors.error,
+  },
+  dialogScrollArea: {
+    maxHeight: 360,
+    paddingHorizontal: 0,
+  },
+});
+
+export default GroupInfoScreen;
@@ -3,7 +3,7 @@
  * Detailed view of marketplace items
  */
 
-import React, {useState, useEffect} from 'react';
+import React, {useState, useCallback} from 'react';
 import {
   View,
   StyleSheet,
@@ -21,12 +21,14 @@ import {
   Appbar,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
-import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {useNavigation, useRoute, useFocusEffect, RouteProp} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 
 import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
-import {MarketplaceItem, RootStackParamList} from '../../types';
+import {isCheckoutHoldActive} from '../../services/escrow';
+import {canChangeListingStatus, canRelistListing, isListingExpired} from '../../services/repository';
+import {Escrow, ListingStatus, MarketplaceItem, RootStackParamList} from '../../types';
 import {theme} from '../../utils/theme';
 
 type ItemDetailsScreenRouteProp = RouteProp<RootStackParamList, 'ItemDetails'>;
@@ -35,33 +37,37 @@ type ItemDetailsScreenNavigationProp = NativeStackNavigationProp<RootStackParamL
 const ItemDetailsScreen: React.FC = () => {
   const [item, setItem] = useState<MarketplaceItem | null>(null);
   const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [contacting, setContacting] = useState(false);
+  // The pending Buy Now purchase holding the listing, when the user is part of it
+  const [purchase, setPurchase] = useState<Escrow | null>(null);
 
   const route = useRoute<ItemDetailsScreenRouteProp>();
   const navigation = useNavigation<ItemDetailsScreenNavigationProp>();
   const {user} = useAuth();
-  const {firestore} = useFirebase();
+  const {repository} = useFirebase();
 
   const {itemId} = route.params;
 
-  useEffect(() => {
-    loadItem();
-  }, [itemId]);
+  // Reloaded on focus so changes made in the edit screen show up
+  useFocusEffect(
+    useCallback(() => {
+      loadItem();
+    }, [itemId])
+  );
 
   const loadItem = async () => {
     try {
-      const itemDoc = await firestore
-        .collection('marketplace')
-        .doc(itemId)
-        .get();
-
-      if (itemDoc.exists) {
-        const itemData = itemDoc.data() as MarketplaceItem;
-        setItem({
-          id: itemDoc.id,
-          ...itemData,
-          createdAt: itemData.createdAt,
-          updatedAt: itemData.updatedAt,
-        });
+      const loadedItem = await repository.marketplace.get(itemId);
+
+      if (loadedItem) {
+        setItem(loadedItem);
+        const escrow = loadedItem.reservedByEscrowId
+          ? await repository.escrows.get(loadedItem.reservedByEscrowId)
+          : null;
+        setPurchase(
+          escrow && (escrow.buyerId === user?.uid || escrow.sellerId === user?.uid) ? escrow : null
+        );
       } else {
         Alert.alert('Error', 'Item not found');
         navigation.goBack();
@@ -81,19 +87,102 @@ const ItemDetailsScreen: React.FC = () => {
     }).format(price);
   };
 
-  const handleContactSeller = () => {
-    if (!item) return;
-    Alert.alert('Contact Seller', 'Messaging feature coming soon');
+  const handleContactSeller = async () => {
+    if (!item || !user) return;
+
+    setContacting(true);
+    try {
+      const conversationId = await repository.conversations.findOrCreateForListing(user.uid, item);
+      navigation.navigate('Chat', {conversationId});
+    } catch (error) {
+      console.error('Error contacting seller:', error);
+      Alert.alert('Error', 'Failed to start a conversation with the seller');
+    } finally {
+      setContacting(false);
+    }
   };
 
   const handleMakeOffer = () => {
     if (!item) return;
-    Alert.alert('Make Offer', 'Trading feature coming soon');
+    navigation.navigate('Trade', {receiverId: item.sellerId, itemId: item.id});
   };
 
   const handleBuyNow = () => {
     if (!item) return;
-    Alert.alert('Buy Now', 'Purchase feature coming soon');
+    navigation.navigate('Checkout', {itemId: item.id});
+  };
+
+  const handleEdit = () => {
+    if (!item) return;
+    navigation.navigate('CreateListing', {itemId: item.id});
+  };
+
+  const runOwnerAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setUpdating(true);
+    try {
+      await action();
+      await loadItem();
+    } catch (error) {
+      console.error('Error updating listing:', error);
+      Alert.alert('Error', failureMessage);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleChangeStatus = (status: ListingStatus) => {
+    if (!item) return;
+
+    const update = () =>
+      runOwnerAction(
+        () => repository.marketplace.setStatus(item.id, status),
+        'Failed to update listing status'
+      );
+
+    if (status === 'sold') {
+      Alert.alert(
+        'Mark as Sold',
+        'Sold listings are hidden from the marketplace and can no longer be edited.',
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {text: 'Mark Sold', onPress: update},
+        ]
+      );
+    } else {
+      update();
+    }
+  };
+
+  const handleRelist = () => {
+    if (!item) return;
+    runOwnerAction(() => repository.marketplace.relist(item.id), 'Failed to relist item');
+  };
+
+  const handleDelete = () => {
+    if (!item) return;
+
+    Alert.alert(
+      'Delete Listing',
+      'Are you sure you want to delete this listing? This action cannot be undone.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setUpdating(true);
+            try {
+              await repository.marketplace.delete(item.id);
+              navigation.goBack();
+            } catch (error) {
+              console.error('Error deleting listing:', error);
+              Alert.alert('Error', 'Failed to delete listing');
+              setUpdating(false);
+            }
+          },
+        },
+      ]
+    );
   };
 
   if (loading) {
@@ -115,6 +204,14 @@ const ItemDetailsScreen: React.FC = () => {
   }
 
   const isOwner = user?.uid === item.sellerId;
+  const expired = isListingExpired(item);
+  // Someone else's unpaid checkout holds the listing until it lapses
+  const checkoutHeld = isCheckoutHoldActive(item);
+  const statusLabel = expired ? 'expired' : checkoutHeld ? 'reserved' : item.status;
+  // Trades and purchases holding the listing rely on it staying as agreed
+  const held =
+    checkoutHeld ||
+    (item.status === 'reserved' && !!(item.reservedByTradeId || item.reservedByEscrowId));
 
   return (
     <SafeAreaView style={styles.container}>
@@ -169,9 +266,9 @@ const ItemDetailsScreen: React.FC = () => {
                 icon="circle"
                 style={[
                   styles.metaChip,
-                  {backgroundColor: item.status === 'available' ? theme.colors.success : theme.colors.error}
+                  {backgroundColor: statusLabel === 'available' ? theme.colors.success : theme.colors.error}
                 ]}>
-                {item.status}
+                {statusLabel}
               </Chip>
             </View>
 
@@ -211,6 +308,18 @@ const ItemDetailsScreen: React.FC = () => {
                 <Text style={styles.sellerMeta}>⭐ 4.8 rating</Text>
               </View>
             </View>
+            <Button
+              mode="text"
+              icon="storefront-outline"
+              onPress={() =>
+                navigation.navigate('Marketplace', {
+                  sellerId: item.sellerId,
+                  sellerName: item.sellerName,
+                })
+              }
+              style={styles.sellerListingsButton}>
+              More from this seller
+            </Button>
           </Card.Content>
         </Card>
 
@@ -234,11 +343,13 @@ const ItemDetailsScreen: React.FC = () => {
       </ScrollView>
 
       {/* Action Buttons */}
-      {!isOwner && item.status === 'available' && (
+      {!isOwner && item.status === 'available' && !expired && !checkoutHeld && (
         <View style={styles.actionButtons}>
           <Button
             mode="outlined"
             onPress={handleContactSeller}
+            loading={contacting}
+            disabled={contacting}
             style={styles.actionButton}>
             Contact Seller
           </Button>
@@ -257,23 +368,80 @@ const ItemDetailsScreen: React.FC = () => {
         </View>
       )}
 
-      {isOwner && (
+      {purchase && (
         <View style={styles.actionButtons}>
           <Button
-            mode="outlined"
-            onPress={() => Alert.alert('Edit Listing', 'Edit feature coming soon')}
-            style={styles.actionButton}>
-            Edit Listing
-          </Button>
-          <Button
-            mode="outlined"
-            onPress={() => Alert.alert('Delete Listing', 'Delete feature coming soon')}
-            style={styles.actionButton}
-            textColor={theme.colors.error}>
-            Delete
+            mode="contained"
+            icon="shield-lock"
+            onPress={() => navigation.navigate('Checkout', {escrowId: purchase.id})}
+            style={styles.buyButton}>
+            {purchase.buyerId === user?.uid ? 'View Purchase' : 'View Sale'}
           </Button>
         </View>
       )}
+
+      {isOwner && (
+        <View style={styles.ownerActions}>
+          <View style={styles.ownerActionRow}>
+            {canRelistListing(item) ? (
+              <Button
+                mode="contained"
+                onPress={handleRelist}
+                disabled={updating}
+                style={styles.buyButton}>
+                Relist
+              </Button>
+            ) : (
+              <>
+                {canChangeListingStatus(item.status, 'reserved') && (
+                  <Button
+                    mode="outlined"
+                    onPress={() => handleChangeStatus('reserved')}
+                    disabled={updating}
+                    style={styles.actionButton}>
+                    Mark Reserved
+                  </Button>
+                )}
+                {item.status === 'reserved' && (
+                  <Button
+                    mode="outlined"
+                    onPress={() => handleChangeStatus('available')}
+                    disabled={updating}
+                    style={styles.actionButton}>
+                    Mark Available
+                  </Button>
+                )}
+                <Button
+                  mode="contained"
+                  onPress={() => handleChangeStatus('sold')}
+                  disabled={updating}
+                  style={styles.buyButton}>
+                  Mark Sold
+                </Button>
+              </>
+            )}
+          </View>
+          <View style={styles.ownerActionRow}>
+            {item.status !== 'sold' && !held && (
+              <Button
+                mode="outlined"
+                onPress={handleEdit}
+                disabled={updating}
+                style={styles.actionButton}>
+                Edit Listing
+              </Button>
+            )}
+            <Button
+              mode="outlined"
+              onPress={handleDelete}
+              disabled={updating}
+              style={styles.actionButton}
+              textColor={theme.colors.error}>
+              Delete
+            </Button>
+          </View>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -370,6 +538,10 @@ const styles = StyleSheet.create({
   sellerAvatar: {
     backgroundColor: theme.colors.primary,
   },
+  sellerListingsButton: {
+    alignSelf: 'flex-start',
+    marginTop: theme.spacing.sm,
+  },
   sellerDetails: {
     marginLeft: theme.spacing.md,
     flex: 1,
@@ -408,6 +580,16 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: theme.colors.outline,
   },
+  ownerActions: {
+    padding: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.outline,
+  },
+  ownerActionRow: {
+    flexDirection: 'row',
+    padding: theme.spacing.xs,
+  },
   actionButton: {
     flex: 1,
     marginHorizontal: theme.spacing.xs,
@@ -1,9 +1,9 @@
 /**
  * Marketplace Screen
- * Browse and search marketplace items
+ * Browse and search marketplace items with server-side filters and paging
  */
 
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useMemo, useRef, useCallback} from 'react';
 import {
   View,
   StyleSheet,
@@ -17,32 +17,73 @@ import {
   Searchbar,
   Chip,
   Card,
-  Button,
   Avatar,
   Appbar,
+  ActivityIndicator,
+  Badge,
+  Button,
+  Dialog,
+  Portal,
+  Switch,
+  TextInput,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
-import {useNavigation} from '@react-navigation/native';
+import {useNavigation, useRoute, useFocusEffect, RouteProp} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 
 import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
-import {MarketplaceItem, RootStackParamList} from '../../types';
+import MarketplaceFiltersSheet from '../../components/MarketplaceFiltersSheet';
+import {MarketplaceSearchCursor} from '../../services/repository';
+import {countActiveFilters, describeSearch} from '../../services/marketplaceSearch';
+import {MarketplaceItem, MarketplaceSearchQuery, RootStackParamList} from '../../types';
+import {PerformanceUtils} from '../../utils/performance';
 import {theme} from '../../utils/theme';
 
 type MarketplaceScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type MarketplaceScreenRouteProp = RouteProp<RootStackParamList, 'Marketplace'>;
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Everything the filters sheet controls; keywords and category have their own inputs
+const toFilters = (query: MarketplaceSearchQuery): MarketplaceSearchQuery => ({
+  minPrice: query.minPrice,
+  maxPrice: query.maxPrice,
+  currency: query.currency,
+  conditions: query.conditions,
+  shipping: query.shipping,
+  tags: query.tags,
+  sellerId: query.sellerId,
+  sort: query.sort,
+});
 
 const MarketplaceScreen: React.FC = () => {
+  const navigation = useNavigation<MarketplaceScreenNavigationProp>();
+  const route = useRoute<MarketplaceScreenRouteProp>();
+  const {user} = useAuth();
+  const {repository} = useFirebase();
+
   const [items, setItems] = useState<MarketplaceItem[]>([]);
-  const [filteredItems, setFilteredItems] = useState<MarketplaceItem[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [keywords, setKeywords] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [filters, setFilters] = useState<MarketplaceSearchQuery>({
+    sellerId: route.params?.sellerId,
+  });
+  const [filtersVisible, setFiltersVisible] = useState(false);
+  const [cursor, setCursor] = useState<MarketplaceSearchCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [saveDialogVisible, setSaveDialogVisible] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveNotify, setSaveNotify] = useState(true);
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [newMatchCount, setNewMatchCount] = useState(0);
 
-  const navigation = useNavigation<MarketplaceScreenNavigationProp>();
-  const {user} = useAuth();
-  const {firestore, collections} = useFirebase();
+  // Responses from superseded searches are dropped
+  const searchIdRef = useRef(0);
 
   const categories = [
     {key: 'all', label: 'All Items'},
@@ -52,7 +93,15 @@ const MarketplaceScreen: React.FC = () => {
     {key: 'digital', label: 'Digital Items'},
   ];
 
+  const query: MarketplaceSearchQuery = {
+    ...filters,
+    keywords,
+    category: selectedCategory,
+  };
+
   const loadItems = async (showRefreshing = false) => {
+    const searchId = ++searchIdRef.current;
+
     if (showRefreshing) {
       setRefreshing(true);
     } else {
@@ -60,68 +109,131 @@ const MarketplaceScreen: React.FC = () => {
     }
 
     try {
-      let query = firestore
-        .collection('marketplace')
-        .where('status', '==', 'available')
-        .orderBy('createdAt', 'desc')
-        .limit(50);
-
-      if (selectedCategory !== 'all') {
-        query = firestore
-          .collection('marketplace')
-          .where('category', '==', selectedCategory)
-          .where('status', '==', 'available')
-          .orderBy('createdAt', 'desc')
-          .limit(50);
-      }
+      const page = await repository.marketplace.search(query);
+      if (searchId !== searchIdRef.current) return;
 
-      const itemsSnapshot = await query.get();
-
-      const loadedItems: MarketplaceItem[] = itemsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt.toDate(),
-        updatedAt: doc.data().updatedAt.toDate(),
-      })) as MarketplaceItem[];
-
-      setItems(loadedItems);
-      applySearchFilter(loadedItems, searchQuery);
+      setItems(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
     } catch (error) {
       console.error('Error loading marketplace items:', error);
       Alert.alert('Error', 'Failed to load marketplace items');
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (searchId === searchIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
-  const applySearchFilter = (itemsToFilter: MarketplaceItem[], query: string) => {
-    if (!query.trim()) {
-      setFilteredItems(itemsToFilter);
-      return;
-    }
+  const loadMoreItems = async () => {
+    if (!hasMore || !cursor || loading || loadingMore) return;
 
-    const filtered = itemsToFilter.filter(item =>
-      item.title.toLowerCase().includes(query.toLowerCase()) ||
-      item.description.toLowerCase().includes(query.toLowerCase()) ||
-      item.sellerName.toLowerCase().includes(query.toLowerCase()) ||
-      item.tags?.some(tag => tag.toLowerCase().includes(query.toLowerCase()))
-    );
-    
-    setFilteredItems(filtered);
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await repository.marketplace.search(query, cursor);
+      if (searchId !== searchIdRef.current) return;
+
+      setItems(prev => [
+        ...prev,
+        ...page.items.filter(item => !prev.some(existing => existing.id === item.id)),
+      ]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more marketplace items:', error);
+    } finally {
+      setLoadingMore(false);
+    }
   };
 
   useEffect(() => {
     loadItems();
-  }, [selectedCategory]);
+  }, [selectedCategory, keywords, filters]);
+
+  // Opening the screen for another seller replaces the seller filter
+  useEffect(() => {
+    const sellerId = route.params?.sellerId;
+    if (sellerId !== undefined) {
+      setFilters(prev => (prev.sellerId === sellerId ? prev : {...prev, sellerId}));
+    }
+  }, [route.params?.sellerId]);
+
+  // Opening a saved search replaces the whole query
+  useEffect(() => {
+    const search = route.params?.search;
+    if (!search) return;
+
+    setSearchQuery(search.keywords || '');
+    setKeywords(search.keywords || '');
+    setSelectedCategory(search.category || 'all');
+    setFilters(toFilters(search));
+  }, [route.params?.search]);
+
+  const loadNewMatchCount = async () => {
+    if (!user) return;
+
+    try {
+      const searches = await repository.savedSearches.listForUser(user.uid);
+      setNewMatchCount(searches.reduce((total, search) => total + search.newMatchCount, 0));
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNewMatchCount();
+    }, [user])
+  );
 
   const onRefresh = () => {
     loadItems(true);
+    loadNewMatchCount();
+  };
+
+  const updateKeywords = useMemo(
+    () => PerformanceUtils.debounce((text: string) => setKeywords(text.trim()), SEARCH_DEBOUNCE_MS),
+    []
+  );
+
+  const handleSearch = (text: string) => {
+    setSearchQuery(text);
+    updateKeywords(text);
+  };
+
+  const handleApplyFilters = (nextQuery: MarketplaceSearchQuery) => {
+    setFilters(toFilters(nextQuery));
+    setFiltersVisible(false);
   };
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    applySearchFilter(items, query);
+  const openSaveDialog = () => {
+    setSaveName(describeSearch({...query, keywords: searchQuery.trim()}));
+    setSaveNotify(true);
+    setSaveDialogVisible(true);
+  };
+
+  const handleSaveSearch = async () => {
+    if (!user || !saveName.trim()) return;
+
+    setSavingSearch(true);
+    try {
+      await repository.savedSearches.create({
+        userId: user.uid,
+        name: saveName.trim(),
+        query: {...query, keywords: searchQuery.trim()},
+        notify: saveNotify,
+      });
+      setSaveDialogVisible(false);
+      Alert.alert('Search Saved', "We'll let you know when new listings match.");
+    } catch (error) {
+      console.error('Error saving search:', error);
+      Alert.alert('Error', 'Failed to save search');
+    } finally {
+      setSavingSearch(false);
+    }
   };
 
   const handleCategoryChange = (categoryKey: string) => {
@@ -191,11 +303,29 @@ const MarketplaceScreen: React.FC = () => {
 
   const keyExtractor = (item: MarketplaceItem) => item.id;
 
+  const activeFilterCount = countActiveFilters(filters);
+
   return (
     <SafeAreaView style={styles.container}>
       <Appbar.Header style={styles.header}>
         <Appbar.Content title="Marketplace" />
-        <Appbar.Action icon="filter" onPress={() => {}} />
+        <Appbar.Action icon="bookmark-plus-outline" onPress={openSaveDialog} />
+        <View>
+          <Appbar.Action
+            icon="bookmark-multiple-outline"
+            onPress={() => navigation.navigate('SavedSearches')}
+          />
+          {newMatchCount > 0 && (
+            <Badge size={16} style={styles.savedSearchBadge}>
+              {newMatchCount}
+            </Badge>
+          )}
+        </View>
+        <Appbar.Action icon="swap-horizontal" onPress={() => navigation.navigate('Trades')} />
+        <Appbar.Action
+          icon={activeFilterCount > 0 ? 'filter-check' : 'filter'}
+          onPress={() => setFiltersVisible(true)}
+        />
       </Appbar.Header>
 
       <Searchbar
@@ -218,7 +348,7 @@ const MarketplaceScreen: React.FC = () => {
       </View>
 
       <FlatList
-        data={filteredItems}
+        data={items}
         renderItem={renderItem}
         keyExtractor={keyExtractor}
         numColumns={2}
@@ -232,18 +362,66 @@ const MarketplaceScreen: React.FC = () => {
             tintColor={theme.colors.primary}
           />
         }
+        onEndReached={loadMoreItems}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.footerLoader} color={theme.colors.primary} />
+          ) : null
+        }
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyTitle}>No items found</Text>
-            <Text style={styles.emptySubtitle}>
-              {searchQuery
-                ? "Try adjusting your search terms"
-                : "Be the first to list an item for sale!"}
-            </Text>
-          </View>
+          loading ? (
+            <ActivityIndicator style={styles.footerLoader} color={theme.colors.primary} />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyTitle}>No items found</Text>
+              <Text style={styles.emptySubtitle}>
+                {searchQuery || activeFilterCount > 0
+                  ? "Try adjusting your search terms or filters"
+                  : "Be the first to list an item for sale!"}
+              </Text>
+            </View>
+          )
         }
       />
 
+      <MarketplaceFiltersSheet
+        visible={filtersVisible}
+        query={query}
+        sellerName={route.params?.sellerName}
+        onApply={handleApplyFilters}
+        onDismiss={() => setFiltersVisible(false)}
+      />
+
+      <Portal>
+        <Dialog visible={saveDialogVisible} onDismiss={() => setSaveDialogVisible(false)}>
+          <Dialog.Title>Save Search</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Name"
+              value={saveName}
+              onChangeText={setSaveName}
+              mode="outlined"
+              maxLength={60}
+              theme={{colors: {primary: theme.colors.primary}}}
+            />
+            <View style={styles.notifyRow}>
+              <Text style={styles.notifyLabel}>Notify me about new matches</Text>
+              <Switch value={saveNotify} onValueChange={setSaveNotify} />
+            </View>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setSaveDialogVisible(false)}>Cancel</Button>
+            <Button
+              onPress={handleSaveSearch}
+              loading={savingSearch}
+              disabled={!saveName.trim() || savingSearch}>
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       <FAB
         icon="plus"
         style={styles.fab}
@@ -263,6 +441,23 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.surface,
     elevation: 4,
   },
+  savedSearchBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: theme.colors.primary,
+  },
+  notifyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.md,
+  },
+  notifyLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.onSurface,
+  },
   searchbar: {
     margin: theme.spacing.md,
     backgroundColor: theme.colors.surface,
@@ -339,6 +534,9 @@ const styles = StyleSheet.create({
     color: theme.colors.onSurface,
     opacity: 0.8,
   },
+  footerLoader: {
+    paddingVertical: theme.spacing.lg,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
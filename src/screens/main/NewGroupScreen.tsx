@@ -0,0 +1,227 @@
+/**
+ * New Group Screen
+ * Creates a group conversation with a title, photo and members chosen from
+ * the people the user follows
+ */
+
+import React, {useState, useEffect} from 'react';
+import {View, StyleSheet, ScrollView, Alert, TouchableOpacity} from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  Appbar,
+  Avatar,
+  ActivityIndicator,
+} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {launchImageLibrary} from 'react-native-image-picker';
+
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import UserPicker from '../../components/UserPicker';
+import {RootStackParamList, User} from '../../types';
+import {theme} from '../../utils/theme';
+import NetworkManager from '../../utils/network';
+
+type NewGroupScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'NewGroup'>;
+
+const NewGroupScreen: React.FC = () => {
+  const [title, setTitle] = useState('');
+  const [avatarUri, setAvatarUri] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loadingCandidates, setLoadingCandidates] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const navigation = useNavigation<NewGroupScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository, helpers} = useFirebase();
+
+  useEffect(() => {
+    loadCandidates();
+  }, [user]);
+
+  const loadCandidates = async () => {
+    if (!user) return;
+
+    try {
+      setCandidates(await repository.users.listFollowing(user.uid));
+    } catch (error) {
+      console.error('Error loading users:', error);
+      Alert.alert('Error', 'Failed to load people you follow');
+    } finally {
+      setLoadingCandidates(false);
+    }
+  };
+
+  const toggleMember = (uid: string) => {
+    setSelectedIds(prev =>
+      prev.includes(uid) ? prev.filter(selectedId => selectedId !== uid) : [...prev, uid]
+    );
+  };
+
+  const handlePickAvatar = () => {
+    launchImageLibrary({mediaType: 'photo', quality: 0.8, selectionLimit: 1}, response => {
+      const uri = response.assets?.[0]?.uri;
+      if (uri) {
+        setAvatarUri(uri);
+      }
+    });
+  };
+
+  const handleCreateGroup = async () => {
+    if (!user) return;
+
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter a group name');
+      return;
+    }
+
+    if (selectedIds.length === 0) {
+      Alert.alert('Error', 'Please add at least one member');
+      return;
+    }
+
+    if (NetworkManager.isOffline()) {
+      Alert.alert('No Connection', 'Groups can only be created while online.');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const avatarURL = avatarUri
+        ? await helpers.uploadFile(avatarUri, `group_${Date.now()}.jpg`, 'groups')
+        : undefined;
+
+      const conversationId = await repository.conversations.createGroup(user.uid, {
+        title: title.trim(),
+        avatarURL,
+        memberIds: selectedIds,
+      });
+
+      navigation.replace('Chat', {conversationId});
+    } catch (error) {
+      console.error('Error creating group:', error);
+      Alert.alert('Error', 'Failed to create group. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Appbar.Header style={styles.header}>
+        <Appbar.BackAction onPress={() => navigation.goBack()} />
+        <Appbar.Content title="New Group" />
+      </Appbar.Header>
+
+      <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+        {/* Group Details */}
+        <Card style={styles.card}>
+          <Card.Content style={styles.detailsContent}>
+            <TouchableOpacity onPress={handlePickAvatar} disabled={creating}>
+              {avatarUri ? (
+                <Avatar.Image size={64} source={{uri: avatarUri}} />
+              ) : (
+                <Avatar.Icon size={64} icon="camera" style={styles.avatarPlaceholder} />
+              )}
+            </TouchableOpacity>
+            <TextInput
+              label="Group name"
+              value={title}
+              onChangeText={setTitle}
+              mode="outlined"
+              maxLength={60}
+              style={styles.titleInput}
+              theme={{colors: {primary: theme.colors.primary}}}
+              disabled={creating}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Members */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>
+              Members{selectedIds.length > 0 ? ` (${selectedIds.length} selected)` : ''}
+            </Text>
+            {loadingCandidates ? (
+              <ActivityIndicator color={theme.colors.primary} style={styles.loader} />
+            ) : (
+              <UserPicker
+                users={candidates}
+                selectedIds={selectedIds}
+                onToggle={toggleMember}
+                emptyText="Follow people to add them to a group"
+                disabled={creating}
+              />
+            )}
+          </Card.Content>
+        </Card>
+
+        <View style={styles.buttonContainer}>
+          <Button
+            mode="contained"
+            onPress={handleCreateGroup}
+            loading={creating}
+            disabled={creating || !title.trim() || selectedIds.length === 0}
+            style={styles.createButton}>
+            Create Group
+          </Button>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    backgroundColor: theme.colors.surface,
+    elevation: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    margin: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+  },
+  detailsContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatarPlaceholder: {
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  titleInput: {
+    flex: 1,
+    marginLeft: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  loader: {
+    marginVertical: theme.spacing.lg,
+  },
+  buttonContainer: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xl,
+  },
+  createButton: {
+    backgroundColor: theme.colors.primary,
+  },
+});
+
+export default NewGroupScreen;
@@ -28,6 +28,7 @@ import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
 import {User, Post, RootStackParamList} from '../../types';
 import {theme} from '../../utils/theme';
+import NetworkManager from '../../utils/network';
 
 type ProfileScreenRouteProp = RouteProp<RootStackParamList, 'Profile'>;
 type ProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Profile'>;
@@ -47,7 +48,7 @@ const ProfileScreen: React.FC = () => {
   const route = useRoute<ProfileScreenRouteProp>();
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const {user: currentUser, signOut} = useAuth();
-  const {firestore, collections} = useFirebase();
+  const {repository} = useFirebase();
 
   const userId = route.params?.userId || currentUser?.uid;
   const isOwnProfile = userId === currentUser?.uid;
@@ -69,21 +70,14 @@ const ProfileScreen: React.FC = () => {
 
     try {
       // Load user profile
-      const userDoc = await firestore
-        .collection(collections.users)
-        .doc(userId)
-        .get();
-
-      if (userDoc.exists) {
-        const userData = userDoc.data() as User;
-        setProfileUser({
-          uid: userDoc.id,
-          ...userData,
-        });
+      const loadedUser = await repository.users.get(userId);
+
+      if (loadedUser) {
+        setProfileUser(loadedUser);
 
         // Calculate stats
-        const followers = userData.followers || [];
-        const following = userData.following || [];
+        const followers = loadedUser.followers || [];
+        const following = loadedUser.following || [];
         
         setStats(prev => ({
           ...prev,
@@ -98,18 +92,7 @@ const ProfileScreen: React.FC = () => {
       }
 
       // Load user posts
-      const postsSnapshot = await firestore
-        .collection(collections.posts)
-        .where('authorId', '==', userId)
-        .orderBy('timestamp', 'desc')
-        .limit(20)
-        .get();
-
-      const posts: Post[] = postsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        timestamp: doc.data().timestamp.toDate(),
-      })) as Post[];
+      const posts = await repository.posts.listByAuthor(userId, 20);
 
       setUserPosts(posts);
       setStats(prev => ({
@@ -134,27 +117,20 @@ const ProfileScreen: React.FC = () => {
     if (!currentUser || !profileUser || isOwnProfile) return;
 
     try {
-      const currentUserRef = firestore.collection(collections.users).doc(currentUser.uid);
-      const profileUserRef = firestore.collection(collections.users).doc(profileUser.uid);
-
-      if (isFollowing) {
-        // Unfollow
-        await currentUserRef.update({
-          following: firestore.FieldValue.arrayRemove(profileUser.uid),
-        });
-        await profileUserRef.update({
-          followers: firestore.FieldValue.arrayRemove(currentUser.uid),
+      if (NetworkManager.isOffline()) {
+        // Replayed by NetworkManager once back online
+        await NetworkManager.addToOfflineQueue(isFollowing ? 'unfollow_user' : 'follow_user', {
+          uid: currentUser.uid,
+          targetUid: profileUser.uid,
         });
+        setIsFollowing(!isFollowing);
+        setStats(prev => ({...prev, followers: prev.followers + (isFollowing ? -1 : 1)}));
+      } else if (isFollowing) {
+        await repository.users.unfollow(currentUser.uid, profileUser.uid);
         setIsFollowing(false);
         setStats(prev => ({...prev, followers: prev.followers - 1}));
       } else {
-        // Follow
-        await currentUserRef.update({
-          following: firestore.FieldValue.arrayUnion(profileUser.uid),
-        });
-        await profileUserRef.update({
-          followers: firestore.FieldValue.arrayUnion(currentUser.uid),
-        });
+        await repository.users.follow(currentUser.uid, profileUser.uid);
         setIsFollowing(true);
         setStats(prev => ({...prev, followers: prev.followers + 1}));
       }
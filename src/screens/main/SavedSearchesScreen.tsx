@@ -0,0 +1,213 @@
+/**
+ * Saved Searches Screen
+ * Lists the user's saved marketplace searches with their new matches and
+ * alert settings
+ */
+
+import React, {useState, useCallback} from 'react';
+import {View, StyleSheet, FlatList, RefreshControl, Alert} from 'react-native';
+import {Text, List, Badge, IconButton, ActivityIndicator} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation, useFocusEffect} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import {describeSearch} from '../../services/marketplaceSearch';
+import {RootStackParamList, SavedSearch} from '../../types';
+import {theme} from '../../utils/theme';
+
+type SavedSearchesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'SavedSearches'>;
+
+const SavedSearchesScreen: React.FC = () => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const navigation = useNavigation<SavedSearchesScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository} = useFirebase();
+
+  const loadSearches = async () => {
+    if (!user) return;
+
+    try {
+      setSearches(await repository.savedSearches.listForUser(user.uid));
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSearches();
+    }, [user])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadSearches();
+  };
+
+  const openSearch = async (search: SavedSearch) => {
+    navigation.navigate('Marketplace', {search: search.query});
+
+    if (search.newMatchCount > 0) {
+      try {
+        await repository.savedSearches.markViewed(search.id);
+      } catch (error) {
+        console.error('Error marking saved search viewed:', error);
+      }
+    }
+  };
+
+  const toggleNotify = async (search: SavedSearch, notify: boolean) => {
+    setSearches(prev => prev.map(other => (other.id === search.id ? {...other, notify} : other)));
+
+    try {
+      await repository.savedSearches.update(search.id, {notify});
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      setSearches(prev =>
+        prev.map(other => (other.id === search.id ? {...other, notify: search.notify} : other))
+      );
+      Alert.alert('Error', 'Failed to update saved search');
+    }
+  };
+
+  const deleteSearch = (search: SavedSearch) => {
+    Alert.alert('Delete Saved Search', `Stop following "${search.name}"?`, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await repository.savedSearches.remove(search.id);
+            setSearches(prev => prev.filter(other => other.id !== search.id));
+          } catch (error) {
+            console.error('Error deleting saved search:', error);
+            Alert.alert('Error', 'Failed to delete saved search');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderSearch = ({item}: {item: SavedSearch}) => (
+    <List.Item
+      title={item.name}
+      titleStyle={[styles.searchTitle, item.newMatchCount > 0 && styles.unreadTitle]}
+      description={describeSearch(item.query)}
+      descriptionNumberOfLines={2}
+      onPress={() => openSearch(item)}
+      left={props => <List.Icon {...props} icon="magnify" />}
+      right={() => (
+        <View style={styles.rightContainer}>
+          {item.newMatchCount > 0 && <Badge style={styles.matchBadge}>{item.newMatchCount}</Badge>}
+          <IconButton
+            icon={item.notify ? 'bell' : 'bell-off-outline'}
+            size={20}
+            onPress={() => toggleNotify(item, !item.notify)}
+          />
+          <IconButton
+            icon="delete"
+            size={20}
+            iconColor={theme.colors.error}
+            onPress={() => deleteSearch(item)}
+          />
+        </View>
+      )}
+      style={styles.searchItem}
+    />
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator style={styles.loadingIndicator} size="large" color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={searches}
+        renderItem={renderSearch}
+        keyExtractor={item => item.id}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={[theme.colors.primary]}
+            tintColor={theme.colors.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyTitle}>No saved searches</Text>
+            <Text style={styles.emptySubtitle}>
+              Save a marketplace search to hear about new listings that match it
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loadingIndicator: {
+    marginTop: theme.spacing.xxl,
+  },
+  searchItem: {
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  searchTitle: {
+    color: theme.colors.onSurface,
+  },
+  unreadTitle: {
+    fontWeight: '700',
+  },
+  rightContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  matchBadge: {
+    backgroundColor: theme.colors.primary,
+    marginRight: theme.spacing.xs,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: theme.spacing.xxl,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.colors.onBackground,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    textAlign: 'center',
+    opacity: 0.7,
+    lineHeight: 20,
+  },
+});
+
+export default SavedSearchesScreen;
@@ -27,6 +27,7 @@ import {useAuth} from '../../contexts/AuthContext';
 import {useFirebase} from '../../contexts/FirebaseContext';
 import {UserSettings, RootStackParamList} from '../../types';
 import {theme} from '../../utils/theme';
+import NetworkManager from '../../utils/network';
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
 
@@ -45,18 +46,22 @@ const SettingsScreen: React.FC = () => {
       showEmail: false,
       showLocation: true,
       allowMessages: 'everyone',
+      readReceipts: true,
     },
     appearance: {
       theme: 'dark',
       language: 'en',
       fontSize: 'medium',
     },
+    ai: {
+      smartReplies: false,
+    },
   });
   const [loading, setLoading] = useState(false);
 
   const navigation = useNavigation<SettingsScreenNavigationProp>();
   const {user, signOut} = useAuth();
-  const {firestore, collections} = useFirebase();
+  const {repository} = useFirebase();
 
   useEffect(() => {
     loadSettings();
@@ -66,16 +71,9 @@ const SettingsScreen: React.FC = () => {
     if (!user) return;
 
     try {
-      const userDoc = await firestore
-        .collection(collections.users)
-        .doc(user.uid)
-        .get();
-
-      if (userDoc.exists) {
-        const userData = userDoc.data();
-        if (userData?.settings) {
-          setSettings(userData.settings);
-        }
+      const savedSettings = await repository.users.getSettings(user.uid);
+      if (savedSettings) {
+        setSettings(savedSettings);
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -87,13 +85,15 @@ const SettingsScreen: React.FC = () => {
 
     setLoading(true);
     try {
-      await firestore
-        .collection(collections.users)
-        .doc(user.uid)
-        .update({
+      if (NetworkManager.isOffline()) {
+        // Replayed by NetworkManager once back online
+        await NetworkManager.addToOfflineQueue('save_settings', {
+          uid: user.uid,
           settings: newSettings,
-          updatedAt: new Date(),
         });
+      } else {
+        await repository.users.saveSettings(user.uid, newSettings);
+      }
 
       setSettings(newSettings);
     } catch (error) {
@@ -137,6 +137,17 @@ const SettingsScreen: React.FC = () => {
     saveSettings(newSettings);
   };
 
+  const updateAISetting = (key: keyof NonNullable<UserSettings['ai']>, value: boolean) => {
+    const newSettings = {
+      ...settings,
+      ai: {
+        ...(settings.ai || {smartReplies: false}),
+        [key]: value,
+      },
+    };
+    saveSettings(newSettings);
+  };
+
   const handleDeleteAccount = () => {
     Alert.alert(
       'Delete Account',
@@ -318,6 +329,18 @@ const SettingsScreen: React.FC = () => {
               )}
             />
             
+            <List.Item
+              title="Read Receipts"
+              description="Let others see when you have read their messages"
+              right={() => (
+                <Switch
+                  value={settings.privacy.readReceipts !== false}
+                  onValueChange={(value) => updatePrivacySetting('readReceipts', value)}
+                  disabled={loading}
+                />
+              )}
+            />
+            
             <List.Item
               title="Allow Messages"
               description={`Currently: ${settings.privacy.allowMessages}`}
@@ -364,10 +387,37 @@ const SettingsScreen: React.FC = () => {
           </Card.Content>
         </Card>
 
+        {/* Assistant */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>Assistant</Text>
+
+            <List.Item
+              title="Smart Replies"
+              description="Suggest replies to new messages, using your AI allowance"
+              right={() => (
+                <Switch
+                  value={settings.ai?.smartReplies === true}
+                  onValueChange={(value) => updateAISetting('smartReplies', value)}
+                  disabled={loading}
+                />
+              )}
+            />
+          </Card.Content>
+        </Card>
+
         {/* Account */}
         <Card style={styles.card}>
           <Card.Content>
             <Text style={styles.sectionTitle}>Account</Text>
+
+            <List.Item
+              title="AI Usage"
+              description="Tokens and requests used with the assistant"
+              left={() => <List.Icon icon="robot" />}
+              right={() => <List.Icon icon="chevron-right" />}
+              onPress={() => navigation.navigate('AIUsage')}
+            />
             
             <List.Item
               title="Export Data"
@@ -0,0 +1,856 @@
+/**
+ * Trade Screen
+ * Builds trade proposals from both parties' listings and shows an existing
+ * trade with its offer history, replies, counter-offers, shipping and disputes
+ */
+
+import React, {useState, useEffect} from 'react';
+import {View, StyleSheet, ScrollView, Alert} from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  Chip,
+  List,
+  Appbar,
+  Avatar,
+  Divider,
+  ActivityIndicator,
+  Portal,
+  Dialog,
+} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+
+import TradeShippingCard from '../../components/TradeShippingCard';
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import {TradeOffer} from '../../services/repository';
+import {getTradeActions} from '../../services/tradeStateMachine';
+import {MarketplaceItem, RootStackParamList, Trade, TradeMessage, User} from '../../types';
+import {theme} from '../../utils/theme';
+
+type TradeScreenRouteProp = RouteProp<RootStackParamList, 'Trade'>;
+type TradeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Trade'>;
+
+const LISTINGS_LIMIT = 50;
+
+const messageLabels: {[type in TradeMessage['type']]: string} = {
+  offer: 'Offer',
+  'counter-offer': 'Counter-offer',
+  acceptance: 'Accepted',
+  rejection: 'Rejected',
+  cancellation: 'Cancelled',
+  completion: 'Completed',
+  shipment: 'Shipped',
+  receipt: 'Received',
+  dispute: 'Dispute',
+  resolution: 'Dispute withdrawn',
+  message: 'Message',
+};
+
+const messageIcons: {[type in TradeMessage['type']]: string} = {
+  offer: 'swap-horizontal',
+  'counter-offer': 'swap-horizontal-bold',
+  acceptance: 'check-circle',
+  rejection: 'close-circle',
+  cancellation: 'cancel',
+  completion: 'handshake',
+  shipment: 'truck-delivery',
+  receipt: 'package-variant-closed-check',
+  dispute: 'alert-octagon',
+  resolution: 'shield-check',
+  message: 'message-text',
+};
+
+const formatPrice = (price: number, currency: string) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency || 'USD',
+  }).format(price);
+};
+
+// Items already in the offer stay selectable even if they left the listing search
+const mergeItems = (listings: MarketplaceItem[], offered: MarketplaceItem[]) => [
+  ...offered,
+  ...listings.filter(item => !offered.some(offeredItem => offeredItem.id === item.id)),
+];
+
+// Trades cancelled before anything shipped never reach the shipping stage
+const hasShippingStage = (trade: Trade) =>
+  trade.status === 'accepted' ||
+  trade.status === 'disputed' ||
+  Object.keys(trade.shipments || {}).length > 0;
+
+const TradeScreen: React.FC = () => {
+  const [trade, setTrade] = useState<Trade | null>(null);
+  const [profiles, setProfiles] = useState<{[uid: string]: User}>({});
+  const [myListings, setMyListings] = useState<MarketplaceItem[]>([]);
+  const [theirListings, setTheirListings] = useState<MarketplaceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [composing, setComposing] = useState(false);
+  const [selectedMine, setSelectedMine] = useState<string[]>([]);
+  const [selectedTheirs, setSelectedTheirs] = useState<string[]>([]);
+  const [cashAmount, setCashAmount] = useState('');
+  const [cashFromMe, setCashFromMe] = useState(true);
+  const [note, setNote] = useState('');
+  const [messageText, setMessageText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [disputeDialogVisible, setDisputeDialogVisible] = useState(false);
+  const [disputeReason, setDisputeReason] = useState('');
+
+  const route = useRoute<TradeScreenRouteProp>();
+  const navigation = useNavigation<TradeScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository, helpers} = useFirebase();
+
+  const {tradeId, receiverId, itemId} = route.params;
+
+  const counterpartyId = trade
+    ? trade.initiatorId === user?.uid
+      ? trade.receiverId
+      : trade.initiatorId
+    : receiverId;
+  const isInitiator = !trade || trade.initiatorId === user?.uid;
+  const myOfferItems = trade ? (isInitiator ? trade.initiatorItems : trade.receiverItems) : [];
+  const theirOfferItems = trade ? (isInitiator ? trade.receiverItems : trade.initiatorItems) : [];
+  const awaitingMe =
+    !!trade && trade.status === 'pending' && trade.awaitingResponseFrom === user?.uid;
+  const availableActions = trade && user ? getTradeActions(trade, user.uid) : [];
+
+  useEffect(() => {
+    if (!tradeId) {
+      setComposing(true);
+      setSelectedTheirs(itemId ? [itemId] : []);
+      setLoading(false);
+      return;
+    }
+
+    return repository.trades.subscribe(
+      tradeId,
+      loadedTrade => {
+        setTrade(loadedTrade);
+        setLoading(false);
+      },
+      error => {
+        console.error('Error loading trade:', error);
+        Alert.alert('Error', 'Failed to load trade');
+        setLoading(false);
+      }
+    );
+  }, [tradeId]);
+
+  useEffect(() => {
+    if (!user || !counterpartyId) return;
+
+    repository.users
+      .getMany([user.uid, counterpartyId])
+      .then(users => {
+        const byUid: {[uid: string]: User} = {};
+        users.forEach(profile => {
+          byUid[profile.uid] = profile;
+        });
+        setProfiles(byUid);
+      })
+      .catch(error => console.error('Error loading trade parties:', error));
+  }, [user, counterpartyId]);
+
+  useEffect(() => {
+    if (composing) {
+      loadListings();
+    }
+  }, [composing, counterpartyId]);
+
+  const loadListings = async () => {
+    if (!user || !counterpartyId) return;
+
+    try {
+      const [mine, theirs] = await Promise.all([
+        repository.marketplace.search({sellerId: user.uid}, null, LISTINGS_LIMIT),
+        repository.marketplace.search({sellerId: counterpartyId}, null, LISTINGS_LIMIT),
+      ]);
+      setMyListings(mine.items);
+      setTheirListings(theirs.items);
+    } catch (error) {
+      console.error('Error loading listings:', error);
+      Alert.alert('Error', 'Failed to load listings');
+    }
+  };
+
+  const getName = (uid?: string) => {
+    if (uid && uid === user?.uid) return 'You';
+    return (uid && profiles[uid]?.displayName) || 'The other trader';
+  };
+
+  const toggleSelection = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(selectedId => selectedId !== id) : [...ids, id];
+
+  const startCounterOffer = () => {
+    if (!trade || !user) return;
+
+    setSelectedMine(myOfferItems.map(item => item.id));
+    setSelectedTheirs(theirOfferItems.map(item => item.id));
+    setCashAmount(trade.cashTopUp ? String(trade.cashTopUp.amount) : '');
+    setCashFromMe(!trade.cashTopUp || trade.cashTopUp.payerId === user.uid);
+    setNote('');
+    setComposing(true);
+  };
+
+  const buildOffer = (): TradeOffer | null => {
+    if (!user || !counterpartyId) return null;
+
+    const mine = mergeItems(myListings, myOfferItems).filter(item =>
+      selectedMine.includes(item.id)
+    );
+    const theirs = mergeItems(theirListings, theirOfferItems).filter(item =>
+      selectedTheirs.includes(item.id)
+    );
+    const amount = Number(cashAmount) || 0;
+    const currency = [...theirs, ...mine].map(item => item.currency)[0] || 'USD';
+
+    return {
+      initiatorItems: isInitiator ? mine : theirs,
+      receiverItems: isInitiator ? theirs : mine,
+      cashTopUp:
+        amount > 0
+          ? {payerId: cashFromMe ? user.uid : counterpartyId, amount, currency}
+          : undefined,
+    };
+  };
+
+  const handleSendOffer = async () => {
+    const offer = buildOffer();
+    if (!offer || !user || !counterpartyId) return;
+
+    if (offer.initiatorItems.length === 0 && offer.receiverItems.length === 0) {
+      Alert.alert('Empty Offer', 'Pick at least one item to trade');
+      return;
+    }
+    if (cashAmount.trim() && isNaN(Number(cashAmount))) {
+      Alert.alert('Error', 'Please enter a valid cash amount');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (trade) {
+        await repository.trades.counter(trade.id, user.uid, offer, note);
+      } else {
+        const newTradeId = await repository.trades.create(
+          {initiatorId: user.uid, receiverId: counterpartyId, ...offer},
+          note
+        );
+        navigation.setParams({tradeId: newTradeId, receiverId: undefined, itemId: undefined});
+      }
+      setComposing(false);
+      setNote('');
+    } catch (error) {
+      console.error('Error sending trade offer:', error);
+      Alert.alert('Error', (error as Error).message || 'Failed to send offer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const runTradeAction = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating trade:', error);
+      Alert.alert('Error', (error as Error).message || 'Failed to update trade');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!trade || !user) return;
+
+    Alert.alert(
+      'Accept Trade',
+      'Every listing in the offer is reserved until the trade is completed or cancelled.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Accept',
+          onPress: () => runTradeAction(() => repository.trades.accept(trade.id, user.uid)),
+        },
+      ]
+    );
+  };
+
+  const handleReject = () => {
+    if (!trade || !user) return;
+
+    Alert.alert('Reject Trade', 'The other trader will be told the offer was rejected.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Reject',
+        style: 'destructive',
+        onPress: () => runTradeAction(() => repository.trades.reject(trade.id, user.uid)),
+      },
+    ]);
+  };
+
+  // Withdrawing an open offer or calling off an accepted or disputed trade
+  // frees the listings
+  const handleCancel = () => {
+    if (!trade || !user) return;
+
+    const withdrawing = trade.status === 'pending';
+    const cancelMessage =
+      trade.status === 'disputed'
+        ? 'This ends the dispute. Reserved listings go back on sale for both of you.'
+        : 'Reserved listings go back on sale for both of you.';
+    Alert.alert(
+      withdrawing ? 'Withdraw Offer' : 'Cancel Trade',
+      withdrawing ? 'The other trader will no longer be able to accept this offer.' : cancelMessage,
+      [
+        {text: 'Keep', style: 'cancel'},
+        {
+          text: withdrawing ? 'Withdraw' : 'Cancel Trade',
+          style: 'destructive',
+          onPress: () => runTradeAction(() => repository.trades.cancel(trade.id, user.uid)),
+        },
+      ]
+    );
+  };
+
+  const uploadTradePhoto = async (photoUri: string | undefined, step: string) => {
+    if (!photoUri || !trade || !user) return undefined;
+
+    const fileName = `${trade.id}_${user.uid}_${step}_${Date.now()}.jpg`;
+    return helpers.uploadFile(photoUri, fileName, 'trades');
+  };
+
+  const handleShip = (shipment: {carrier: string; trackingNumber: string; photoUri?: string}) => {
+    if (!trade || !user) return;
+
+    runTradeAction(async () => {
+      const photoURL = await uploadTradePhoto(shipment.photoUri, 'shipped');
+      await repository.trades.markShipped(trade.id, user.uid, {
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        photoURL,
+      });
+    });
+  };
+
+  const handleConfirmReceived = (photoUri?: string) => {
+    if (!trade || !user) return;
+
+    Alert.alert('Confirm Receipt', 'Only confirm once the items have arrived as described.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Confirm',
+        onPress: () =>
+          runTradeAction(async () => {
+            const photoURL = await uploadTradePhoto(photoUri, 'received');
+            await repository.trades.confirmReceived(trade.id, user.uid, photoURL);
+          }),
+      },
+    ]);
+  };
+
+  const handleOpenDispute = async () => {
+    if (!trade || !user || !disputeReason.trim()) return;
+
+    setDisputeDialogVisible(false);
+    await runTradeAction(() =>
+      repository.trades.openDispute(trade.id, user.uid, disputeReason.trim())
+    );
+    setDisputeReason('');
+  };
+
+  const handleWithdrawDispute = () => {
+    if (!trade || !user) return;
+
+    Alert.alert('Withdraw Dispute', 'The trade continues where it left off.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Withdraw',
+        onPress: () =>
+          runTradeAction(() => repository.trades.withdrawDispute(trade.id, user.uid)),
+      },
+    ]);
+  };
+
+  const handleSendMessage = async () => {
+    if (!trade || !user || !messageText.trim()) return;
+
+    const content = messageText.trim();
+    setMessageText('');
+    await runTradeAction(() => repository.trades.addMessage(trade.id, user.uid, content));
+  };
+
+  const renderOfferItem = (item: MarketplaceItem) => (
+    <List.Item
+      key={item.id}
+      title={item.title}
+      titleStyle={styles.itemTitle}
+      description={`${formatPrice(item.price, item.currency)} · ${item.condition}`}
+      left={() =>
+        item.images[0] ? (
+          <Avatar.Image size={40} source={{uri: item.images[0]}} style={styles.itemImage} />
+        ) : (
+          <Avatar.Icon size={40} icon="cards" style={styles.itemImage} />
+        )
+      }
+      onPress={() => navigation.navigate('ItemDetails', {itemId: item.id})}
+    />
+  );
+
+  const renderSelectableItem = (item: MarketplaceItem, selected: boolean, onToggle: () => void) => (
+    <List.Item
+      key={item.id}
+      title={item.title}
+      titleStyle={styles.itemTitle}
+      description={formatPrice(item.price, item.currency)}
+      left={props => (
+        <List.Icon
+          {...props}
+          icon={selected ? 'checkbox-marked' : 'checkbox-blank-outline'}
+          color={selected ? theme.colors.primary : props.color}
+        />
+      )}
+      onPress={onToggle}
+    />
+  );
+
+  const renderCash = () => {
+    if (!trade?.cashTopUp) return null;
+
+    const {payerId, amount, currency} = trade.cashTopUp;
+    return (
+      <Text style={styles.cashText}>
+        {getName(payerId)} {payerId === user?.uid ? 'add' : 'adds'} {formatPrice(amount, currency)}
+      </Text>
+    );
+  };
+
+  const renderComposer = () => {
+    const mine = mergeItems(myListings, myOfferItems);
+    const theirs = mergeItems(theirListings, theirOfferItems);
+
+    return (
+      <>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>You Give</Text>
+            {mine.length === 0 ? (
+              <Text style={styles.emptyText}>You have no available listings</Text>
+            ) : (
+              mine.map(item =>
+                renderSelectableItem(item, selectedMine.includes(item.id), () =>
+                  setSelectedMine(prev => toggleSelection(prev, item.id))
+                )
+              )
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>You Get from {getName(counterpartyId)}</Text>
+            {theirs.length === 0 ? (
+              <Text style={styles.emptyText}>They have no available listings</Text>
+            ) : (
+              theirs.map(item =>
+                renderSelectableItem(item, selectedTheirs.includes(item.id), () =>
+                  setSelectedTheirs(prev => toggleSelection(prev, item.id))
+                )
+              )
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>Cash Top-up (optional)</Text>
+            <TextInput
+              label="Amount"
+              value={cashAmount}
+              onChangeText={setCashAmount}
+              mode="outlined"
+              keyboardType="numeric"
+              style={styles.input}
+            />
+            <View style={styles.optionsContainer}>
+              <Chip
+                selected={cashFromMe}
+                onPress={() => setCashFromMe(true)}
+                style={[styles.optionChip, cashFromMe && styles.selectedChip]}>
+                I add cash
+              </Chip>
+              <Chip
+                selected={!cashFromMe}
+                onPress={() => setCashFromMe(false)}
+                style={[styles.optionChip, !cashFromMe && styles.selectedChip]}>
+                They add cash
+              </Chip>
+            </View>
+            <TextInput
+              label="Note (optional)"
+              value={note}
+              onChangeText={setNote}
+              mode="outlined"
+              multiline
+              maxLength={500}
+              style={styles.input}
+            />
+          </Card.Content>
+        </Card>
+
+        <View style={styles.actions}>
+          {trade && (
+            <Button
+              mode="outlined"
+              onPress={() => setComposing(false)}
+              disabled={submitting}
+              style={styles.actionButton}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            mode="contained"
+            onPress={handleSendOffer}
+            loading={submitting}
+            disabled={submitting}
+            style={styles.actionButton}>
+            {trade ? 'Send Counter-offer' : 'Send Proposal'}
+          </Button>
+        </View>
+      </>
+    );
+  };
+
+  const renderTrade = (current: Trade) => (
+    <>
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.statusRow}>
+            <Chip icon="swap-horizontal" style={styles.statusChip}>
+              {current.status}
+            </Chip>
+            {current.status === 'pending' && (
+              <Text style={styles.waitingText}>
+                {awaitingMe
+                  ? 'Waiting for your reply'
+                  : `Waiting for ${getName(current.awaitingResponseFrom)}`}
+              </Text>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>You Give</Text>
+          {myOfferItems.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing</Text>
+          ) : (
+            myOfferItems.map(renderOfferItem)
+          )}
+
+          <Divider style={styles.divider} />
+
+          <Text style={styles.sectionTitle}>You Get</Text>
+          {theirOfferItems.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing</Text>
+          ) : (
+            theirOfferItems.map(renderOfferItem)
+          )}
+
+          {renderCash()}
+        </Card.Content>
+      </Card>
+
+      {current.dispute && (
+        <Card style={[styles.card, styles.disputeCard]}>
+          <Card.Content>
+            <Text style={styles.disputeTitle}>
+              Frozen: dispute opened by {getName(current.dispute.openedBy)}
+            </Text>
+            <Text style={styles.disputeText}>{current.dispute.reason}</Text>
+          </Card.Content>
+        </Card>
+      )}
+
+      {user && hasShippingStage(current) && (
+        <TradeShippingCard
+          trade={current}
+          userId={user.uid}
+          getName={getName}
+          canShip={availableActions.includes('ship')}
+          canConfirm={availableActions.includes('receive')}
+          submitting={submitting}
+          onShip={handleShip}
+          onConfirmReceived={handleConfirmReceived}
+        />
+      )}
+
+      {availableActions.length > 0 && (
+        <View style={styles.actions}>
+          {availableActions.includes('cancel') && (
+            <Button
+              mode="outlined"
+              onPress={handleCancel}
+              disabled={submitting}
+              textColor={theme.colors.error}
+              style={styles.actionButton}>
+              {current.status === 'pending' ? 'Withdraw' : 'Cancel Trade'}
+            </Button>
+          )}
+          {availableActions.includes('reject') && (
+            <Button
+              mode="outlined"
+              onPress={handleReject}
+              disabled={submitting}
+              textColor={theme.colors.error}
+              style={styles.actionButton}>
+              Reject
+            </Button>
+          )}
+          {availableActions.includes('counter') && (
+            <Button
+              mode="outlined"
+              onPress={startCounterOffer}
+              disabled={submitting}
+              style={styles.actionButton}>
+              Counter
+            </Button>
+          )}
+          {availableActions.includes('accept') && (
+            <Button
+              mode="contained"
+              onPress={handleAccept}
+              disabled={submitting}
+              style={styles.actionButton}>
+              Accept
+            </Button>
+          )}
+          {availableActions.includes('dispute') && (
+            <Button
+              mode="outlined"
+              onPress={() => setDisputeDialogVisible(true)}
+              disabled={submitting}
+              textColor={theme.colors.error}
+              style={styles.actionButton}>
+              Open Dispute
+            </Button>
+          )}
+          {availableActions.includes('resolve') && (
+            <Button
+              mode="outlined"
+              onPress={handleWithdrawDispute}
+              disabled={submitting}
+              style={styles.actionButton}>
+              Withdraw Dispute
+            </Button>
+          )}
+        </View>
+      )}
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.sectionTitle}>History</Text>
+          {current.messages.map(message => (
+            <List.Item
+              key={message.id}
+              title={`${messageLabels[message.type]} · ${getName(message.senderId)}`}
+              titleStyle={styles.itemTitle}
+              description={`${message.content}\n${message.timestamp.toLocaleString()}`}
+              descriptionNumberOfLines={10}
+              left={props => <List.Icon {...props} icon={messageIcons[message.type]} />}
+            />
+          ))}
+          <View style={styles.messageRow}>
+            <TextInput
+              label="Message"
+              value={messageText}
+              onChangeText={setMessageText}
+              mode="outlined"
+              maxLength={500}
+              style={styles.messageInput}
+            />
+            <Button
+              mode="contained"
+              onPress={handleSendMessage}
+              disabled={!messageText.trim() || submitting}
+              compact>
+              Send
+            </Button>
+          </View>
+        </Card.Content>
+      </Card>
+    </>
+  );
+
+  const title = trade || counterpartyId ? `Trade with ${getName(counterpartyId)}` : 'Trade';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Appbar.Header style={styles.header}>
+        <Appbar.BackAction onPress={() => navigation.goBack()} />
+        <Appbar.Content title={title} />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+          {composing ? renderComposer() : trade ? renderTrade(trade) : null}
+        </ScrollView>
+      )}
+
+      <Portal>
+        <Dialog visible={disputeDialogVisible} onDismiss={() => setDisputeDialogVisible(false)}>
+          <Dialog.Title>Open Dispute</Dialog.Title>
+          <Dialog.Content>
+            <Text style={styles.dialogText}>
+              Shipping is frozen until you withdraw the dispute. Until something ships,
+              either of you can still cancel the trade.
+            </Text>
+            <TextInput
+              label="What went wrong?"
+              value={disputeReason}
+              onChangeText={setDisputeReason}
+              mode="outlined"
+              multiline
+              maxLength={500}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDisputeDialogVisible(false)}>Cancel</Button>
+            <Button onPress={handleOpenDispute} disabled={!disputeReason.trim()}>
+              Open Dispute
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    backgroundColor: theme.colors.surface,
+    elevation: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    margin: theme.spacing.md,
+    marginBottom: 0,
+    backgroundColor: theme.colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+    marginBottom: theme.spacing.sm,
+  },
+  itemTitle: {
+    color: theme.colors.onSurface,
+  },
+  itemImage: {
+    alignSelf: 'center',
+    backgroundColor: theme.colors.primary,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  statusChip: {
+    marginRight: theme.spacing.sm,
+  },
+  waitingText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    opacity: 0.7,
+  },
+  divider: {
+    marginVertical: theme.spacing.sm,
+  },
+  cashText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.sm,
+  },
+  optionChip: {
+    marginRight: theme.spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  selectedChip: {
+    backgroundColor: theme.colors.primary,
+  },
+  actions: {
+    flexDirection: 'row',
+    padding: theme.spacing.md,
+    paddingBottom: 0,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: theme.spacing.xs,
+  },
+  disputeCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: theme.colors.error,
+  },
+  disputeTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.error,
+    marginBottom: theme.spacing.xs,
+  },
+  disputeText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+  },
+  dialogText: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    marginBottom: theme.spacing.sm,
+  },
+  messageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  messageInput: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+  },
+});
+
+export default TradeScreen;
@@ -0,0 +1,182 @@
+/**
+ * Trades Screen
+ * Lists the user's trade proposals, flagging the ones waiting on their reply
+ */
+
+import React, {useState, useCallback} from 'react';
+import {View, StyleSheet, FlatList, RefreshControl} from 'react-native';
+import {Text, List, Badge, Chip, ActivityIndicator} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation, useFocusEffect} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+
+import {useAuth} from '../../contexts/AuthContext';
+import {useFirebase} from '../../contexts/FirebaseContext';
+import {RootStackParamList, Trade, User} from '../../types';
+import {theme} from '../../utils/theme';
+
+type TradesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Trades'>;
+
+const TradesScreen: React.FC = () => {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [profiles, setProfiles] = useState<{[uid: string]: User}>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const navigation = useNavigation<TradesScreenNavigationProp>();
+  const {user} = useAuth();
+  const {repository} = useFirebase();
+
+  const getCounterpartyId = (trade: Trade) =>
+    trade.initiatorId === user?.uid ? trade.receiverId : trade.initiatorId;
+
+  const loadTrades = async () => {
+    if (!user) return;
+
+    try {
+      const userTrades = await repository.trades.listForUser(user.uid);
+      const counterparties = await repository.users.getMany(
+        Array.from(new Set(userTrades.map(getCounterpartyId)))
+      );
+      const byUid: {[uid: string]: User} = {};
+      counterparties.forEach(profile => {
+        byUid[profile.uid] = profile;
+      });
+
+      setProfiles(byUid);
+      setTrades(userTrades);
+    } catch (error) {
+      console.error('Error loading trades:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrades();
+    }, [user])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadTrades();
+  };
+
+  const renderTrade = ({item}: {item: Trade}) => {
+    const counterparty = profiles[getCounterpartyId(item)];
+    const yourTurn = item.status === 'pending' && item.awaitingResponseFrom === user?.uid;
+    const itemCount = item.initiatorItems.length + item.receiverItems.length;
+    const itemLabel = `${itemCount} item${itemCount === 1 ? '' : 's'}`;
+
+    return (
+      <List.Item
+        title={`Trade with ${counterparty ? counterparty.displayName : 'another trader'}`}
+        titleStyle={[styles.tradeTitle, yourTurn && styles.unreadTitle]}
+        description={`${itemLabel} · ${item.updatedAt.toLocaleDateString()}`}
+        onPress={() => navigation.navigate('Trade', {tradeId: item.id})}
+        left={props => <List.Icon {...props} icon="swap-horizontal" />}
+        right={() => (
+          <View style={styles.rightContainer}>
+            {yourTurn && <Badge style={styles.turnBadge}>Your turn</Badge>}
+            <Chip compact style={styles.statusChip}>
+              {item.status}
+            </Chip>
+          </View>
+        )}
+        style={styles.tradeItem}
+      />
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator style={styles.loadingIndicator} size="large" color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={trades}
+        renderItem={renderTrade}
+        keyExtractor={item => item.id}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={[theme.colors.primary]}
+            tintColor={theme.colors.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyTitle}>No trades yet</Text>
+            <Text style={styles.emptySubtitle}>
+              Use Make Offer on a listing to propose a trade
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loadingIndicator: {
+    marginTop: theme.spacing.xxl,
+  },
+  tradeItem: {
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  tradeTitle: {
+    color: theme.colors.onSurface,
+  },
+  unreadTitle: {
+    fontWeight: '700',
+  },
+  rightContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  turnBadge: {
+    backgroundColor: theme.colors.primary,
+    marginRight: theme.spacing.xs,
+    alignSelf: 'center',
+  },
+  statusChip: {
+    alignSelf: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: theme.spacing.xxl,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.colors.onBackground,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: theme.colors.onSurface,
+    textAlign: 'center',
+    opacity: 0.7,
+    lineHeight: 20,
+  },
+});
+
+export default TradesScreen;
@@ -0,0 +1,458 @@
+/**
+ * Gemini AI Client
+ * Typed wrapper around the generateResponse callable, plus the conversation
+ * context sent along with each prompt
+ */
+
+import {createBackendError, getErrorCode} from './backend';
+import {CloudFunctions} from './firebase';
+import {
+  AIPersona,
+  AIQuota,
+  AIUsage,
+  GeminiMessage,
+  GeminiRequest,
+  GeminiResponse,
+  GeminiStreamChunk,
+  ListingSuggestion,
+  MarketplaceItem,
+  Message,
+} from '../types';
+
+// Sender of assistant replies in AI conversations
+export const AI_ASSISTANT_ID = 'gemini-assistant';
+export const AI_ASSISTANT_NAME = 'Gemini';
+export const DEFAULT_AI_MODEL = 'gemini-pro';
+
+// Choices offered in the conversation settings; unset values use the defaults
+export const AI_MODELS = [
+  {id: 'gemini-pro', label: 'Gemini Pro'},
+  {id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash'},
+  {id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro'},
+];
+export const DEFAULT_TEMPERATURE = 0.7;
+export const MAX_TOKEN_OPTIONS = [256, 512, 1024, 2048];
+export const DEFAULT_MAX_TOKENS = 1024;
+
+export const BUILT_IN_PERSONAS: AIPersona[] = [
+  {
+    id: 'deck-building-coach',
+    name: 'Deck-Building Coach',
+    description: 'Builds and tunes decks around your collection',
+    systemPrompt:
+      'You are an experienced trading card game deck-building coach. Suggest concrete ' +
+      'card choices, explain mana curves, synergies and sideboard plans, and keep the ' +
+      "player's budget and format in mind.",
+  },
+  {
+    id: 'card-price-appraiser',
+    name: 'Card Price Appraiser',
+    description: 'Estimates what cards are worth and why',
+    systemPrompt:
+      'You are a trading card appraiser. Estimate market value ranges for the cards you ' +
+      'are asked about, explain how condition, printing and demand affect the price, and ' +
+      'say clearly when an estimate is uncertain.',
+  },
+];
+
+// Tiers come from the `aiTier` custom claim, falling back to the user's `role`
+export const AI_QUOTA_TIERS: {[tier: string]: AIQuota} = {
+  standard: {
+    tier: 'standard',
+    label: 'Standard',
+    dailyRequests: 50,
+    dailyTokens: 25000,
+    monthlyTokens: 250000,
+  },
+  creator: {
+    tier: 'creator',
+    label: 'Content Creator',
+    dailyRequests: 200,
+    dailyTokens: 100000,
+    monthlyTokens: 1500000,
+  },
+  unlimited: {
+    tier: 'unlimited',
+    label: 'Unlimited',
+    dailyRequests: null,
+    dailyTokens: null,
+    monthlyTokens: null,
+  },
+};
+
+export const getAIQuota = (claims: {[key: string]: unknown} = {}): AIQuota => {
+  if (typeof claims.aiTier === 'string' && AI_QUOTA_TIERS[claims.aiTier]) {
+    return AI_QUOTA_TIERS[claims.aiTier];
+  }
+  if (claims.admin || claims.role === 'admin') {
+    return AI_QUOTA_TIERS.unlimited;
+  }
+  if (claims.role === 'creator' || claims.contentCreator) {
+    return AI_QUOTA_TIERS.creator;
+  }
+  return AI_QUOTA_TIERS.standard;
+};
+
+// Null while the user still has quota left
+export const getQuotaExceededReason = (usage: AIUsage, quota: AIQuota): string | null => {
+  if (quota.monthlyTokens !== null && usage.month.tokens >= quota.monthlyTokens) {
+    return "You've used this month's AI allowance. It resets on the 1st (UTC).";
+  }
+  if (quota.dailyTokens !== null && usage.day.tokens >= quota.dailyTokens) {
+    return "You've used today's AI allowance. It resets at midnight UTC.";
+  }
+  if (quota.dailyRequests !== null && usage.day.requests >= quota.dailyRequests) {
+    return "You've reached today's AI request limit. It resets at midnight UTC.";
+  }
+  return null;
+};
+
+// generateResponse checks the quota and rejects with resource-exhausted, its
+// message saying which limit was reached. The native callable reports the code
+// without the functions/ prefix the streaming one adds
+export const isQuotaExceededError = (error: unknown): boolean => {
+  const code = getErrorCode(error);
+  return code === 'functions/resource-exhausted' || code === 'resource-exhausted';
+};
+
+// Options offered when drafting a post; length also caps the response tokens
+export const POST_TONES = [
+  {key: 'casual', label: 'Casual'},
+  {key: 'enthusiastic', label: 'Enthusiastic'},
+  {key: 'informative', label: 'Informative'},
+  {key: 'professional', label: 'Professional'},
+];
+export const POST_LENGTHS = [
+  {key: 'short', label: 'Short', words: 60, maxTokens: 256},
+  {key: 'medium', label: 'Medium', words: 150, maxTokens: 512},
+  {key: 'long', label: 'Long', words: 350, maxTokens: 1024},
+];
+export const MAX_POST_CANDIDATES = 3;
+
+const POST_DRAFT_SYSTEM_PROMPT =
+  'You write social media posts for a trading card community. Reply with the post text ' +
+  'only: no title, no surrounding quotes and no commentary about the post.';
+
+export interface PostDraftRequest {
+  topic: string;
+  postType: string;
+  tags: string[];
+  tone: string;
+  length: string;
+  // Drafts already offered, so alternatives take a different angle
+  previousDrafts?: string[];
+}
+
+export const buildPostPrompt = (request: PostDraftRequest): string => {
+  const length = POST_LENGTHS.find(option => option.key === request.length) || POST_LENGTHS[1];
+  const lines = [
+    `Write a ${request.tone} ${request.postType} post of about ${length.words} words about: ${request.topic}`,
+  ];
+
+  if (request.postType === 'poll') {
+    lines.push('End with a question and two to four answer options, one per line.');
+  }
+  if (request.tags.length > 0) {
+    lines.push(`Work in these hashtags naturally: ${request.tags.map(tag => `#${tag}`).join(' ')}`);
+  }
+  if (request.previousDrafts && request.previousDrafts.length > 0) {
+    lines.push('Take a different angle from these earlier drafts:');
+    request.previousDrafts.forEach(draft => lines.push(`---\n${draft}`));
+  }
+
+  return lines.join('\n');
+};
+
+export interface ListingOption {
+  key: string;
+  label: string;
+}
+
+export interface ListingSuggestionRequest {
+  hint: string;
+  imageUrls: string[];
+  categories: ListingOption[];
+  conditions: ListingOption[];
+}
+
+const MAX_SUGGESTED_TAGS = 8;
+
+export const buildListingPrompt = (request: ListingSuggestionRequest): string => {
+  const describeOptions = (options: ListingOption[]) =>
+    options.map(option => `"${option.key}" (${option.label})`).join(', ');
+
+  return [
+    'Suggest a marketplace listing for the item in the attached photos.',
+    request.hint ? `The seller describes it as: ${request.hint}` : '',
+    'Reply with a JSON object with these fields, leaving out any you cannot tell from the photos:',
+    '"title": at most 100 characters,',
+    '"description": at most 1000 characters, mentioning visible wear or defects,',
+    `"category": one of ${describeOptions(request.categories)},`,
+    `"condition": one of ${describeOptions(request.conditions)},`,
+    `"tags": up to ${MAX_SUGGESTED_TAGS} short lowercase keywords without #.`,
+  ]
+    .filter(line => line)
+    .join('\n');
+};
+
+// Model replies are untrusted, so every field is checked before it is used
+type JSONObject = {[key: string]: unknown};
+
+const isJSONObject = (value: unknown): value is JSONObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Models often wrap JSON replies in a Markdown code fence
+const parseJSONReply = (text: string): unknown =>
+  JSON.parse(text.replace(/^\s*```(?:json)?|```\s*$/g, '').trim());
+
+// Drops anything outside the offered options so the form never holds an invalid value
+export const parseListingSuggestion = (
+  text: string,
+  request: ListingSuggestionRequest
+): ListingSuggestion => {
+  let parsed: unknown;
+  try {
+    parsed = parseJSONReply(text);
+  } catch (error) {
+    throw createBackendError('ai/invalid-response', 'The assistant returned an unexpected response');
+  }
+
+  const data: JSONObject = isJSONObject(parsed) ? parsed : {};
+  const {title, description, category, condition, tags: suggestedTags} = data;
+  const isOption = (options: ListingOption[], value: unknown): value is string =>
+    typeof value === 'string' && options.some(option => option.key === value);
+  const suggestion: ListingSuggestion = {};
+
+  if (typeof title === 'string' && title.trim()) {
+    suggestion.title = title.trim().slice(0, 100);
+  }
+  if (typeof description === 'string' && description.trim()) {
+    suggestion.description = description.trim().slice(0, 1000);
+  }
+  if (isOption(request.categories, category)) {
+    suggestion.category = category;
+  }
+  if (isOption(request.conditions, condition)) {
+    suggestion.condition = condition as MarketplaceItem['condition'];
+  }
+  if (Array.isArray(suggestedTags)) {
+    const tags = (suggestedTags as unknown[])
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.replace(/^#/, '').trim().toLowerCase())
+      .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+    if (tags.length > 0) {
+      suggestion.tags = tags.slice(0, MAX_SUGGESTED_TAGS);
+    }
+  }
+
+  return suggestion;
+};
+
+// The oldest turns are dropped first once either limit is reached
+const MAX_CONTEXT_MESSAGES = 20;
+const MAX_CONTEXT_CHARACTERS = 12000;
+
+export const buildConversationContext = (messages: Message[]): GeminiMessage[] => {
+  const context: GeminiMessage[] = [];
+  let characters = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    if (message.type === 'system' || !message.content.trim()) {
+      continue;
+    }
+
+    characters += message.content.length;
+    if (context.length >= MAX_CONTEXT_MESSAGES || characters > MAX_CONTEXT_CHARACTERS) {
+      break;
+    }
+
+    context.unshift({
+      role: message.type === 'ai' ? 'model' : 'user',
+      content: message.content,
+    });
+  }
+
+  return context;
+};
+
+// Plain "Name: text" lines, newest kept when the limit is reached
+const buildTranscript = (messages: Message[], currentUserId: string): string => {
+  const lines: string[] = [];
+  let characters = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    if (message.type === 'system' || !message.content.trim()) {
+      continue;
+    }
+
+    const speaker = message.senderId === currentUserId ? 'Me' : message.senderName;
+    const line = `${speaker}: ${message.content.trim()}`;
+    characters += line.length;
+    if (characters > MAX_CONTEXT_CHARACTERS) {
+      break;
+    }
+    lines.unshift(line);
+  }
+
+  return lines.join('\n');
+};
+
+export const MAX_SMART_REPLIES = 3;
+const MAX_SMART_REPLY_LENGTH = 80;
+
+// Accepts a bare array or {"replies": [...]}, whichever the model sends back
+const parseSmartReplies = (text: string): string[] => {
+  let data: unknown;
+  try {
+    data = parseJSONReply(text);
+  } catch (error) {
+    return [];
+  }
+
+  const replies = isJSONObject(data) ? data.replies : data;
+  if (!Array.isArray(replies)) {
+    return [];
+  }
+
+  return (replies as unknown[])
+    .filter((reply): reply is string => typeof reply === 'string' && !!reply.trim())
+    .map(reply => reply.trim().slice(0, MAX_SMART_REPLY_LENGTH))
+    .slice(0, MAX_SMART_REPLIES);
+};
+
+export const isCancelledError = (error: unknown): boolean => {
+  return getErrorCode(error) === 'functions/cancelled';
+};
+
+const isGeminiResponse = (data: unknown): data is GeminiResponse => {
+  return isJSONObject(data) && typeof data.response === 'string';
+};
+
+const toGeminiResponse = (
+  data: unknown,
+  request: GeminiRequest,
+  startedAt: number
+): GeminiResponse => {
+  if (!isGeminiResponse(data)) {
+    throw createBackendError('ai/invalid-response', 'The assistant returned an unexpected response');
+  }
+
+  // Older function deployments omit the usage fields
+  return {
+    response: data.response,
+    model: data.model || request.model || DEFAULT_AI_MODEL,
+    tokens: data.tokens || 0,
+    processingTime: data.processingTime || Date.now() - startedAt,
+    conversationId: data.conversationId || request.conversationId || '',
+  };
+};
+
+// Quotas are enforced and usage recorded by the generateResponse callable
+export const createAIClient = (cloudFunctions: CloudFunctions) => {
+  const generateResponse = async (request: GeminiRequest): Promise<GeminiResponse> => {
+    const startedAt = Date.now();
+    const result = await cloudFunctions.generateResponse(request);
+    return toGeminiResponse(result.data, request, startedAt);
+  };
+
+  // onText receives the answer so far after every chunk. Aborting the signal
+  // rejects with an error isCancelledError recognises
+  const streamResponse = async (
+    request: GeminiRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeminiResponse> => {
+    const startedAt = Date.now();
+    let text = '';
+
+    const result = await cloudFunctions.streamResponse(request, {
+      onChunk: (chunk: GeminiStreamChunk) => {
+        if (typeof chunk?.text === 'string') {
+          text += chunk.text;
+          onText(text);
+        }
+      },
+      signal,
+    });
+    return toGeminiResponse(result.data, request, startedAt);
+  };
+
+  return {
+    generateResponse,
+    streamResponse,
+
+    // Summarizes `messages` for the reader; earlier history is context only
+    async summarizeMessages(
+      messages: Message[],
+      earlierMessages: Message[],
+      currentUserId: string
+    ): Promise<string> {
+      const context = buildTranscript(earlierMessages.slice(-MAX_CONTEXT_MESSAGES), currentUserId);
+      const response = await generateResponse({
+        prompt: [
+          context ? `Earlier in the conversation:\n${context}\n` : '',
+          'Messages to summarize:',
+          `${buildTranscript(messages, currentUserId)}\n`,
+          'Summarize these messages for "Me" in a few short sentences. Call out any offers, ' +
+            'prices, agreed terms and questions still waiting for my answer.',
+        ]
+          .filter(line => line !== '')
+          .join('\n'),
+        maxTokens: 300,
+        temperature: 0.3,
+      });
+      return response.response.trim();
+    },
+
+    async suggestReplies(messages: Message[], currentUserId: string): Promise<string[]> {
+      const response = await generateResponse({
+        prompt: [
+          buildTranscript(messages.slice(-MAX_CONTEXT_MESSAGES), currentUserId),
+          '',
+          `Suggest up to ${MAX_SMART_REPLIES} short, distinct replies "Me" could send next. ` +
+            `Each must be under ${MAX_SMART_REPLY_LENGTH} characters. ` +
+            'Reply with a JSON object: {"replies": ["...", "..."]}',
+        ].join('\n'),
+        responseFormat: 'json',
+        maxTokens: 150,
+        temperature: 0.5,
+      });
+      return parseSmartReplies(response.response);
+    },
+
+    async suggestListing(request: ListingSuggestionRequest): Promise<ListingSuggestion> {
+      const response = await generateResponse({
+        prompt: buildListingPrompt(request),
+        imageUrls: request.imageUrls,
+        responseFormat: 'json',
+        temperature: 0.2,
+      });
+      return parseListingSuggestion(response.response, request);
+    },
+
+    // Alternatives are sampled hotter so they differ from the first draft
+    draftPost(
+      request: PostDraftRequest,
+      onText: (text: string) => void,
+      signal?: AbortSignal
+    ): Promise<GeminiResponse> {
+      const length = POST_LENGTHS.find(option => option.key === request.length) || POST_LENGTHS[1];
+      const isAlternative = !!request.previousDrafts && request.previousDrafts.length > 0;
+
+      return streamResponse(
+        {
+          prompt: buildPostPrompt(request),
+          systemPrompt: POST_DRAFT_SYSTEM_PROMPT,
+          maxTokens: length.maxTokens,
+          temperature: isAlternative ? 0.9 : DEFAULT_TEMPERATURE,
+        },
+        onText,
+        signal
+      );
+    },
+  };
+};
+
+export type AIClient = ReturnType<typeof createAIClient>;
@@ -0,0 +1,128 @@
+/**
+ * AI Usage Ledger
+ * Per-user quota checks and token accounting run by the generateResponse
+ * callable, so clients can read their usage but never write it
+ */
+
+import {
+  DocumentData,
+  DocumentReference,
+  DocumentStore,
+  FieldValueFactory,
+  createBackendError,
+} from './backend';
+import {getQuotaExceededReason} from './ai';
+import {collections} from './firebase';
+import {AIQuota, AIUsagePeriod} from '../types';
+
+export interface AIUsageContext {
+  firestore: DocumentStore;
+  fieldValues: FieldValueFactory;
+}
+
+// Usage documents are keyed by UTC date, so every client rolls over together
+export const getUsagePeriodKeys = (now: Date = new Date()) => {
+  const isoDate = now.toISOString();
+  return {day: isoDate.slice(0, 10), month: isoDate.slice(0, 7)};
+};
+
+// Model ids contain dots, which field paths would treat as nesting
+const toModelKey = (model: string) => model.replace(/[^A-Za-z0-9_-]/g, '_');
+
+const PERIODS = ['day', 'month'] as const;
+
+const toTotals = (key: string, data: DocumentData | undefined): AIUsagePeriod => ({
+  key,
+  requests: (data && data.requests) || 0,
+  tokens: (data && data.tokens) || 0,
+  models: [],
+});
+
+// One document per user and period: aiUsage/{uid}_{YYYY-MM-DD} and {uid}_{YYYY-MM}
+const writeUsage = (
+  {firestore, fieldValues}: AIUsageContext,
+  write: (ref: DocumentReference, data: DocumentData) => void,
+  uid: string,
+  model: string,
+  counts: {requests: number; tokens: number},
+  now: Date
+) => {
+  const keys = getUsagePeriodKeys(now);
+  PERIODS.forEach(period => {
+    const key = keys[period];
+    write(firestore.collection(collections.aiUsage).doc(`${uid}_${key}`), {
+      uid,
+      period,
+      key,
+      requests: fieldValues.increment(counts.requests),
+      tokens: fieldValues.increment(counts.tokens),
+      models: {
+        [toModelKey(model)]: {
+          model,
+          requests: fieldValues.increment(counts.requests),
+          tokens: fieldValues.increment(counts.tokens),
+        },
+      },
+      updatedAt: fieldValues.serverTimestamp(),
+    });
+  });
+};
+
+// Counts the request in the same transaction that checks the quota, so
+// concurrent calls can't all spend the last request left. Rejects with
+// resource-exhausted, carrying the reason to show, once the quota is used up
+export const reserveAIRequest = (
+  context: AIUsageContext,
+  uid: string,
+  quota: AIQuota,
+  model: string,
+  now: Date = new Date()
+): Promise<void> =>
+  context.firestore.runTransaction(async transaction => {
+    const keys = getUsagePeriodKeys(now);
+    const [day, month] = await Promise.all(
+      PERIODS.map(period =>
+        transaction.get(
+          context.firestore.collection(collections.aiUsage).doc(`${uid}_${keys[period]}`)
+        )
+      )
+    );
+
+    const reason = getQuotaExceededReason(
+      {day: toTotals(keys.day, day.data()), month: toTotals(keys.month, month.data())},
+      quota
+    );
+    if (reason) {
+      throw createBackendError('functions/resource-exhausted', reason);
+    }
+
+    writeUsage(
+      context,
+      (ref, data) => transaction.set(ref, data, {merge: true}),
+      uid,
+      model,
+      {requests: 1, tokens: 0},
+      now
+    );
+  });
+
+// Adds the tokens a reserved request used once the answer is done, or
+// stopped; `now` is the reservation's, so both land in the same periods
+export const recordAITokens = async (
+  context: AIUsageContext,
+  uid: string,
+  model: string,
+  tokens: number,
+  now: Date
+): Promise<void> => {
+  const batch = context.firestore.batch();
+  writeUsage(
+    context,
+    (ref, data) => batch.set(ref, data, {merge: true}),
+    uid,
+    model,
+    {requests: 0, tokens},
+    now
+  );
+  await batch.commit();
+};
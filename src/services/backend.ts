@@ -0,0 +1,189 @@
+/**
+ * Backend Adapter Interface
+ * The subset of auth, document store, callable functions and blob storage
+ * the app relies on, so FirebaseProvider can run against any implementation
+ */
+
+// Errors
+// Adapters reject with `code` set the same way Firebase does (e.g. 'auth/wrong-password')
+export interface BackendError extends Error {
+  code: string;
+}
+
+export const createBackendError = (code: string, message: string): BackendError => {
+  const error = new Error(message) as BackendError;
+  error.code = code;
+  return error;
+};
+
+// Anything can be thrown, so the code is only read when it is a string
+export const getErrorCode = (error: unknown): string | undefined => {
+  const code = error && typeof error === 'object' ? (error as {code?: unknown}).code : undefined;
+  return typeof code === 'string' ? code : undefined;
+};
+
+// Auth
+export interface BackendUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+  emailVerified: boolean;
+  getIdTokenResult: () => Promise<{claims: {[key: string]: any}}>;
+  updateProfile: (updates: {displayName?: string | null; photoURL?: string | null}) => Promise<void>;
+}
+
+export interface BackendUserCredential {
+  user: BackendUser;
+}
+
+export interface BackendAuth {
+  readonly currentUser: BackendUser | null;
+  onAuthStateChanged: (listener: (user: BackendUser | null) => void) => () => void;
+  signInWithEmailAndPassword: (email: string, password: string) => Promise<BackendUserCredential>;
+  createUserWithEmailAndPassword: (email: string, password: string) => Promise<BackendUserCredential>;
+  signOut: () => Promise<void>;
+  sendPasswordResetEmail: (email: string) => Promise<void>;
+}
+
+// Document store
+export type DocumentData = {[field: string]: any};
+
+export type WhereOperator =
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'array-contains'
+  | 'array-contains-any'
+  | 'in'
+  | 'not-in';
+
+export type OrderDirection = 'asc' | 'desc';
+
+export interface DocumentSnapshot {
+  id: string;
+  exists: boolean;
+  ref: DocumentReference;
+  data: () => DocumentData | undefined;
+}
+
+export interface QuerySnapshot {
+  docs: DocumentSnapshot[];
+  empty: boolean;
+  size: number;
+}
+
+export interface Query {
+  where: (field: string, operator: WhereOperator, value: any) => Query;
+  orderBy: (field: string, direction?: OrderDirection) => Query;
+  limit: (count: number) => Query;
+  startAfter: (snapshot: DocumentSnapshot) => Query;
+  get: () => Promise<QuerySnapshot>;
+  onSnapshot: (
+    onNext: (snapshot: QuerySnapshot) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+}
+
+export interface CollectionReference extends Query {
+  id: string;
+  path: string;
+  doc: (documentId?: string) => DocumentReference;
+  add: (data: DocumentData) => Promise<DocumentReference>;
+}
+
+export interface DocumentReference {
+  id: string;
+  path: string;
+  collection: (collectionPath: string) => CollectionReference;
+  get: () => Promise<DocumentSnapshot>;
+  set: (data: DocumentData, options?: {merge?: boolean}) => Promise<void>;
+  update: (data: DocumentData) => Promise<void>;
+  delete: () => Promise<void>;
+  onSnapshot: (
+    onNext: (snapshot: DocumentSnapshot) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+}
+
+export interface WriteBatch {
+  set: (ref: DocumentReference, data: DocumentData, options?: {merge?: boolean}) => WriteBatch;
+  update: (ref: DocumentReference, data: DocumentData) => WriteBatch;
+  delete: (ref: DocumentReference) => WriteBatch;
+  commit: () => Promise<void>;
+}
+
+// Reads must all happen before the first write
+export interface Transaction {
+  get: (ref: DocumentReference) => Promise<DocumentSnapshot>;
+  set: (ref: DocumentReference, data: DocumentData, options?: {merge?: boolean}) => Transaction;
+  update: (ref: DocumentReference, data: DocumentData) => Transaction;
+  delete: (ref: DocumentReference) => Transaction;
+}
+
+export interface DocumentStore {
+  collection: (collectionPath: string) => CollectionReference;
+  batch: () => WriteBatch;
+  // The update function is retried when a document it read changes before the commit
+  runTransaction: <T>(updateFunction: (transaction: Transaction) => Promise<T>) => Promise<T>;
+}
+
+// Sentinel values resolved by the store when a write is applied
+export type FieldValue = object;
+
+export interface FieldValueFactory {
+  serverTimestamp: () => FieldValue;
+  increment: (n: number) => FieldValue;
+  arrayUnion: (...elements: any[]) => FieldValue;
+  arrayRemove: (...elements: any[]) => FieldValue;
+  delete: () => FieldValue;
+}
+
+// Callable functions
+export type CallableFunction = (data?: any) => Promise<{data: any}>;
+
+// Streaming calls deliver the chunks a function sends before its result;
+// aborting the signal rejects with 'functions/cancelled'
+export interface CallableStreamOptions {
+  onChunk: (chunk: any) => void;
+  signal?: AbortSignal;
+}
+
+export type StreamingCallableFunction = (
+  data: any,
+  options: CallableStreamOptions
+) => Promise<{data: any}>;
+
+export interface BackendFunctions {
+  httpsCallable: (name: string) => CallableFunction;
+  httpsCallableStream: (name: string) => StreamingCallableFunction;
+}
+
+// Blob storage
+export interface UploadOptions {
+  contentType?: string;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface StorageReference {
+  fullPath: string;
+  putFile: (localPath: string, options?: UploadOptions) => Promise<void>;
+  getDownloadURL: () => Promise<string>;
+  delete: () => Promise<void>;
+}
+
+export interface BackendStorage {
+  ref: (path: string) => StorageReference;
+}
+
+export interface Backend {
+  name: string;
+  auth: BackendAuth;
+  firestore: DocumentStore;
+  fieldValues: FieldValueFactory;
+  functions: BackendFunctions;
+  storage: BackendStorage;
+}
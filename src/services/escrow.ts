@@ -0,0 +1,512 @@
+/**
+ * Buy Now Escrow
+ * Checkout, funding and release of Buy Now purchases. Runs behind the escrow
+ * callables on the server's clock, so clients never move money themselves
+ */
+
+import {
+  DocumentData,
+  DocumentReference,
+  DocumentStore,
+  FieldValue,
+  Transaction,
+  createBackendError,
+} from './backend';
+import {collections} from './firebase';
+import {
+  EscrowEndReason,
+  EscrowReleaseReason,
+  EscrowStatus,
+  MarketplaceItem,
+  PaymentSession,
+} from '../types';
+
+// Checkouts hold the listing for as long as the provider's session can be paid
+export const PAYMENT_SESSION_MINUTES = 30;
+
+// Held funds go to the seller this long after payment unless the buyer confirms sooner
+export const ESCROW_RELEASE_DAYS = 14;
+
+// Recorded as endedBy when an escrow ends without anyone acting on it
+export const ESCROW_SYSTEM_ACTOR = 'system';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Server side of the payment provider. Repeating a call that already took
+// effect succeeds without doing anything
+export interface PaymentProvider {
+  createSession: (request: {
+    escrowId: string;
+    amount: number;
+    currency: string;
+    description: string;
+    expiresAt: Date;
+  }) => Promise<PaymentSession>;
+  getSession: (sessionId: string) => Promise<PaymentSession>;
+  // Refused once the session has been paid
+  cancelSession: (sessionId: string) => Promise<PaymentSession>;
+  releasePayment: (sessionId: string) => Promise<PaymentSession>;
+  refundPayment: (sessionId: string) => Promise<PaymentSession>;
+}
+
+export interface EscrowContext {
+  firestore: DocumentStore;
+  timestamp: () => FieldValue;
+  provider: PaymentProvider;
+  now: () => Date;
+}
+
+type CheckoutHold = Pick<MarketplaceItem, 'status' | 'reservedByEscrowId' | 'reservedUntil'>;
+
+// A checkout hold lapses with its payment session, so an abandoned checkout
+// frees the listing without anyone cleaning up after it
+export const isCheckoutHoldActive = (item: CheckoutHold, now: Date = new Date()): boolean =>
+  item.status === 'available' &&
+  !!item.reservedByEscrowId &&
+  !!item.reservedUntil &&
+  item.reservedUntil.getTime() > now.getTime();
+
+const toOptionalDate = (value: any): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  return typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+};
+
+const toCheckoutHold = (data: DocumentData): CheckoutHold => ({
+  status: data.status,
+  reservedByEscrowId: data.reservedByEscrowId || undefined,
+  reservedUntil: toOptionalDate(data.reservedUntil),
+});
+
+const escrowRef = (firestore: DocumentStore, escrowId: string) =>
+  firestore.collection(collections.escrows).doc(escrowId);
+
+const listingRef = (firestore: DocumentStore, itemId: string) =>
+  firestore.collection(collections.marketplace).doc(itemId);
+
+const readEscrow = async (
+  reader: Transaction | null,
+  ref: DocumentReference
+): Promise<DocumentData> => {
+  const snapshot = await (reader ? reader.get(ref) : ref.get());
+  const data = snapshot.data();
+  if (!snapshot.exists || !data) {
+    throw createBackendError('escrow/not-found', 'Purchase not found');
+  }
+  return data;
+};
+
+const isListingExpired = (data: DocumentData, now: Date): boolean => {
+  const expiresAt = toOptionalDate(data.expiresAt);
+  return !!expiresAt && expiresAt.getTime() <= now.getTime();
+};
+
+interface EscrowEnd {
+  status: 'cancelled' | 'expired' | 'refunded';
+  endedBy: string;
+  endReason: EscrowEndReason;
+}
+
+// Ends an unpaid checkout and frees the listing if it still holds it.
+// Returns false when the escrow had already moved on
+const endEscrow = (
+  {firestore, timestamp}: EscrowContext,
+  escrowId: string,
+  end: EscrowEnd
+): Promise<boolean> =>
+  firestore.runTransaction(async transaction => {
+    const ref = escrowRef(firestore, escrowId);
+    const escrow = await readEscrow(transaction, ref);
+    if (escrow.status !== 'awaiting-payment') {
+      return false;
+    }
+    const itemRef = listingRef(firestore, escrow.itemId);
+    const item = (await transaction.get(itemRef)).data();
+
+    if (item && item.reservedByEscrowId === escrowId) {
+      transaction.update(itemRef, {
+        reservedByEscrowId: null,
+        reservedUntil: null,
+        updatedAt: timestamp(),
+      });
+    }
+    transaction.update(ref, {...end, endedAt: timestamp(), updatedAt: timestamp()});
+    if (end.status === 'refunded') {
+      transaction.set(firestore.collection(collections.notifications).doc(), {
+        userId: escrow.buyerId,
+        type: 'trade',
+        title: 'Payment refunded',
+        body: `${escrow.listing.title} was no longer available, so your payment was refunded`,
+        data: {escrowId, itemId: escrow.itemId},
+        read: false,
+        createdAt: timestamp(),
+      });
+    }
+    return true;
+  });
+
+// The hold period starts when the provider took the payment, however late
+// anyone notices it. A paid checkout whose lapsed hold was taken by someone
+// else is refunded
+const fundEscrow = async (
+  context: EscrowContext,
+  escrowId: string,
+  session: PaymentSession
+): Promise<EscrowStatus> => {
+  const {firestore, timestamp, provider, now} = context;
+  const fundedAt = session.paidAt || now();
+
+  const status = await firestore.runTransaction(async transaction => {
+    const ref = escrowRef(firestore, escrowId);
+    const escrow = await readEscrow(transaction, ref);
+    if (escrow.status !== 'awaiting-payment') {
+      return escrow.status as EscrowStatus;
+    }
+    const itemRef = listingRef(firestore, escrow.itemId);
+    const item = (await transaction.get(itemRef)).data();
+
+    const available =
+      !!item &&
+      item.status === 'available' &&
+      (item.reservedByEscrowId === escrowId || !isCheckoutHoldActive(toCheckoutHold(item), now()));
+    if (!available) {
+      return null;
+    }
+
+    transaction.update(itemRef, {
+      status: 'reserved',
+      reservedByEscrowId: escrowId,
+      reservedUntil: null,
+      updatedAt: timestamp(),
+    });
+    transaction.update(ref, {
+      status: 'held',
+      fundedAt,
+      releaseAfter: new Date(fundedAt.getTime() + ESCROW_RELEASE_DAYS * DAY_MS),
+      updatedAt: timestamp(),
+    });
+    transaction.set(firestore.collection(collections.notifications).doc(), {
+      userId: escrow.sellerId,
+      type: 'trade',
+      title: 'Item sold',
+      body:
+        `${escrow.listing.title} was paid for. ` +
+        `Ship it to receive ${escrow.amount} ${escrow.currency}`,
+      data: {escrowId, itemId: escrow.itemId},
+      read: false,
+      createdAt: timestamp(),
+    });
+    return 'held' as EscrowStatus;
+  });
+  if (status) {
+    return status;
+  }
+
+  await provider.refundPayment(session.id);
+  await endEscrow(context, escrowId, {
+    status: 'refunded',
+    endedBy: ESCROW_SYSTEM_ACTOR,
+    endReason: 'listing-unavailable',
+  });
+  return 'refunded';
+};
+
+// Brings an unpaid checkout in line with its payment session: paid sessions
+// fund it, and sessions that closed or ran past the hold end it
+export const syncEscrow = async (
+  context: EscrowContext,
+  escrowId: string,
+  actorId?: string
+): Promise<EscrowStatus> => {
+  const {firestore, provider, now} = context;
+  const escrow = await readEscrow(null, escrowRef(firestore, escrowId));
+  if (actorId && escrow.buyerId !== actorId && escrow.sellerId !== actorId) {
+    throw createBackendError('escrow/not-found', 'Purchase not found');
+  }
+  if (escrow.status !== 'awaiting-payment') {
+    return escrow.status;
+  }
+
+  const expiresAt = toOptionalDate(escrow.expiresAt);
+  const lapsed = !expiresAt || expiresAt.getTime() <= now().getTime();
+  const expire = async (endReason: EscrowEndReason, status: EscrowEnd['status']) => {
+    await endEscrow(context, escrowId, {status, endedBy: ESCROW_SYSTEM_ACTOR, endReason});
+    return status;
+  };
+
+  if (!escrow.paymentSessionId) {
+    return lapsed ? expire('payment-expired', 'expired') : 'awaiting-payment';
+  }
+
+  let session = await provider.getSession(escrow.paymentSessionId);
+  if (session.status === 'open' && lapsed) {
+    // Closed at the provider first, so it can't be paid after the listing is freed
+    try {
+      session = await provider.cancelSession(session.id);
+    } catch (error) {
+      session = await provider.getSession(session.id);
+    }
+  }
+
+  switch (session.status) {
+    case 'paid':
+      return fundEscrow(context, escrowId, session);
+    case 'expired':
+      return expire('payment-expired', 'expired');
+    case 'cancelled':
+      return lapsed
+        ? expire('payment-expired', 'expired')
+        : expire('payment-cancelled', 'cancelled');
+    default:
+      return 'awaiting-payment';
+  }
+};
+
+// Reserves the listing for the length of a payment session, then opens the
+// session. A lapsed hold on the listing is settled first, in case it was paid
+// at the last moment
+export const openEscrow = async (
+  context: EscrowContext,
+  buyerId: string,
+  itemId: string
+): Promise<string> => {
+  const {firestore, timestamp, provider, now} = context;
+  const itemRef = listingRef(firestore, itemId);
+
+  const current = (await itemRef.get()).data();
+  if (current && current.reservedByEscrowId) {
+    const hold = toCheckoutHold(current);
+    if (hold.status === 'available' && !isCheckoutHoldActive(hold, now())) {
+      await syncEscrow(context, current.reservedByEscrowId).catch(error =>
+        console.error('Error settling lapsed checkout:', error)
+      );
+    }
+  }
+
+  const ref = firestore.collection(collections.escrows).doc();
+  const expiresAt = new Date(now().getTime() + PAYMENT_SESSION_MINUTES * MINUTE_MS);
+  const escrow = await firestore.runTransaction(async transaction => {
+    const item = (await transaction.get(itemRef)).data();
+    if (!item) {
+      throw createBackendError('marketplace/not-found', 'Listing not found');
+    }
+    if (item.sellerId === buyerId) {
+      throw createBackendError('escrow/own-listing', 'You cannot buy your own listing');
+    }
+    if (
+      item.status !== 'available' ||
+      isListingExpired(item, now()) ||
+      isCheckoutHoldActive(toCheckoutHold(item), now())
+    ) {
+      throw createBackendError('escrow/unavailable', 'This listing is no longer available');
+    }
+
+    const fields = {
+      itemId,
+      buyerId,
+      sellerId: item.sellerId,
+      listing: {
+        id: itemId,
+        title: item.title,
+        imageURL: (item.images || [])[0] || null,
+        price: item.price,
+        currency: item.currency,
+        sellerId: item.sellerId,
+      },
+      amount: item.price + (item.shipping ? item.shipping.cost : 0),
+      currency: item.currency,
+      status: 'awaiting-payment',
+      expiresAt,
+      createdAt: timestamp(),
+      updatedAt: timestamp(),
+    };
+    transaction.set(ref, fields);
+    transaction.update(itemRef, {
+      reservedByEscrowId: ref.id,
+      reservedUntil: expiresAt,
+      updatedAt: timestamp(),
+    });
+    return fields;
+  });
+
+  let session: PaymentSession;
+  try {
+    session = await provider.createSession({
+      escrowId: ref.id,
+      amount: escrow.amount,
+      currency: escrow.currency,
+      description: escrow.listing.title,
+      expiresAt,
+    });
+  } catch (error) {
+    await endEscrow(context, ref.id, {
+      status: 'cancelled',
+      endedBy: ESCROW_SYSTEM_ACTOR,
+      endReason: 'checkout-failed',
+    });
+    throw error;
+  }
+
+  await ref.update({
+    paymentSessionId: session.id,
+    checkoutUrl: session.url,
+    updatedAt: timestamp(),
+  });
+  if (session.status !== 'open') {
+    await syncEscrow(context, ref.id);
+  }
+  return ref.id;
+};
+
+// Only the buyer calls off a checkout. One paid in the meantime is funded instead
+export const cancelEscrow = async (
+  context: EscrowContext,
+  escrowId: string,
+  uid: string
+): Promise<EscrowStatus> => {
+  const escrow = await readEscrow(null, escrowRef(context.firestore, escrowId));
+  if (escrow.buyerId !== uid) {
+    throw createBackendError('escrow/not-allowed', 'Only the buyer can cancel a checkout');
+  }
+  if (escrow.status !== 'awaiting-payment') {
+    throw createBackendError(
+      'escrow/invalid-status',
+      `Cannot cancel a purchase that is ${escrow.status}`
+    );
+  }
+
+  if (escrow.paymentSessionId) {
+    try {
+      await context.provider.cancelSession(escrow.paymentSessionId);
+    } catch (error) {
+      const status = await syncEscrow(context, escrowId);
+      if (status === 'held') {
+        throw createBackendError('escrow/already-paid', 'This checkout has already been paid');
+      }
+      if (status === 'awaiting-payment') {
+        throw error;
+      }
+      return status;
+    }
+  }
+
+  await endEscrow(context, escrowId, {
+    status: 'cancelled',
+    endedBy: uid,
+    endReason: 'cancelled-by-buyer',
+  });
+  return 'cancelled';
+};
+
+// The release is claimed before the provider is asked to pay out, so a
+// retry after a failure finishes the same release instead of starting another.
+// The buyer releases by confirming receipt; anyone may release a hold that ran
+// out. Without an actor the call comes from the scheduled settlement
+export const releaseEscrow = async (
+  context: EscrowContext,
+  escrowId: string,
+  reason: EscrowReleaseReason,
+  actorId?: string
+): Promise<void> => {
+  const {firestore, timestamp, provider, now} = context;
+  const ref = escrowRef(firestore, escrowId);
+
+  const sessionId = await firestore.runTransaction(async transaction => {
+    const escrow = await readEscrow(transaction, ref);
+    if (actorId && escrow.buyerId !== actorId && escrow.sellerId !== actorId) {
+      throw createBackendError('escrow/not-found', 'Purchase not found');
+    }
+    if (escrow.status === 'releasing') {
+      return escrow.paymentSessionId || null;
+    }
+    if (reason === 'confirmed' && escrow.buyerId !== actorId) {
+      throw createBackendError('escrow/not-allowed', 'Only the buyer can confirm receipt');
+    }
+    if (escrow.status !== 'held') {
+      throw createBackendError(
+        'escrow/invalid-status',
+        `Cannot release a purchase that is ${escrow.status}`
+      );
+    }
+    const releaseAfter = toOptionalDate(escrow.releaseAfter);
+    if (reason === 'timeout' && (!releaseAfter || releaseAfter.getTime() > now().getTime())) {
+      throw createBackendError('escrow/not-due', 'The funds are still held for the buyer');
+    }
+
+    transaction.update(ref, {status: 'releasing', releaseReason: reason, updatedAt: timestamp()});
+    return escrow.paymentSessionId || null;
+  });
+
+  if (sessionId) {
+    await provider.releasePayment(sessionId);
+  }
+
+  await firestore.runTransaction(async transaction => {
+    const escrow = await readEscrow(transaction, ref);
+    if (escrow.status !== 'releasing') {
+      return;
+    }
+    const itemRef = listingRef(firestore, escrow.itemId);
+    const item = (await transaction.get(itemRef)).data();
+
+    if (item && item.reservedByEscrowId === escrowId) {
+      transaction.update(itemRef, {
+        status: 'sold',
+        reservedByEscrowId: null,
+        soldAt: timestamp(),
+        updatedAt: timestamp(),
+      });
+    }
+    transaction.update(ref, {
+      status: 'released',
+      releasedAt: timestamp(),
+      updatedAt: timestamp(),
+    });
+    transaction.set(firestore.collection(collections.notifications).doc(), {
+      userId: escrow.sellerId,
+      type: 'trade',
+      title: 'Payment released',
+      body:
+        escrow.releaseReason === 'confirmed'
+          ? `The buyer received ${escrow.listing.title}`
+          : `No problems were reported with ${escrow.listing.title}`,
+      data: {escrowId, itemId: escrow.itemId},
+      read: false,
+      createdAt: timestamp(),
+    });
+  });
+};
+
+// Scheduled settlement: releases holds that ran out, finishes interrupted
+// releases and ends checkouts whose session lapsed. Returns how many escrows
+// it settled; one failing never stops the rest
+export const settleDueEscrows = async (context: EscrowContext): Promise<number> => {
+  const escrows = context.firestore.collection(collections.escrows);
+  const now = context.now();
+  const [due, releasing, lapsed] = await Promise.all([
+    escrows.where('status', '==', 'held').where('releaseAfter', '<=', now).get(),
+    escrows.where('status', '==', 'releasing').get(),
+    escrows.where('status', '==', 'awaiting-payment').where('expiresAt', '<=', now).get(),
+  ]);
+
+  const settle = async (settleOne: () => Promise<unknown>) => {
+    try {
+      await settleOne();
+      return 1;
+    } catch (error) {
+      console.error('Error settling escrow:', error);
+      return 0;
+    }
+  };
+
+  let settled = 0;
+  for (const doc of [...due.docs, ...releasing.docs]) {
+    settled += await settle(() => releaseEscrow(context, doc.id, 'timeout'));
+  }
+  for (const doc of lapsed.docs) {
+    settled += await settle(() => syncEscrow(context, doc.id));
+  }
+  return settled;
+};
@@ -1,27 +1,18 @@
 /**
  * Firebase Configuration for GeminiHatake Mobile
- * This file configures Firebase services for the React Native app
+ * Collection names and callable Cloud Functions shared by every backend adapter
  */
 
-import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
-import functions from '@react-native-firebase/functions';
-import storage from '@react-native-firebase/storage';
+import {BackendFunctions} from './backend';
 
 // Firebase configuration
-// Note: The actual config values should be added to google-services.json (Android) 
+// Note: The actual config values should be added to google-services.json (Android)
 // and GoogleService-Info.plist (iOS) files
 export const firebaseConfig = {
   // These values will be automatically loaded from the platform-specific config files
   // when you add your Firebase project configuration files
 };
 
-// Firebase service instances
-export const firebaseAuth = auth();
-export const firebaseFirestore = firestore();
-export const firebaseFunctions = functions();
-export const firebaseStorage = storage();
-
 // Collection references
 export const collections = {
   users: 'users',
@@ -32,44 +23,53 @@ export const collections = {
   events: 'events',
   marketplace: 'marketplace',
   trades: 'trades',
+  escrows: 'escrows',
   notifications: 'notifications',
+  presence: 'presence',
+  typing: 'typing',
+  personas: 'personas',
+  aiUsage: 'aiUsage',
+  savedSearches: 'savedSearches',
+  savedSearchAlerts: 'savedSearchAlerts',
 };
 
 // Cloud Functions
-export const cloudFunctions = {
+export const createCloudFunctions = (functions: BackendFunctions) => ({
   // Chat and messaging functions
-  sendMessage: firebaseFunctions.httpsCallable('sendMessage'),
-  createConversation: firebaseFunctions.httpsCallable('createConversation'),
-  
+  sendMessage: functions.httpsCallable('sendMessage'),
+  createConversation: functions.httpsCallable('createConversation'),
+
   // Gemini AI functions
-  generateResponse: firebaseFunctions.httpsCallable('generateResponse'),
-  processAIRequest: firebaseFunctions.httpsCallable('processAIRequest'),
-  
+  generateResponse: functions.httpsCallable('generateResponse'),
+  streamResponse: functions.httpsCallableStream('generateResponse'),
+  processAIRequest: functions.httpsCallable('processAIRequest'),
+
   // User management functions
-  updateUserProfile: firebaseFunctions.httpsCallable('updateUserProfile'),
-  followUser: firebaseFunctions.httpsCallable('followUser'),
-  unfollowUser: firebaseFunctions.httpsCallable('unfollowUser'),
-  
+  updateUserProfile: functions.httpsCallable('updateUserProfile'),
+  followUser: functions.httpsCallable('followUser'),
+  unfollowUser: functions.httpsCallable('unfollowUser'),
+
   // Marketplace functions
-  createListing: firebaseFunctions.httpsCallable('createListing'),
-  updateListing: firebaseFunctions.httpsCallable('updateListing'),
-  deleteListing: firebaseFunctions.httpsCallable('deleteListing'),
-  
+  createListing: functions.httpsCallable('createListing'),
+  updateListing: functions.httpsCallable('updateListing'),
+  deleteListing: functions.httpsCallable('deleteListing'),
+
   // Trading functions
-  createTrade: firebaseFunctions.httpsCallable('createTrade'),
-  acceptTrade: firebaseFunctions.httpsCallable('acceptTrade'),
-  rejectTrade: firebaseFunctions.httpsCallable('rejectTrade'),
-  
+  createTrade: functions.httpsCallable('createTrade'),
+  acceptTrade: functions.httpsCallable('acceptTrade'),
+  rejectTrade: functions.httpsCallable('rejectTrade'),
+  cancelTrade: functions.httpsCallable('cancelTrade'),
+
   // Payment functions
-  createStripeSession: firebaseFunctions.httpsCallable('createStripeSession'),
-  validatePromoCode: firebaseFunctions.httpsCallable('validatePromoCode'),
-};
+  createStripeSession: functions.httpsCallable('createStripeSession'),
+  openEscrow: functions.httpsCallable('openEscrow'),
+  syncEscrow: functions.httpsCallable('syncEscrow'),
+  cancelEscrow: functions.httpsCallable('cancelEscrow'),
+  confirmEscrowReceipt: functions.httpsCallable('confirmEscrowReceipt'),
+  validatePromoCode: functions.httpsCallable('validatePromoCode'),
 
-export default {
-  auth: firebaseAuth,
-  firestore: firebaseFirestore,
-  functions: firebaseFunctions,
-  storage: firebaseStorage,
-  collections,
-  cloudFunctions,
-};
+  // Admin-only migrations
+  backfillListingIndex: functions.httpsCallable('backfillListingIndex'),
+});
+
+export type CloudFunctions = ReturnType<typeof createCloudFunctions>;
@@ -0,0 +1,175 @@
+/**
+ * Firebase Backend Adapter
+ * Backs the app with @react-native-firebase; services are only instantiated
+ * when the adapter is created, never at import time
+ */
+
+import firebase from '@react-native-firebase/app';
+import auth from '@react-native-firebase/auth';
+import firestore from '@react-native-firebase/firestore';
+import functions from '@react-native-firebase/functions';
+import storage from '@react-native-firebase/storage';
+
+import {
+  Backend,
+  BackendAuth,
+  BackendFunctions,
+  BackendStorage,
+  DocumentStore,
+  FieldValueFactory,
+  StreamingCallableFunction,
+  createBackendError,
+} from './backend';
+
+// Must match the region the functions are deployed to
+const FUNCTIONS_REGION = 'us-central1';
+
+const fieldValues: FieldValueFactory = {
+  serverTimestamp: () => firestore.FieldValue.serverTimestamp(),
+  increment: (n: number) => firestore.FieldValue.increment(n),
+  arrayUnion: (...elements: any[]) => firestore.FieldValue.arrayUnion(...elements),
+  arrayRemove: (...elements: any[]) => firestore.FieldValue.arrayRemove(...elements),
+  delete: () => firestore.FieldValue.delete(),
+};
+
+const createStorageAdapter = (): BackendStorage => {
+  const firebaseStorage = storage();
+
+  return {
+    ref: (path: string) => {
+      const reference = firebaseStorage.ref(path);
+
+      return {
+        fullPath: reference.fullPath,
+        putFile: async (localPath, options = {}) => {
+          const task = reference.putFile(localPath, {contentType: options.contentType});
+          if (options.onProgress) {
+            task.on('state_changed', snapshot => {
+              if (snapshot.totalBytes > 0) {
+                options.onProgress?.(snapshot.bytesTransferred / snapshot.totalBytes);
+              }
+            });
+          }
+          await task;
+        },
+        getDownloadURL: () => reference.getDownloadURL(),
+        delete: () => reference.delete(),
+      };
+    },
+  };
+};
+
+// The native module has no streaming support, so streaming calls speak the
+// callable protocol over HTTP: the function answers with server-sent events,
+// "message" events carrying chunks and a final "result" or "error" event
+const streamCallable = (name: string): StreamingCallableFunction => {
+  return async (data, {onChunk, signal}) => {
+    const url = `https://${FUNCTIONS_REGION}-${firebase.app().options.projectId}.cloudfunctions.net/${name}`;
+    const token = await auth().currentUser?.getIdToken();
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let parsedLength = 0;
+      let buffer = '';
+      let result: unknown = null;
+      let failure: Error | null = null;
+      let malformed = false;
+
+      // A payload that is not JSON ends the call; the callback must not throw
+      // or the promise would never settle
+      const processEvents = () => {
+        if (malformed) return;
+        buffer += xhr.responseText.substring(parsedLength);
+        parsedLength = xhr.responseText.length;
+
+        // Events are separated by a blank line; the last one may be incomplete
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        events.forEach(event => {
+          const payload = event
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.substring(5).trim())
+            .join('');
+          if (!payload || malformed) return;
+
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(payload);
+          } catch (error) {
+            malformed = true;
+            reject(createBackendError('functions/internal', 'The function sent a malformed event'));
+            xhr.abort();
+            return;
+          }
+          if (!parsed || typeof parsed !== 'object') return;
+
+          const message = parsed as {message?: unknown; result?: unknown; error?: unknown};
+          if ('message' in message) {
+            onChunk(message.message);
+          } else if ('result' in message) {
+            result = message.result;
+          } else if ('error' in message) {
+            const error = (message.error || {}) as {status?: unknown; message?: unknown};
+            const status = String(error.status || 'internal').toLowerCase().replace(/_/g, '-');
+            failure = createBackendError(
+              `functions/${status}`,
+              typeof error.message === 'string' ? error.message : 'Function failed'
+            );
+          }
+        });
+      };
+
+      xhr.open('POST', url);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+      }
+
+      xhr.onprogress = processEvents;
+      xhr.onload = () => {
+        processEvents();
+        if (malformed) {
+          return;
+        } else if (failure) {
+          reject(failure);
+        } else if (xhr.status >= 400) {
+          reject(createBackendError('functions/internal', `Function responded with ${xhr.status}`));
+        } else {
+          resolve({data: result});
+        }
+      };
+      xhr.onerror = () => reject(createBackendError('functions/unavailable', 'Network request failed'));
+      xhr.onabort = () => reject(createBackendError('functions/cancelled', 'The request was cancelled'));
+
+      if (signal?.aborted) {
+        reject(createBackendError('functions/cancelled', 'The request was cancelled'));
+        return;
+      }
+      signal?.addEventListener('abort', () => xhr.abort());
+
+      xhr.send(JSON.stringify({data}));
+    });
+  };
+};
+
+const createFunctionsAdapter = (): BackendFunctions => {
+  const firebaseFunctions = functions();
+
+  return {
+    httpsCallable: (name: string) => firebaseFunctions.httpsCallable(name),
+    httpsCallableStream: streamCallable,
+  };
+};
+
+export const createFirebaseBackend = (): Backend => ({
+  name: 'firebase',
+  // The native modules implement a superset of the adapter interfaces
+  auth: auth() as unknown as BackendAuth,
+  firestore: firestore() as unknown as DocumentStore,
+  fieldValues,
+  functions: createFunctionsAdapter(),
+  storage: createStorageAdapter(),
+});
@@ -0,0 +1,192 @@
+/**
+ * Marketplace Search Index
+ * Keyword tokens and filter fields stored on each listing so searches can run
+ * as Firestore queries instead of scanning recent items on the device
+ */
+
+import {MarketplaceItem, MarketplaceSearchQuery} from '../types';
+
+// Listings run this long before they need relisting
+export const LISTING_DURATION_DAYS = 30;
+
+// Bumped whenever the stored index changes shape; older listings are rebuilt
+// by the backfill migration
+export const LISTING_INDEX_VERSION = 2;
+
+const MAX_INDEX_TOKENS = 200;
+const MAX_PREFIX_LENGTH = 15;
+const MIN_TOKEN_LENGTH = 2;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'of', 'in', 'on', 'to', 'an']);
+
+// Tags are indexed with a prefix so `#fire` and the word "fire" stay distinct
+export const toTagToken = (tag: string) => `tag:${foldAccents(tag.trim()).toLowerCase()}`;
+
+// Accents are dropped from Latin letters only, so "pokemon" finds "Pokémon"
+// while marks that change the letter in other scripts are kept
+const foldAccents = (text: string) =>
+  text.normalize('NFKD').replace(/(\p{Script=Latin})\p{M}+/gu, '$1').normalize('NFC');
+
+// Words are runs of letters, marks and digits in any script; lengths count
+// characters rather than UTF-16 units
+export const tokenize = (text: string): string[] => {
+  const tokens = foldAccents(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(token => Array.from(token).length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(token));
+  return Array.from(new Set(tokens));
+};
+
+// Title words are indexed with their prefixes so results appear while typing
+const toPrefixes = (token: string): string[] => {
+  const characters = Array.from(token);
+  const prefixes: string[] = [];
+  for (
+    let length = MIN_TOKEN_LENGTH;
+    length <= Math.min(characters.length, MAX_PREFIX_LENGTH);
+    length++
+  ) {
+    prefixes.push(characters.slice(0, length).join(''));
+  }
+  if (characters.length > MAX_PREFIX_LENGTH) {
+    prefixes.push(token);
+  }
+  return prefixes;
+};
+
+type IndexedFields = Pick<
+  MarketplaceItem,
+  'title' | 'description' | 'sellerName' | 'category' | 'tags' | 'shipping'
+>;
+
+// Written alongside every create and update of a listing
+export const buildListingIndex = (item: IndexedFields) => {
+  const keywords = new Set<string>();
+
+  tokenize(item.title).forEach(token => toPrefixes(token).forEach(prefix => keywords.add(prefix)));
+  (item.tags || []).forEach(tag => {
+    keywords.add(toTagToken(tag));
+    tokenize(tag).forEach(token => keywords.add(token));
+  });
+  tokenize(item.sellerName).forEach(token => keywords.add(token));
+  tokenize(item.category).forEach(token => keywords.add(token));
+  tokenize(item.description).forEach(token => keywords.add(token));
+
+  const shippingAvailable = !!item.shipping && item.shipping.methods.length > 0;
+
+  return {
+    searchKeywords: Array.from(keywords).slice(0, MAX_INDEX_TOKENS),
+    shippingAvailable,
+    freeShipping: shippingAvailable && item.shipping!.cost === 0,
+    searchIndexVersion: LISTING_INDEX_VERSION,
+  };
+};
+
+// Firestore allows a single array-contains per query; the most selective
+// token goes to the server and the rest are checked by matchesSearch
+export const pickIndexToken = (query: MarketplaceSearchQuery): string | null => {
+  if (query.tags && query.tags.length > 0) {
+    return toTagToken(query.tags[0]);
+  }
+
+  const tokens = tokenize(query.keywords || '');
+  if (tokens.length === 0) {
+    return null;
+  }
+  return tokens.reduce((longest, token) => (token.length > longest.length ? token : longest));
+};
+
+export const matchesSearch = (
+  item: Pick<MarketplaceItem, 'price'>,
+  searchKeywords: string[],
+  query: MarketplaceSearchQuery
+): boolean => {
+  const keywords = new Set(searchKeywords);
+
+  if (!tokenize(query.keywords || '').every(token => keywords.has(token))) {
+    return false;
+  }
+  if (!(query.tags || []).every(tag => keywords.has(toTagToken(tag)))) {
+    return false;
+  }
+  if (query.minPrice !== undefined && item.price < query.minPrice) {
+    return false;
+  }
+  if (query.maxPrice !== undefined && item.price > query.maxPrice) {
+    return false;
+  }
+  return true;
+};
+
+export const countActiveFilters = (query: MarketplaceSearchQuery): number => {
+  return [
+    query.minPrice !== undefined || query.maxPrice !== undefined,
+    !!query.currency,
+    !!query.conditions && query.conditions.length > 0,
+    !!query.shipping && query.shipping !== 'any',
+    !!query.tags && query.tags.length > 0,
+    !!query.sellerId,
+  ].filter(Boolean).length;
+};
+
+export type ListingIndex = ReturnType<typeof buildListingIndex>;
+
+// Saved searches are checked against listings by the write trigger rather
+// than by a query, so every filter a search query applies is checked here too
+export const matchesSavedSearch = (
+  item: Pick<MarketplaceItem, 'category' | 'currency' | 'sellerId' | 'condition' | 'price'>,
+  index: ListingIndex,
+  query: MarketplaceSearchQuery
+): boolean => {
+  if (query.category && query.category !== 'all' && item.category !== query.category) {
+    return false;
+  }
+  if (query.currency && item.currency !== query.currency) {
+    return false;
+  }
+  if (query.sellerId && item.sellerId !== query.sellerId) {
+    return false;
+  }
+  if (query.conditions && query.conditions.length > 0 && !query.conditions.includes(item.condition)) {
+    return false;
+  }
+  if (query.shipping === 'available' && !index.shippingAvailable) {
+    return false;
+  }
+  if (query.shipping === 'free' && !index.freeShipping) {
+    return false;
+  }
+  return matchesSearch(item, index.searchKeywords, query);
+};
+
+// One-line summary used to name and list saved searches
+export const describeSearch = (query: MarketplaceSearchQuery): string => {
+  const parts: string[] = [];
+
+  if (query.keywords) {
+    parts.push(`"${query.keywords}"`);
+  }
+  if (query.category && query.category !== 'all') {
+    parts.push(query.category);
+  }
+  (query.tags || []).forEach(tag => parts.push(`#${tag}`));
+  if (query.minPrice !== undefined && query.maxPrice !== undefined) {
+    parts.push(`${query.minPrice}–${query.maxPrice}${query.currency ? ` ${query.currency}` : ''}`);
+  } else if (query.minPrice !== undefined) {
+    parts.push(`from ${query.minPrice}${query.currency ? ` ${query.currency}` : ''}`);
+  } else if (query.maxPrice !== undefined) {
+    parts.push(`up to ${query.maxPrice}${query.currency ? ` ${query.currency}` : ''}`);
+  } else if (query.currency) {
+    parts.push(query.currency);
+  }
+  if (query.conditions && query.conditions.length > 0) {
+    parts.push(query.conditions.join('/'));
+  }
+  if (query.shipping === 'free') {
+    parts.push('free shipping');
+  } else if (query.shipping === 'available') {
+    parts.push('ships');
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'All listings';
+};
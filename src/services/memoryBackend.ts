@@ -0,0 +1,1332 @@
+/**
+ * In-Memory Backend Adapter
+ * A network-free implementation of the backend interface for screen-level
+ * tests and offline demo builds
+ */
+
+import {
+  Backend,
+  BackendAuth,
+  BackendFunctions,
+  BackendStorage,
+  BackendUser,
+  BackendUserCredential,
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  DocumentStore,
+  FieldValueFactory,
+  OrderDirection,
+  Query,
+  QuerySnapshot,
+  StorageReference,
+  StreamingCallableFunction,
+  Transaction,
+  UploadOptions,
+  WhereOperator,
+  WriteBatch,
+  createBackendError,
+} from './backend';
+import {
+  GeminiRequest,
+  GeminiResponse,
+  GeminiStreamChunk,
+  PaymentSession,
+  PaymentSessionStatus,
+  TradeAction,
+} from '../types';
+import {DEFAULT_AI_MODEL, getAIQuota} from './ai';
+import {recordAITokens, reserveAIRequest} from './aiUsage';
+import {LISTING_DURATION_DAYS, buildListingIndex} from './marketplaceSearch';
+import {backfillListingIndex} from './migrations';
+import {
+  EscrowContext,
+  PaymentProvider,
+  cancelEscrow,
+  openEscrow,
+  releaseEscrow,
+  settleDueEscrows,
+  syncEscrow,
+} from './escrow';
+import {alertSavedSearches} from './savedSearchAlerts';
+import {sendOverdueTradeReminders} from './tradeReminders';
+import {runTradeTransition} from './tradeStateMachine';
+
+// Timestamps mirror Firestore's so code calling toDate() works unchanged
+export class MemoryTimestamp {
+  constructor(private readonly millis: number) {}
+
+  static now(): MemoryTimestamp {
+    return new MemoryTimestamp(Date.now());
+  }
+
+  static fromDate(date: Date): MemoryTimestamp {
+    return new MemoryTimestamp(date.getTime());
+  }
+
+  toDate(): Date {
+    return new Date(this.millis);
+  }
+
+  toMillis(): number {
+    return this.millis;
+  }
+}
+
+type FieldValueKind = 'serverTimestamp' | 'increment' | 'arrayUnion' | 'arrayRemove' | 'delete';
+
+class MemoryFieldValue {
+  constructor(readonly kind: FieldValueKind, readonly args: any[] = []) {}
+}
+
+const fieldValues: FieldValueFactory = {
+  serverTimestamp: () => new MemoryFieldValue('serverTimestamp'),
+  increment: (n: number) => new MemoryFieldValue('increment', [n]),
+  arrayUnion: (...elements: any[]) => new MemoryFieldValue('arrayUnion', elements),
+  arrayRemove: (...elements: any[]) => new MemoryFieldValue('arrayRemove', elements),
+  delete: () => new MemoryFieldValue('delete'),
+};
+
+// Value helpers
+const isPlainObject = (value: any): boolean => {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof MemoryTimestamp) &&
+    !(value instanceof MemoryFieldValue)
+  );
+};
+
+// Copies stored data so callers can never mutate the store; Dates become timestamps
+const cloneValue = (value: any): any => {
+  if (value instanceof Date) {
+    return MemoryTimestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  }
+  if (isPlainObject(value)) {
+    const copy: DocumentData = {};
+    Object.keys(value).forEach(key => {
+      if (value[key] !== undefined) {
+        copy[key] = cloneValue(value[key]);
+      }
+    });
+    return copy;
+  }
+  return value;
+};
+
+const toComparable = (value: any): any => {
+  if (value instanceof MemoryTimestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const valuesEqual = (a: any, b: any): boolean => {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (typeof left === 'object' && left !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return left === right;
+};
+
+const compareValues = (a: any, b: any): number => {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const getField = (data: DocumentData | undefined, path: string): any => {
+  return path.split('.').reduce((value: any, key) => {
+    return value === undefined || value === null ? undefined : value[key];
+  }, data);
+};
+
+const setField = (data: DocumentData, path: string, value: any): void => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let target = data;
+  keys.forEach(key => {
+    if (!isPlainObject(target[key])) {
+      target[key] = {};
+    }
+    target = target[key];
+  });
+
+  if (value instanceof MemoryFieldValue) {
+    const resolved = resolveFieldValue(target[last], value);
+    if (resolved === undefined) {
+      delete target[last];
+    } else {
+      target[last] = resolved;
+    }
+    return;
+  }
+  target[last] = cloneValue(resolveNestedFieldValues(value));
+};
+
+// Sentinels inside a map written whole resolve as if the map were new
+const resolveNestedFieldValues = (value: any): any => {
+  if (value instanceof MemoryFieldValue) {
+    return resolveFieldValue(undefined, value);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const resolved: DocumentData = {};
+  Object.keys(value).forEach(key => {
+    const nested = resolveNestedFieldValues(value[key]);
+    if (nested !== undefined) {
+      resolved[key] = nested;
+    }
+  });
+  return resolved;
+};
+
+const resolveFieldValue = (current: any, fieldValue: MemoryFieldValue): any => {
+  switch (fieldValue.kind) {
+    case 'serverTimestamp':
+      return MemoryTimestamp.now();
+    case 'increment':
+      return (typeof current === 'number' ? current : 0) + fieldValue.args[0];
+    case 'arrayUnion': {
+      const values = Array.isArray(current) ? [...current] : [];
+      fieldValue.args.forEach(element => {
+        if (!values.some(value => valuesEqual(value, element))) {
+          values.push(cloneValue(element));
+        }
+      });
+      return values;
+    }
+    case 'arrayRemove': {
+      const values = Array.isArray(current) ? current : [];
+      return values.filter(value => !fieldValue.args.some(element => valuesEqual(value, element)));
+    }
+    case 'delete':
+      return undefined;
+  }
+};
+
+// Nested objects in set/merge payloads are written field by field
+const flattenFields = (data: DocumentData, prefix = ''): [string, any][] => {
+  const entries: [string, any][] = [];
+  Object.keys(data).forEach(key => {
+    const value = data[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value === undefined) {
+      return;
+    }
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      entries.push(...flattenFields(value, path));
+    } else {
+      entries.push([path, value]);
+    }
+  });
+  return entries;
+};
+
+const generateId = (): string => {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return id;
+};
+
+// Document store
+type WriteOperation =
+  | {type: 'set'; ref: DocumentReference; data: DocumentData; merge: boolean}
+  | {type: 'update'; ref: DocumentReference; data: DocumentData}
+  | {type: 'delete'; ref: DocumentReference};
+
+interface QuerySpec {
+  collectionPath: string;
+  filters: {field: string; operator: WhereOperator; value: any}[];
+  orders: {field: string; direction: OrderDirection}[];
+  limitCount?: number;
+  cursor?: DocumentSnapshot;
+}
+
+const matchesFilter = (data: DocumentData, filter: QuerySpec['filters'][number]): boolean => {
+  const value = getField(data, filter.field);
+  if (value === undefined) {
+    return false;
+  }
+
+  switch (filter.operator) {
+    case '==':
+      return valuesEqual(value, filter.value);
+    case '!=':
+      return !valuesEqual(value, filter.value);
+    case '<':
+      return compareValues(value, filter.value) < 0;
+    case '<=':
+      return compareValues(value, filter.value) <= 0;
+    case '>':
+      return compareValues(value, filter.value) > 0;
+    case '>=':
+      return compareValues(value, filter.value) >= 0;
+    case 'array-contains':
+      return Array.isArray(value) && value.some(element => valuesEqual(element, filter.value));
+    case 'array-contains-any':
+      return (
+        Array.isArray(value) &&
+        value.some(element => filter.value.some((candidate: any) => valuesEqual(element, candidate)))
+      );
+    case 'in':
+      return filter.value.some((candidate: any) => valuesEqual(value, candidate));
+    case 'not-in':
+      return !filter.value.some((candidate: any) => valuesEqual(value, candidate));
+    default:
+      return false;
+  }
+};
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+export interface MemoryDocumentChange {
+  documentId: string;
+  // Null when the write created or deleted the document
+  before: DocumentData | null;
+  after: DocumentData | null;
+}
+
+export type MemoryWriteTrigger = (change: MemoryDocumentChange) => unknown;
+
+export class MemoryDocumentStore implements DocumentStore {
+  private documents = new Map<string, Map<string, DocumentData>>();
+  // Bumped on every write so transactions can tell a document changed under them
+  private versions = new Map<string, number>();
+  private listeners = new Set<{collectionPath: string; notify: () => void}>();
+  private triggers = new Map<string, MemoryWriteTrigger[]>();
+  private pendingTriggers = new Set<Promise<void>>();
+
+  collection(collectionPath: string): CollectionReference {
+    return new MemoryQuery(this, {collectionPath, filters: [], orders: []}) as CollectionReference;
+  }
+
+  batch(): WriteBatch {
+    return new MemoryWriteBatch(this);
+  }
+
+  async runTransaction<T>(updateFunction: (transaction: Transaction) => Promise<T>): Promise<T> {
+    for (let attempt = 0; attempt < MAX_TRANSACTION_ATTEMPTS; attempt++) {
+      const transaction = new MemoryTransaction(this);
+      const result = await updateFunction(transaction);
+      if (transaction.isCurrent()) {
+        this.commit(transaction.operations);
+        return result;
+      }
+    }
+    throw createBackendError('firestore/aborted', 'Transaction failed after repeated conflicts');
+  }
+
+  getVersion(ref: DocumentReference): number {
+    return this.versions.get(ref.path) || 0;
+  }
+
+  // Seeds documents without going through field value resolution
+  seed(collectionPath: string, documentId: string, data: DocumentData): void {
+    this.getCollection(collectionPath).set(documentId, cloneValue(data));
+  }
+
+  read(ref: DocumentReference): DocumentSnapshot {
+    const {collectionPath, documentId} = splitDocumentPath(ref.path);
+    const data = this.getCollection(collectionPath).get(documentId);
+    return createSnapshot(ref, data);
+  }
+
+  commit(operations: WriteOperation[]): void {
+    // Validate before applying anything so a failed batch leaves the store untouched
+    operations.forEach(operation => {
+      if (operation.type === 'update' && !this.read(operation.ref).exists) {
+        throw createBackendError(
+          'firestore/not-found',
+          `No document to update: ${operation.ref.path}`
+        );
+      }
+    });
+
+    const changes = new Map<string, MemoryDocumentChange>();
+    operations.forEach(operation => {
+      const {collectionPath, documentId} = splitDocumentPath(operation.ref.path);
+      if (this.triggers.has(collectionPath) && !changes.has(operation.ref.path)) {
+        const before = this.getCollection(collectionPath).get(documentId);
+        changes.set(operation.ref.path, {
+          documentId,
+          before: before ? cloneValue(before) : null,
+          after: null,
+        });
+      }
+    });
+
+    const touched = new Set<string>();
+    operations.forEach(operation => {
+      const {collectionPath, documentId} = splitDocumentPath(operation.ref.path);
+      const collection = this.getCollection(collectionPath);
+      touched.add(collectionPath);
+      this.versions.set(operation.ref.path, this.getVersion(operation.ref) + 1);
+
+      if (operation.type === 'delete') {
+        collection.delete(documentId);
+        return;
+      }
+
+      const base =
+        operation.type === 'set' && !operation.merge
+          ? {}
+          : cloneValue(collection.get(documentId) || {});
+      const entries =
+        operation.type === 'update'
+          ? Object.keys(operation.data).map(key => [key, operation.data[key]] as [string, any])
+          : flattenFields(operation.data);
+
+      entries.forEach(([path, value]) => setField(base, path, value));
+      collection.set(documentId, base);
+    });
+
+    this.listeners.forEach(listener => {
+      if (touched.has(listener.collectionPath)) {
+        listener.notify();
+      }
+    });
+
+    changes.forEach((change, documentPath) => {
+      const {collectionPath, documentId} = splitDocumentPath(documentPath);
+      const after = this.getCollection(collectionPath).get(documentId);
+      this.runTriggers(collectionPath, {...change, after: after ? cloneValue(after) : null});
+    });
+  }
+
+  // Triggers run after the write has committed, like Cloud Functions document
+  // triggers, and their failures never reach the writer
+  onWrite(collectionPath: string, trigger: MemoryWriteTrigger): () => void {
+    this.triggers.set(collectionPath, [...(this.triggers.get(collectionPath) || []), trigger]);
+    return () => {
+      const remaining = (this.triggers.get(collectionPath) || []).filter(
+        candidate => candidate !== trigger
+      );
+      if (remaining.length > 0) {
+        this.triggers.set(collectionPath, remaining);
+      } else {
+        this.triggers.delete(collectionPath);
+      }
+    };
+  }
+
+  // Resolves once every trigger has finished, including ones started by
+  // writes the triggers made themselves
+  async settleTriggers(): Promise<void> {
+    while (this.pendingTriggers.size > 0) {
+      await Promise.all(Array.from(this.pendingTriggers));
+    }
+  }
+
+  private runTriggers(collectionPath: string, change: MemoryDocumentChange): void {
+    if (!change.before && !change.after) {
+      return;
+    }
+    (this.triggers.get(collectionPath) || []).forEach(trigger => {
+      const run: Promise<void> = Promise.resolve()
+        .then(() => trigger(change))
+        .then(
+          () => undefined,
+          error => console.error(`Error in ${collectionPath} write trigger:`, error)
+        )
+        .finally(() => this.pendingTriggers.delete(run));
+      this.pendingTriggers.add(run);
+    });
+  }
+
+  runQuery(spec: QuerySpec): DocumentSnapshot[] {
+    const collection = this.getCollection(spec.collectionPath);
+    let results = Array.from(collection.entries())
+      .filter(([, data]) => spec.filters.every(filter => matchesFilter(data, filter)))
+      // Documents missing an ordered field are excluded, as in Firestore
+      .filter(([, data]) => spec.orders.every(order => getField(data, order.field) !== undefined));
+
+    const compareDocuments = (
+      [leftId, left]: [string, DocumentData],
+      [rightId, right]: [string, DocumentData]
+    ): number => {
+      for (const order of spec.orders) {
+        const result = compareValues(getField(left, order.field), getField(right, order.field));
+        if (result !== 0) {
+          return order.direction === 'desc' ? -result : result;
+        }
+      }
+      return leftId < rightId ? -1 : leftId > rightId ? 1 : 0;
+    };
+
+    results.sort(compareDocuments);
+
+    if (spec.cursor) {
+      const cursorEntry: [string, DocumentData] = [spec.cursor.id, spec.cursor.data() || {}];
+      results = results.filter(entry => compareDocuments(entry, cursorEntry) > 0);
+    }
+
+    if (spec.limitCount !== undefined) {
+      results = results.slice(0, spec.limitCount);
+    }
+
+    return results.map(([documentId, data]) =>
+      createSnapshot(this.doc(`${spec.collectionPath}/${documentId}`), data)
+    );
+  }
+
+  subscribe(collectionPath: string, notify: () => void): () => void {
+    const listener = {collectionPath, notify};
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  doc(documentPath: string): DocumentReference {
+    return new MemoryDocumentReference(this, documentPath);
+  }
+
+  private getCollection(collectionPath: string): Map<string, DocumentData> {
+    let collection = this.documents.get(collectionPath);
+    if (!collection) {
+      collection = new Map();
+      this.documents.set(collectionPath, collection);
+    }
+    return collection;
+  }
+}
+
+const splitDocumentPath = (documentPath: string) => {
+  const index = documentPath.lastIndexOf('/');
+  return {
+    collectionPath: documentPath.substring(0, index),
+    documentId: documentPath.substring(index + 1),
+  };
+};
+
+const createSnapshot = (ref: DocumentReference, data: DocumentData | undefined): DocumentSnapshot => {
+  const stored = data ? cloneValue(data) : undefined;
+  return {
+    id: ref.id,
+    exists: stored !== undefined,
+    ref,
+    data: () => (stored ? cloneValue(stored) : undefined),
+  };
+};
+
+const createQuerySnapshot = (docs: DocumentSnapshot[]): QuerySnapshot => ({
+  docs,
+  empty: docs.length === 0,
+  size: docs.length,
+});
+
+// Listeners fire asynchronously, like the Firestore SDK
+const deliver = (callback: () => void) => {
+  Promise.resolve().then(callback);
+};
+
+class MemoryQuery implements Query {
+  constructor(protected readonly store: MemoryDocumentStore, protected readonly spec: QuerySpec) {}
+
+  get id(): string {
+    return this.spec.collectionPath.split('/').pop()!;
+  }
+
+  get path(): string {
+    return this.spec.collectionPath;
+  }
+
+  doc(documentId?: string): DocumentReference {
+    return this.store.doc(`${this.spec.collectionPath}/${documentId || generateId()}`);
+  }
+
+  async add(data: DocumentData): Promise<DocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+
+  where(field: string, operator: WhereOperator, value: any): Query {
+    return this.extend({filters: [...this.spec.filters, {field, operator, value}]});
+  }
+
+  orderBy(field: string, direction: OrderDirection = 'asc'): Query {
+    return this.extend({orders: [...this.spec.orders, {field, direction}]});
+  }
+
+  limit(count: number): Query {
+    return this.extend({limitCount: count});
+  }
+
+  startAfter(snapshot: DocumentSnapshot): Query {
+    return this.extend({cursor: snapshot});
+  }
+
+  async get(): Promise<QuerySnapshot> {
+    return createQuerySnapshot(this.store.runQuery(this.spec));
+  }
+
+  onSnapshot(onNext: (snapshot: QuerySnapshot) => void, onError?: (error: Error) => void): () => void {
+    let active = true;
+    const emit = () =>
+      deliver(() => {
+        if (!active) return;
+        try {
+          onNext(createQuerySnapshot(this.store.runQuery(this.spec)));
+        } catch (error) {
+          onError?.(error as Error);
+        }
+      });
+
+    const unsubscribe = this.store.subscribe(this.spec.collectionPath, emit);
+    emit();
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+
+  private extend(changes: Partial<QuerySpec>): Query {
+    return new MemoryQuery(this.store, {...this.spec, ...changes});
+  }
+}
+
+class MemoryDocumentReference implements DocumentReference {
+  readonly id: string;
+
+  constructor(private readonly store: MemoryDocumentStore, readonly path: string) {
+    this.id = splitDocumentPath(path).documentId;
+  }
+
+  collection(collectionPath: string): CollectionReference {
+    return this.store.collection(`${this.path}/${collectionPath}`);
+  }
+
+  async get(): Promise<DocumentSnapshot> {
+    return this.store.read(this);
+  }
+
+  async set(data: DocumentData, options: {merge?: boolean} = {}): Promise<void> {
+    this.store.commit([{type: 'set', ref: this, data, merge: options.merge || false}]);
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    this.store.commit([{type: 'update', ref: this, data}]);
+  }
+
+  async delete(): Promise<void> {
+    this.store.commit([{type: 'delete', ref: this}]);
+  }
+
+  onSnapshot(
+    onNext: (snapshot: DocumentSnapshot) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    let active = true;
+    const emit = () =>
+      deliver(() => {
+        if (!active) return;
+        try {
+          onNext(this.store.read(this));
+        } catch (error) {
+          onError?.(error as Error);
+        }
+      });
+
+    const unsubscribe = this.store.subscribe(splitDocumentPath(this.path).collectionPath, emit);
+    emit();
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+}
+
+class MemoryWriteBatch implements WriteBatch {
+  private operations: WriteOperation[] = [];
+
+  constructor(private readonly store: MemoryDocumentStore) {}
+
+  set(ref: DocumentReference, data: DocumentData, options: {merge?: boolean} = {}): WriteBatch {
+    this.operations.push({type: 'set', ref, data, merge: options.merge || false});
+    return this;
+  }
+
+  update(ref: DocumentReference, data: DocumentData): WriteBatch {
+    this.operations.push({type: 'update', ref, data});
+    return this;
+  }
+
+  delete(ref: DocumentReference): WriteBatch {
+    this.operations.push({type: 'delete', ref});
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.store.commit(this.operations);
+  }
+}
+
+class MemoryTransaction implements Transaction {
+  readonly operations: WriteOperation[] = [];
+  private readVersions = new Map<string, {ref: DocumentReference; version: number}>();
+
+  constructor(private readonly store: MemoryDocumentStore) {}
+
+  async get(ref: DocumentReference): Promise<DocumentSnapshot> {
+    if (this.operations.length > 0) {
+      throw createBackendError(
+        'firestore/invalid-argument',
+        'Transactions must perform all reads before any writes'
+      );
+    }
+    this.readVersions.set(ref.path, {ref, version: this.store.getVersion(ref)});
+    return this.store.read(ref);
+  }
+
+  set(ref: DocumentReference, data: DocumentData, options: {merge?: boolean} = {}): Transaction {
+    this.operations.push({type: 'set', ref, data, merge: options.merge || false});
+    return this;
+  }
+
+  update(ref: DocumentReference, data: DocumentData): Transaction {
+    this.operations.push({type: 'update', ref, data});
+    return this;
+  }
+
+  delete(ref: DocumentReference): Transaction {
+    this.operations.push({type: 'delete', ref});
+    return this;
+  }
+
+  isCurrent(): boolean {
+    return Array.from(this.readVersions.values()).every(
+      ({ref, version}) => this.store.getVersion(ref) === version
+    );
+  }
+}
+
+// Auth
+export interface MemoryAccount {
+  uid?: string;
+  email: string;
+  password: string;
+  displayName?: string | null;
+  photoURL?: string | null;
+  emailVerified?: boolean;
+  claims?: {[key: string]: any};
+}
+
+export class MemoryAuth implements BackendAuth {
+  private accounts = new Map<string, Required<MemoryAccount>>();
+  private signedIn: Required<MemoryAccount> | null = null;
+  private listeners = new Set<(user: BackendUser | null) => void>();
+
+  get currentUser(): BackendUser | null {
+    return this.signedIn ? this.toUser(this.signedIn) : null;
+  }
+
+  addAccount(account: MemoryAccount): BackendUser {
+    const stored: Required<MemoryAccount> = {
+      uid: account.uid || generateId(),
+      email: account.email.toLowerCase(),
+      password: account.password,
+      displayName: account.displayName || null,
+      photoURL: account.photoURL || null,
+      emailVerified: account.emailVerified || false,
+      claims: account.claims || {},
+    };
+    this.accounts.set(stored.email, stored);
+    return this.toUser(stored);
+  }
+
+  onAuthStateChanged(listener: (user: BackendUser | null) => void): () => void {
+    this.listeners.add(listener);
+    deliver(() => {
+      if (this.listeners.has(listener)) {
+        listener(this.currentUser);
+      }
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async signInWithEmailAndPassword(email: string, password: string): Promise<BackendUserCredential> {
+    const account = this.accounts.get(email.toLowerCase());
+    if (!account) {
+      throw createBackendError('auth/user-not-found', 'There is no user record for this email.');
+    }
+    if (account.password !== password) {
+      throw createBackendError('auth/wrong-password', 'The password is invalid.');
+    }
+    this.setSignedIn(account);
+    return {user: this.toUser(account)};
+  }
+
+  async createUserWithEmailAndPassword(email: string, password: string): Promise<BackendUserCredential> {
+    if (!email.includes('@')) {
+      throw createBackendError('auth/invalid-email', 'The email address is badly formatted.');
+    }
+    if (this.accounts.has(email.toLowerCase())) {
+      throw createBackendError('auth/email-already-in-use', 'The email address is already in use.');
+    }
+    if (password.length < 6) {
+      throw createBackendError('auth/weak-password', 'Password should be at least 6 characters.');
+    }
+    this.addAccount({email, password});
+    const account = this.accounts.get(email.toLowerCase())!;
+    this.setSignedIn(account);
+    return {user: this.toUser(account)};
+  }
+
+  async signOut(): Promise<void> {
+    this.setSignedIn(null);
+  }
+
+  async sendPasswordResetEmail(email: string): Promise<void> {
+    if (!this.accounts.has(email.toLowerCase())) {
+      throw createBackendError('auth/user-not-found', 'There is no user record for this email.');
+    }
+  }
+
+  private setSignedIn(account: Required<MemoryAccount> | null) {
+    this.signedIn = account;
+    const user = this.currentUser;
+    this.listeners.forEach(listener => deliver(() => listener(user)));
+  }
+
+  private toUser(account: Required<MemoryAccount>): BackendUser {
+    return {
+      uid: account.uid,
+      email: account.email,
+      displayName: account.displayName,
+      photoURL: account.photoURL,
+      emailVerified: account.emailVerified,
+      getIdTokenResult: async () => ({claims: {...account.claims}}),
+      updateProfile: async updates => {
+        if (updates.displayName !== undefined) {
+          account.displayName = updates.displayName;
+        }
+        if (updates.photoURL !== undefined) {
+          account.photoURL = updates.photoURL;
+        }
+      },
+    };
+  }
+}
+
+// Callable functions
+export interface MemoryFunctionContext {
+  auth: BackendUser | null;
+  backend: MemoryBackend;
+  // Only set for streaming calls, like the callable response's sendChunk
+  sendChunk?: (chunk: any) => void;
+  signal?: AbortSignal;
+}
+
+export type MemoryFunctionHandler = (data: any, context: MemoryFunctionContext) => any;
+
+// Scheduled functions run without a caller
+export type MemoryScheduledHandler = (backend: MemoryBackend) => Promise<unknown>;
+
+// Round-trip through JSON like a real network call
+const toWire = (value: any): any => {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+};
+
+export class MemoryFunctions implements BackendFunctions {
+  private handlers = new Map<string, MemoryFunctionHandler>();
+  private schedules = new Map<string, MemoryScheduledHandler>();
+
+  constructor(private readonly getContext: () => MemoryFunctionContext) {}
+
+  register(name: string, handler: MemoryFunctionHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  schedule(name: string, handler: MemoryScheduledHandler): void {
+    this.schedules.set(name, handler);
+  }
+
+  // Nothing runs scheduled functions by itself here, so tests and demos
+  // start a run when they want one
+  async runScheduled(name: string): Promise<unknown> {
+    const handler = this.schedules.get(name);
+    if (!handler) {
+      throw createBackendError('functions/not-found', `No scheduled function named "${name}"`);
+    }
+    return handler(this.getContext().backend);
+  }
+
+  httpsCallable(name: string) {
+    return async (data?: any) => {
+      const handler = this.handlers.get(name);
+      if (!handler) {
+        throw createBackendError('functions/not-found', `No handler registered for "${name}"`);
+      }
+      const result = await handler(toWire(data), this.getContext());
+      return {data: result === undefined ? null : toWire(result)};
+    };
+  }
+
+  httpsCallableStream(name: string): StreamingCallableFunction {
+    return async (data, {onChunk, signal}) => {
+      const handler = this.handlers.get(name);
+      if (!handler) {
+        throw createBackendError('functions/not-found', `No handler registered for "${name}"`);
+      }
+
+      const cancelled = () => createBackendError('functions/cancelled', 'The request was cancelled');
+      if (signal?.aborted) {
+        throw cancelled();
+      }
+
+      // The listener goes away with the call, so finished calls leave nothing behind
+      let onAbort = () => {};
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(cancelled());
+        signal?.addEventListener('abort', onAbort, {once: true});
+      });
+      try {
+        const result = await Promise.race([
+          Promise.resolve(
+            handler(toWire(data), {
+              ...this.getContext(),
+              sendChunk: chunk => {
+                if (!signal?.aborted) {
+                  onChunk(toWire(chunk));
+                }
+              },
+              signal,
+            })
+          ),
+          aborted,
+        ]);
+        return {data: result === undefined ? null : toWire(result)};
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    };
+  }
+}
+
+// Stand-in for generateResponse that answers with `respond` and, on streaming
+// calls, sends the answer a word at a time. Like the deployed function it
+// holds each caller to their tier's quota and counts a token per word sent,
+// including the words of an answer stopped part way
+export const createAIStubHandler = (
+  respond: (request: GeminiRequest) => string,
+  chunkDelayMs: number = 40
+): MemoryFunctionHandler => {
+  return async (request: GeminiRequest, {auth, backend, sendChunk, signal}) => {
+    if (!auth) {
+      throw createBackendError('functions/unauthenticated', 'Sign in to use the assistant');
+    }
+
+    const ledger = {firestore: backend.firestore, fieldValues: backend.fieldValues};
+    const model = request.model || DEFAULT_AI_MODEL;
+    const startedAt = new Date();
+    const {claims} = await auth.getIdTokenResult();
+    await reserveAIRequest(ledger, auth.uid, getAIQuota(claims), model, startedAt);
+
+    const response = respond(request);
+    const words = response.split(' ');
+    let sent = words.length;
+
+    if (sendChunk) {
+      for (sent = 0; sent < words.length && !signal?.aborted; sent++) {
+        const chunk: GeminiStreamChunk = {text: sent === 0 ? words[sent] : ` ${words[sent]}`};
+        sendChunk(chunk);
+        await new Promise<void>(resolve => setTimeout(() => resolve(), chunkDelayMs));
+      }
+    }
+    await recordAITokens(ledger, auth.uid, model, sent, startedAt);
+
+    const result: GeminiResponse = {
+      response,
+      model,
+      tokens: sent,
+      processingTime: Date.now() - startedAt.getTime(),
+      conversationId: request.conversationId || '',
+    };
+    return result;
+  };
+};
+
+// Trade callables go through the same state machine as the app, acting as
+// the signed-in user
+export const createTradeTransitionHandler = (action: TradeAction): MemoryFunctionHandler => {
+  return async (request: {tradeId: string; reason?: string}, {auth, backend}) => {
+    if (!auth) {
+      throw createBackendError('functions/unauthenticated', 'Sign in to change a trade');
+    }
+
+    const status = await runTradeTransition(
+      {firestore: backend.firestore, timestamp: () => backend.fieldValues.serverTimestamp()},
+      {tradeId: request.tradeId, actorId: auth.uid, action, note: request.reason}
+    );
+    return {status};
+  };
+};
+
+// Escrow callables act as the signed-in user, on the server's clock
+export const createEscrowHandlers = (
+  provider: PaymentProvider,
+  now: () => Date = () => new Date()
+): {[name: string]: MemoryFunctionHandler} => {
+  const asUser =
+    <T>(action: (context: EscrowContext, uid: string, request: any) => Promise<T>) =>
+    async (request: any, {auth, backend}: MemoryFunctionContext): Promise<T> => {
+      if (!auth) {
+        throw createBackendError('functions/unauthenticated', 'Sign in to buy items');
+      }
+      const context: EscrowContext = {
+        firestore: backend.firestore,
+        timestamp: () => backend.fieldValues.serverTimestamp(),
+        provider,
+        now,
+      };
+      return action(context, auth.uid, request || {});
+    };
+
+  return {
+    openEscrow: asUser(async (context, uid, {itemId}) => ({
+      escrowId: await openEscrow(context, uid, itemId),
+    })),
+    syncEscrow: asUser(async (context, uid, {escrowId}) => ({
+      status: await syncEscrow(context, escrowId, uid),
+    })),
+    cancelEscrow: asUser(async (context, uid, {escrowId}) => ({
+      status: await cancelEscrow(context, escrowId, uid),
+    })),
+    confirmEscrowReceipt: asUser(async (context, uid, {escrowId}) => {
+      await releaseEscrow(context, escrowId, 'confirmed', uid);
+      return {status: 'released'};
+    }),
+  };
+};
+
+// Releases and expiries due by the server's clock
+export const createEscrowSchedules = (
+  provider: PaymentProvider,
+  now: () => Date = () => new Date()
+): {[name: string]: MemoryScheduledHandler} => ({
+  settleDueEscrows: backend =>
+    settleDueEscrows({
+      firestore: backend.firestore,
+      timestamp: () => backend.fieldValues.serverTimestamp(),
+      provider,
+      now,
+    }),
+});
+
+export interface FakePaymentProviderOptions {
+  // Sessions are paid as soon as they open, for demos without a checkout page
+  autoPay?: boolean;
+  // Clock for session expiry and the escrow callables, so tests can move time on
+  now?: () => Date;
+}
+
+// Local stand-in for the payment provider, with the escrow callables running
+// against it. Sessions stay open until pay() is called or they pass their
+// expiry, and paid funds only move on release or refund
+export const createFakePaymentProvider = ({
+  autoPay = false,
+  now = () => new Date(),
+}: FakePaymentProviderOptions = {}) => {
+  const sessions = new Map<string, PaymentSession>();
+  let nextSessionId = 1;
+
+  const getSession = (sessionId: string): PaymentSession => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      throw createBackendError('payments/not-found', 'Payment session not found');
+    }
+    if (
+      session.status === 'open' &&
+      session.expiresAt &&
+      session.expiresAt.getTime() <= now().getTime()
+    ) {
+      session.status = 'expired';
+    }
+    return session;
+  };
+
+  // Repeating a status change is a no-op, like retried provider calls
+  const setStatus = (
+    sessionId: string,
+    from: PaymentSessionStatus,
+    to: PaymentSessionStatus
+  ): PaymentSession => {
+    const session = getSession(sessionId);
+    if (session.status !== to && session.status !== from) {
+      throw createBackendError('payments/invalid-status', `This payment is ${session.status}`);
+    }
+    if (session.status !== to && to === 'paid') {
+      session.paidAt = now();
+    }
+    session.status = to;
+    return {...session};
+  };
+
+  const provider: PaymentProvider = {
+    createSession: async request => {
+      if (!(request.amount > 0)) {
+        throw createBackendError('payments/invalid-amount', 'The amount must be positive');
+      }
+
+      const id = `fake_session_${nextSessionId++}`;
+      sessions.set(id, {
+        id,
+        url: `fake-payments://checkout/${id}`,
+        status: 'open',
+        amount: request.amount,
+        currency: request.currency,
+        expiresAt: request.expiresAt,
+      });
+      return autoPay ? setStatus(id, 'open', 'paid') : {...getSession(id)};
+    },
+    getSession: async sessionId => ({...getSession(sessionId)}),
+    cancelSession: async sessionId => setStatus(sessionId, 'open', 'cancelled'),
+    releasePayment: async sessionId => setStatus(sessionId, 'paid', 'released'),
+    refundPayment: async sessionId => setStatus(sessionId, 'paid', 'refunded'),
+  };
+
+  return {
+    provider,
+    handlers: createEscrowHandlers(provider, now),
+    schedules: createEscrowSchedules(provider, now),
+    getSession: (sessionId: string) => ({...getSession(sessionId)}),
+    pay: (sessionId: string) => setStatus(sessionId, 'open', 'paid'),
+    expire: (sessionId: string) => setStatus(sessionId, 'open', 'expired'),
+  };
+};
+
+// Migrations rewrite every user's documents, so only admins may run them
+export const backfillListingIndexHandler: MemoryFunctionHandler = async (_, {auth, backend}) => {
+  const claims = auth ? (await auth.getIdTokenResult()).claims : {};
+  if (!claims.admin && claims.role !== 'admin') {
+    throw createBackendError('functions/permission-denied', 'Only admins can run migrations');
+  }
+
+  return {updated: await backfillListingIndex(backend.firestore)};
+};
+
+export const createTradeReminderSchedule = (
+  now: () => Date = () => new Date()
+): MemoryScheduledHandler => {
+  return backend =>
+    sendOverdueTradeReminders(
+      {firestore: backend.firestore, fieldValues: backend.fieldValues},
+      now()
+    );
+};
+
+// Listing writes alert the saved searches they newly match
+export const savedSearchAlertTrigger: MemoryBackendTrigger = (change, backend) =>
+  alertSavedSearches(
+    {firestore: backend.firestore, fieldValues: backend.fieldValues},
+    change.documentId,
+    change.before,
+    change.after
+  );
+
+// Blob storage
+// Download URLs are the uploaded local paths, so images still render offline
+export class MemoryStorage implements BackendStorage {
+  private files = new Map<string, {localPath: string; contentType?: string}>();
+
+  ref(path: string): StorageReference {
+    return {
+      fullPath: path,
+      putFile: async (localPath: string, options: UploadOptions = {}) => {
+        this.files.set(path, {localPath, contentType: options.contentType});
+        options.onProgress?.(1);
+      },
+      getDownloadURL: async () => {
+        const file = this.files.get(path);
+        if (!file) {
+          throw createBackendError('storage/object-not-found', `No object exists at ${path}`);
+        }
+        return file.localPath;
+      },
+      delete: async () => {
+        if (!this.files.delete(path)) {
+          throw createBackendError('storage/object-not-found', `No object exists at ${path}`);
+        }
+      },
+    };
+  }
+
+  has(path: string): boolean {
+    return this.files.has(path);
+  }
+}
+
+export interface MemoryBackend extends Backend {
+  auth: MemoryAuth;
+  firestore: MemoryDocumentStore;
+  functions: MemoryFunctions;
+  storage: MemoryStorage;
+}
+
+export type MemoryBackendTrigger = (
+  change: MemoryDocumentChange,
+  backend: MemoryBackend
+) => unknown;
+
+export interface MemoryBackendSeed {
+  accounts?: MemoryAccount[];
+  signedInEmail?: string;
+  documents?: {[collectionPath: string]: {[documentId: string]: DocumentData}};
+  functions?: {[name: string]: MemoryFunctionHandler};
+  // Document write triggers by collection, standing in for deployed ones
+  triggers?: {[collectionPath: string]: MemoryBackendTrigger};
+  // Scheduled functions by name, run with functions.runScheduled
+  schedules?: {[name: string]: MemoryScheduledHandler};
+}
+
+export const createMemoryBackend = (seed: MemoryBackendSeed = {}): MemoryBackend => {
+  const auth = new MemoryAuth();
+  const firestore = new MemoryDocumentStore();
+  const storage = new MemoryStorage();
+
+  const backend: MemoryBackend = {
+    name: 'memory',
+    auth,
+    firestore,
+    fieldValues,
+    functions: new MemoryFunctions(() => ({auth: auth.currentUser, backend})),
+    storage,
+  };
+
+  (seed.accounts || []).forEach(account => auth.addAccount(account));
+  Object.keys(seed.documents || {}).forEach(collectionPath => {
+    const documents = seed.documents![collectionPath];
+    Object.keys(documents).forEach(documentId => {
+      firestore.seed(collectionPath, documentId, documents[documentId]);
+    });
+  });
+  Object.keys(seed.functions || {}).forEach(name => {
+    backend.functions.register(name, seed.functions![name]);
+  });
+  Object.keys(seed.triggers || {}).forEach(collectionPath => {
+    firestore.onWrite(collectionPath, change => seed.triggers![collectionPath](change, backend));
+  });
+  Object.keys(seed.schedules || {}).forEach(name => {
+    backend.functions.schedule(name, seed.schedules![name]);
+  });
+
+  if (seed.signedInEmail) {
+    const account = seed.accounts?.find(
+      candidate => candidate.email.toLowerCase() === seed.signedInEmail!.toLowerCase()
+    );
+    if (account) {
+      auth.signInWithEmailAndPassword(account.email, account.password);
+    }
+  }
+
+  return backend;
+};
+
+// Seed for the offline demo build
+const demoPayments = createFakePaymentProvider({autoPay: true});
+
+const demoListing = {
+  title: 'Charizard Base Set (Unlimited)',
+  description: 'Light play, centered well.',
+  price: 320,
+  currency: 'USD',
+  sellerId: 'demo-seller',
+  sellerName: 'Card Shop',
+  images: [],
+  category: 'cards',
+  condition: 'good',
+  tags: ['pokemon'],
+  shipping: {cost: 5, methods: ['Standard Shipping'], locations: ['United States']},
+};
+
+export const demoSeed: MemoryBackendSeed = {
+  accounts: [
+    {
+      uid: 'demo-user',
+      email: 'demo@hatake.social',
+      password: 'demo1234',
+      displayName: 'Demo Collector',
+    },
+    {
+      uid: 'demo-seller',
+      email: 'seller@hatake.social',
+      password: 'demo1234',
+      displayName: 'Card Shop',
+    },
+  ],
+  documents: {
+    users: {
+      'demo-user': {displayName: 'Demo Collector', email: 'demo@hatake.social', followers: [], following: []},
+      'demo-seller': {displayName: 'Card Shop', email: 'seller@hatake.social', followers: [], following: []},
+    },
+    posts: {
+      'demo-post': {
+        content: 'Just pulled a foil Black Lotus proxy for my cube!',
+        authorId: 'demo-seller',
+        authorName: 'Card Shop',
+        authorAvatar: null,
+        timestamp: new Date(),
+        likes: [],
+        comments: [],
+        shares: 0,
+        images: [],
+        type: 'text',
+        visibility: 'public',
+        tags: ['mtg', 'cube'],
+      },
+    },
+    marketplace: {
+      'demo-listing': {
+        ...demoListing,
+        ...buildListingIndex(demoListing),
+        status: 'available',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        expiresAt: new Date(Date.now() + LISTING_DURATION_DAYS * 24 * 60 * 60 * 1000),
+      },
+    },
+  },
+  functions: {
+    // Canned assistant so AI conversations work without the Gemini backend
+    generateResponse: createAIStubHandler(request =>
+      request.responseFormat === 'json'
+        ? JSON.stringify({
+            title: 'Demo listing',
+            description: 'Suggested by the offline demo assistant without looking at the photos.',
+            tags: ['demo'],
+          })
+        : `This is the offline demo, so there is no assistant to ask about "${request.prompt}".`
+    ),
+    acceptTrade: createTradeTransitionHandler('accept'),
+    rejectTrade: createTradeTransitionHandler('reject'),
+    cancelTrade: createTradeTransitionHandler('cancel'),
+    backfillListingIndex: backfillListingIndexHandler,
+    ...demoPayments.handlers,
+  },
+  triggers: {
+    marketplace: savedSearchAlertTrigger,
+  },
+  schedules: {
+    ...demoPayments.schedules,
+    sendTradeReminders: createTradeReminderSchedule(),
+  },
+};
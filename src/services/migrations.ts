@@ -0,0 +1,65 @@
+/**
+ * Data Migrations
+ * One-off rewrites of existing documents, run by admin-only callables so they
+ * can touch every user's data
+ */
+
+import {DocumentSnapshot, DocumentStore, QuerySnapshot} from './backend';
+import {collections} from './firebase';
+import {
+  LISTING_DURATION_DAYS,
+  LISTING_INDEX_VERSION,
+  buildListingIndex,
+} from './marketplaceSearch';
+
+const BACKFILL_PAGE_SIZE = 200;
+
+// Rebuilds the search index of listings written before it existed, or by an
+// older version of it. Available listings without an expiry get a full
+// listing period from now so they show up in "ending soon" searches. Safe to
+// run again: listings already on the current index version are skipped
+export const backfillListingIndex = async (
+  firestore: DocumentStore,
+  now: Date = new Date()
+): Promise<number> => {
+  const expiresAt = new Date(now.getTime() + LISTING_DURATION_DAYS * 24 * 60 * 60 * 1000);
+  let cursor: DocumentSnapshot | null = null;
+  let updated = 0;
+
+  for (;;) {
+    const query = firestore
+      .collection(collections.marketplace)
+      .orderBy('createdAt', 'asc')
+      .limit(BACKFILL_PAGE_SIZE);
+    const snapshot: QuerySnapshot = await (cursor ? query.startAfter(cursor) : query).get();
+
+    const batch = firestore.batch();
+    let pending = 0;
+    snapshot.docs.forEach(doc => {
+      const data = doc.data() || {};
+      if (data.searchIndexVersion === LISTING_INDEX_VERSION) return;
+
+      batch.update(doc.ref, {
+        ...buildListingIndex({
+          title: data.title || '',
+          description: data.description || '',
+          sellerName: data.sellerName || '',
+          category: data.category || '',
+          tags: data.tags || [],
+          shipping: data.shipping,
+        }),
+        ...(!data.expiresAt && data.status === 'available' && {expiresAt}),
+      });
+      pending++;
+    });
+    if (pending > 0) {
+      await batch.commit();
+      updated += pending;
+    }
+
+    if (snapshot.size < BACKFILL_PAGE_SIZE) {
+      return updated;
+    }
+    cursor = snapshot.docs[snapshot.size - 1];
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Offline Action Registry
+ * Typed actions queued while offline and the handlers that replay them
+ * against the backend once connectivity returns
+ */
+
+import {getErrorCode} from './backend';
+import {NewMarketplaceItem, NewPost, Repository} from './repository';
+import {UserSettings} from '../types';
+
+// Chat messages are not queued here: the message outbox (utils/outbox.ts)
+// shows them right away and delivers them in order
+export interface OfflineActionPayloads {
+  create_post: {post: NewPost};
+  like_post: {postId: string; uid: string};
+  unlike_post: {postId: string; uid: string};
+  follow_user: {uid: string; targetUid: string};
+  unfollow_user: {uid: string; targetUid: string};
+  // Only queued once every image is uploaded, as files can't be sent offline
+  create_listing: {item: NewMarketplaceItem};
+  update_listing: {itemId: string; updates: Partial<NewMarketplaceItem>};
+  save_settings: {uid: string; settings: UserSettings};
+}
+
+export type OfflineActionType = keyof OfflineActionPayloads;
+
+export type OfflineActionStatus = 'pending' | 'failed';
+
+export interface OfflineAction<K extends OfflineActionType = OfflineActionType> {
+  id: string;
+  action: K;
+  data: OfflineActionPayloads[K];
+  // Used as the created document id so a replayed create is written at most once
+  idempotencyKey: string;
+  timestamp: number;
+  retryCount: number;
+  status: OfflineActionStatus;
+  lastError?: string;
+}
+
+export type OfflineActionHandlers = {
+  [K in OfflineActionType]: (data: OfflineActionPayloads[K], idempotencyKey: string) => Promise<void>;
+};
+
+export const offlineActionLabels: {[K in OfflineActionType]: string} = {
+  create_post: 'Create post',
+  like_post: 'Like post',
+  unlike_post: 'Unlike post',
+  follow_user: 'Follow user',
+  unfollow_user: 'Unfollow user',
+  create_listing: 'Create listing',
+  update_listing: 'Update listing',
+  save_settings: 'Save settings',
+};
+
+export const createIdempotencyKey = (): string => {
+  return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 12)}`;
+};
+
+export const createOfflineActionHandlers = (repository: Repository): OfflineActionHandlers => ({
+  create_post: async ({post}, idempotencyKey) => {
+    await repository.posts.create(post, idempotencyKey);
+  },
+  like_post: async ({postId, uid}) => {
+    await repository.posts.like(postId, uid);
+  },
+  unlike_post: async ({postId, uid}) => {
+    await repository.posts.unlike(postId, uid);
+  },
+  follow_user: async ({uid, targetUid}) => {
+    await repository.users.follow(uid, targetUid);
+  },
+  unfollow_user: async ({uid, targetUid}) => {
+    await repository.users.unfollow(uid, targetUid);
+  },
+  create_listing: async ({item}, idempotencyKey) => {
+    await repository.marketplace.create(item, idempotencyKey);
+  },
+  // Writes the same fields again on a replay, and finds nothing left to delete
+  update_listing: async ({itemId, updates}) => {
+    await repository.marketplace.update(itemId, updates);
+  },
+  save_settings: async ({uid, settings}) => {
+    await repository.users.saveSettings(uid, settings);
+  },
+});
+
+// Errors that will fail the same way on every retry
+const permanentErrorCodes = [
+  'firestore/permission-denied',
+  'firestore/not-found',
+  'firestore/invalid-argument',
+  'functions/not-found',
+  'functions/permission-denied',
+  'functions/invalid-argument',
+  'offline/unknown-action',
+];
+
+export const isPermanentError = (error: unknown): boolean => {
+  return permanentErrorCodes.includes(getErrorCode(error) || '');
+};
@@ -0,0 +1,50 @@
+/**
+ * Payments Client
+ * Buy Now checkout: a payment session at the provider, with the buyer's funds
+ * held in an escrow record until the item arrives. Every step runs in the
+ * escrow callables; this only asks for them
+ */
+
+import {createBackendError} from './backend';
+import {CloudFunctions} from './firebase';
+import {EscrowStatus} from '../types';
+
+const toEscrowStatus = (data: unknown): EscrowStatus => {
+  const status = data && typeof data === 'object' ? (data as {status?: unknown}).status : undefined;
+  if (typeof status !== 'string') {
+    throw createBackendError(
+      'payments/invalid-response',
+      'The payment service returned an unexpected response'
+    );
+  }
+  return status as EscrowStatus;
+};
+
+export const createPaymentsClient = (cloudFunctions: CloudFunctions) => ({
+  // Reserves the listing while the buyer pays and returns the new purchase
+  async checkout(itemId: string): Promise<string> {
+    const result = await cloudFunctions.openEscrow({itemId});
+    if (!result.data || typeof result.data.escrowId !== 'string') {
+      throw createBackendError(
+        'payments/invalid-response',
+        'The payment service returned an unexpected response'
+      );
+    }
+    return result.data.escrowId;
+  },
+
+  // Picks up a payment made on the provider's page, or a checkout that lapsed
+  async refresh(escrowId: string): Promise<EscrowStatus> {
+    return toEscrowStatus((await cloudFunctions.syncEscrow({escrowId})).data);
+  },
+
+  async cancel(escrowId: string): Promise<EscrowStatus> {
+    return toEscrowStatus((await cloudFunctions.cancelEscrow({escrowId})).data);
+  },
+
+  async confirmReceipt(escrowId: string): Promise<void> {
+    await cloudFunctions.confirmEscrowReceipt({escrowId});
+  },
+});
+
+export type PaymentsClient = ReturnType<typeof createPaymentsClient>;
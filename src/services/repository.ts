@@ -0,0 +1,1939 @@
+/**
+ * Data Access Layer
+ * Typed repositories over the Firestore collections used by the app screens
+ */
+
+import {
+  Backend,
+  DocumentSnapshot,
+  DocumentStore,
+  FieldValue,
+  Query,
+  Transaction,
+  UploadOptions,
+  WriteBatch,
+  createBackendError,
+} from './backend';
+import {getUsagePeriodKeys} from './aiUsage';
+import {isCheckoutHoldActive} from './escrow';
+import {collections} from './firebase';
+import {
+  LISTING_DURATION_DAYS,
+  buildListingIndex,
+  matchesSearch,
+  pickIndexToken,
+} from './marketplaceSearch';
+import {
+  TRADE_AUDIT_COLLECTION,
+  assertTradeItemsAvailable,
+  createTradeMessage,
+  isTradeParty,
+  runTradeTransition,
+  toAuditEntryFields,
+} from './tradeStateMachine';
+import {
+  AIConversationSettings,
+  AIModelUsage,
+  AIPersona,
+  AIUsage,
+  AIUsagePeriod,
+  User,
+  Post,
+  Message,
+  MessageAttachment,
+  MessageMetadata,
+  MessageVariant,
+  Conversation,
+  ConversationLastMessage,
+  ConversationListing,
+  ConversationParticipant,
+  Escrow,
+  MarketplaceItem,
+  MarketplaceSearchQuery,
+  ListingStatus,
+  SavedSearch,
+  Trade,
+  TradeAuditEntry,
+  TradeShipment,
+  Notification,
+  UserSettings,
+  UserPresence,
+} from '../types';
+
+// Helpers used by screens when building write payloads
+export interface FirebaseHelpers {
+  timestamp: () => FieldValue;
+  increment: (n: number) => FieldValue;
+  arrayUnion: (...elements: any[]) => FieldValue;
+  arrayRemove: (...elements: any[]) => FieldValue;
+  deleteField: () => FieldValue;
+  uploadFile: (uri: string, fileName: string, folder: string, options?: UploadOptions) => Promise<string>;
+  deleteFile: (path: string) => Promise<void>;
+}
+
+export const createHelpers = ({fieldValues, storage}: Backend): FirebaseHelpers => ({
+  timestamp: () => fieldValues.serverTimestamp(),
+  increment: (n: number) => fieldValues.increment(n),
+  arrayUnion: (...elements: any[]) => fieldValues.arrayUnion(...elements),
+  arrayRemove: (...elements: any[]) => fieldValues.arrayRemove(...elements),
+  deleteField: () => fieldValues.delete(),
+  uploadFile: async (uri: string, fileName: string, folder: string, options?: UploadOptions) => {
+    const reference = storage.ref(`${folder}/${fileName}`);
+    await reference.putFile(uri, options);
+    return await reference.getDownloadURL();
+  },
+  // Already-deleted files count as deleted
+  deleteFile: async (path: string) => {
+    try {
+      await storage.ref(path).delete();
+    } catch (error) {
+      if ((error as {code?: string}).code !== 'storage/object-not-found') {
+        throw error;
+      }
+    }
+  },
+});
+
+// Timestamp conversion
+// Pending server timestamps read back as null, so they fall back to "now"
+export const toDate = (value: any): Date => {
+  if (!value) {
+    return new Date();
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === 'function') {
+    return value.toDate();
+  }
+  return new Date(value);
+};
+
+const toOptionalDate = (value: any): Date | undefined => {
+  return value ? toDate(value) : undefined;
+};
+
+// Presence and typing state is ephemeral. Clients refresh it periodically and
+// readers ignore entries that went stale, e.g. when an app was killed
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+export const TYPING_REFRESH_MS = 5 * 1000;
+const PRESENCE_TIMEOUT_MS = 2 * PRESENCE_HEARTBEAT_MS;
+const TYPING_TIMEOUT_MS = 2 * TYPING_REFRESH_MS;
+
+const isFresh = (value: any, timeoutMs: number): boolean => {
+  return Date.now() - toDate(value).getTime() < timeoutMs;
+};
+
+// Document mappers
+const mapUser = (doc: DocumentSnapshot): User => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    uid: doc.id,
+    createdAt: toOptionalDate(data.createdAt),
+    updatedAt: toOptionalDate(data.updatedAt),
+  } as User;
+};
+
+const mapPost = (doc: DocumentSnapshot): Post => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    likes: data.likes || [],
+    comments: data.comments || [],
+    timestamp: toDate(data.timestamp),
+  } as Post;
+};
+
+const mapMessage = (doc: DocumentSnapshot): Message => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    timestamp: toDate(data.timestamp),
+    variants: data.variants?.map((variant: any) => ({
+      ...variant,
+      createdAt: toDate(variant.createdAt),
+    })),
+  } as Message;
+};
+
+// Conversations written before the summary existed store the preview as a string
+const mapLastMessage = (value: any): ConversationLastMessage | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  return {
+    ...value,
+    timestamp: toDate(value.timestamp),
+  };
+};
+
+// Unset AI settings are stored as null
+const mapAIMetadata = (value: any): AIConversationSettings => ({
+  model: value.model || undefined,
+  systemPrompt: value.systemPrompt || undefined,
+  temperature: typeof value.temperature === 'number' ? value.temperature : undefined,
+  maxTokens: typeof value.maxTokens === 'number' ? value.maxTokens : undefined,
+  personaId: value.personaId || undefined,
+});
+
+const toAIMetadataFields = (settings: AIConversationSettings) => ({
+  model: settings.model || null,
+  systemPrompt: settings.systemPrompt || null,
+  temperature: settings.temperature !== undefined ? settings.temperature : null,
+  maxTokens: settings.maxTokens !== undefined ? settings.maxTokens : null,
+  personaId: settings.personaId || null,
+});
+
+const mapPersona = (doc: DocumentSnapshot): AIPersona => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    description: data.description || undefined,
+    createdAt: toOptionalDate(data.createdAt),
+  } as AIPersona;
+};
+
+const mapUsagePeriod = (key: string, doc: DocumentSnapshot): AIUsagePeriod => {
+  const data = doc.data() || {};
+  const models: {[modelKey: string]: AIModelUsage} = data.models || {};
+  return {
+    key,
+    requests: data.requests || 0,
+    tokens: data.tokens || 0,
+    models: Object.keys(models)
+      .map(modelKey => ({
+        model: models[modelKey].model || modelKey,
+        requests: models[modelKey].requests || 0,
+        tokens: models[modelKey].tokens || 0,
+      }))
+      .sort((a, b) => b.tokens - a.tokens),
+  };
+};
+
+const mapConversation = (doc: DocumentSnapshot): Conversation => {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    title: data.title || undefined,
+    participants: data.participants || [],
+    participantInfo: data.participantInfo || {},
+    lastMessage: mapLastMessage(data.lastMessage),
+    lastMessageTime: toDate(data.lastMessageTime),
+    unreadCount: data.unreadCount || {},
+    createdAt: toDate(data.createdAt),
+    isAIConversation: data.isAIConversation || false,
+    isGroup: data.isGroup || false,
+    avatarURL: data.avatarURL || undefined,
+    admins: data.admins || [],
+    createdBy: data.createdBy,
+    metadata: data.metadata ? mapAIMetadata(data.metadata) : undefined,
+    listing: data.listing || undefined,
+  };
+};
+
+const toConversationListing = (item: MarketplaceItem): ConversationListing => ({
+  id: item.id,
+  title: item.title,
+  imageURL: item.images[0] || null,
+  price: item.price,
+  currency: item.currency,
+  sellerId: item.sellerId,
+});
+
+const mapMarketplaceItem = (doc: DocumentSnapshot): MarketplaceItem => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    images: data.images || [],
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+    expiresAt: toOptionalDate(data.expiresAt),
+    soldAt: toOptionalDate(data.soldAt),
+    reservedByTradeId: data.reservedByTradeId || undefined,
+    reservedByEscrowId: data.reservedByEscrowId || undefined,
+    reservedUntil: toOptionalDate(data.reservedUntil),
+  } as MarketplaceItem;
+};
+
+const mapSavedSearch = (doc: DocumentSnapshot): SavedSearch => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    query: data.query || {},
+    notify: data.notify !== false,
+    newMatchCount: data.newMatchCount || 0,
+    lastViewedAt: toDate(data.lastViewedAt),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as SavedSearch;
+};
+
+const mapTradeItem = (item: any): MarketplaceItem => ({
+  ...item,
+  createdAt: toDate(item.createdAt),
+  updatedAt: toDate(item.updatedAt),
+});
+
+const mapShipments = (shipments: any): {[senderId: string]: TradeShipment} => {
+  const mapped: {[senderId: string]: TradeShipment} = {};
+  Object.keys(shipments || {}).forEach(senderId => {
+    const shipment = shipments[senderId];
+    mapped[senderId] = {
+      ...shipment,
+      shippedPhotoURL: shipment.shippedPhotoURL || undefined,
+      receivedPhotoURL: shipment.receivedPhotoURL || undefined,
+      shippedAt: toDate(shipment.shippedAt),
+      receivedAt: toOptionalDate(shipment.receivedAt),
+    };
+  });
+  return mapped;
+};
+
+const mapTrade = (doc: DocumentSnapshot): Trade => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    initiatorItems: (data.initiatorItems || []).map(mapTradeItem),
+    receiverItems: (data.receiverItems || []).map(mapTradeItem),
+    cashTopUp: data.cashTopUp || undefined,
+    awaitingResponseFrom: data.awaitingResponseFrom || data.receiverId,
+    messages: (data.messages || []).map((message: any) => ({
+      ...message,
+      timestamp: toDate(message.timestamp),
+    })),
+    shipments: mapShipments(data.shipments),
+    dispute: data.dispute ? {...data.dispute, openedAt: toDate(data.dispute.openedAt)} : undefined,
+    acceptedAt: toOptionalDate(data.acceptedAt),
+    remindersSent: data.remindersSent || [],
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as Trade;
+};
+
+const mapTradeAuditEntry = (tradeId: string, doc: DocumentSnapshot): TradeAuditEntry => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    tradeId,
+    itemIds: data.itemIds || [],
+    createdAt: toDate(data.createdAt),
+  } as TradeAuditEntry;
+};
+
+const mapEscrow = (doc: DocumentSnapshot): Escrow => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    paymentSessionId: data.paymentSessionId || undefined,
+    checkoutUrl: data.checkoutUrl || undefined,
+    expiresAt: toDate(data.expiresAt),
+    fundedAt: toOptionalDate(data.fundedAt),
+    releaseAfter: toOptionalDate(data.releaseAfter),
+    releasedAt: toOptionalDate(data.releasedAt),
+    releaseReason: data.releaseReason || undefined,
+    endedAt: toOptionalDate(data.endedAt),
+    endedBy: data.endedBy || undefined,
+    endReason: data.endReason || undefined,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as Escrow;
+};
+
+const mapNotification = (doc: DocumentSnapshot): Notification => {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    read: data.read || false,
+    createdAt: toDate(data.createdAt),
+  } as Notification;
+};
+
+const mapPresence = (doc: DocumentSnapshot): UserPresence => {
+  const data = doc.data() || {};
+  return {
+    uid: doc.id,
+    online: Boolean(data.online) && isFresh(data.lastSeen, PRESENCE_TIMEOUT_MS),
+    lastSeen: toOptionalDate(data.lastSeen),
+  };
+};
+
+// Write payload types
+export type NewPost = Omit<Post, 'id' | 'timestamp' | 'likes' | 'comments' | 'shares'>;
+
+export type NewMessage = Omit<
+  Message,
+  'id' | 'timestamp' | 'deliveryStatus' | 'deliveredTo' | 'readBy'
+>;
+
+export type NewMarketplaceItem = Omit<
+  MarketplaceItem,
+  'id' | 'status' | 'createdAt' | 'updatedAt' | 'expiresAt' | 'soldAt'
+>;
+
+export type NewSavedSearch = Pick<SavedSearch, 'userId' | 'name' | 'query' | 'notify'>;
+
+export type TradeOffer = Pick<Trade, 'initiatorItems' | 'receiverItems' | 'cashTopUp'>;
+
+export type NewTrade = Pick<Trade, 'initiatorId' | 'receiverId'> & TradeOffer;
+
+export type NewTradeShipment = Pick<TradeShipment, 'carrier' | 'trackingNumber'> & {
+  photoURL?: string;
+};
+
+export type NewNotification = Omit<Notification, 'id' | 'read' | 'createdAt'>;
+
+export interface PostListOptions {
+  type?: string;
+  authorIds?: string[];
+  limit?: number;
+}
+
+export interface NewGroup {
+  title: string;
+  avatarURL?: string;
+  // The creator is added automatically
+  memberIds: string[];
+}
+
+export type NewMessageVariant = Omit<MessageVariant, 'createdAt'>;
+
+export type NewAIPersona = Pick<AIPersona, 'name' | 'description' | 'systemPrompt'>;
+
+export interface GroupUpdates {
+  title?: string;
+  avatarURL?: string;
+}
+
+export interface MessagePage {
+  // Oldest first, like the live window
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export interface MarketplaceListOptions {
+  category?: string;
+  limit?: number;
+}
+
+// Opaque to screens; pass back the previous page's cursor to continue
+export type MarketplaceSearchCursor = DocumentSnapshot;
+
+export interface MarketplaceSearchPage {
+  items: MarketplaceItem[];
+  cursor: MarketplaceSearchCursor | null;
+  hasMore: boolean;
+}
+
+export const MARKETPLACE_PAGE_SIZE = 20;
+// Post-filtered searches stop after this many server pages to bound reads
+const MAX_SEARCH_BATCHES = 5;
+
+const toParticipant = (profile: User | null): ConversationParticipant => ({
+  displayName: profile?.displayName || null,
+  photoURL: profile?.photoURL || null,
+});
+
+// Firestore rejects undefined values, so unset metadata fields are left out
+const toMetadataFields = (metadata: MessageMetadata): MessageMetadata => {
+  const fields: {[key: string]: any} = {};
+  Object.keys(metadata).forEach(key => {
+    const value = (metadata as {[key: string]: any})[key];
+    if (value !== undefined) {
+      fields[key] = value;
+    }
+  });
+  return fields;
+};
+
+// Chat list preview for messages sent without a caption
+const describeAttachments = (attachments: MessageAttachment[] = []): string => {
+  const imageCount = attachments.filter(attachment => attachment.kind === 'image').length;
+
+  if (attachments.length === 0) {
+    return '';
+  }
+  if (imageCount === attachments.length) {
+    return imageCount === 1 ? 'Photo' : `${imageCount} photos`;
+  }
+  return attachments.length === 1 ? attachments[0].name : `${attachments.length} files`;
+};
+
+const participantName = (conversation: Conversation, uid: string): string => {
+  return conversation.participantInfo[uid]?.displayName || 'Someone';
+};
+
+const joinNames = (names: string[]): string => {
+  if (names.length <= 1) {
+    return names.join('');
+  }
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+// Sold is final; a sold listing can only come back through relist
+const LISTING_STATUS_TRANSITIONS: {[status in ListingStatus]: ListingStatus[]} = {
+  available: ['reserved', 'sold'],
+  reserved: ['available', 'sold'],
+  sold: [],
+};
+
+export const canChangeListingStatus = (from: ListingStatus, to: ListingStatus): boolean =>
+  LISTING_STATUS_TRANSITIONS[from].includes(to);
+
+export const isListingExpired = (item: MarketplaceItem, now: Date = new Date()): boolean =>
+  item.status === 'available' && !!item.expiresAt && item.expiresAt.getTime() <= now.getTime();
+
+export const canRelistListing = (item: MarketplaceItem): boolean =>
+  item.status === 'sold' || isListingExpired(item);
+
+// Trades keep a copy of each item without the search index fields
+const toTradeItem = (item: MarketplaceItem) => ({
+  id: item.id,
+  title: item.title,
+  description: item.description,
+  price: item.price,
+  currency: item.currency,
+  sellerId: item.sellerId,
+  sellerName: item.sellerName,
+  images: item.images,
+  category: item.category,
+  condition: item.condition,
+  status: item.status,
+  tags: item.tags || [],
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt,
+});
+
+const toOfferFields = (offer: TradeOffer) => ({
+  initiatorItems: offer.initiatorItems.map(toTradeItem),
+  receiverItems: offer.receiverItems.map(toTradeItem),
+  cashTopUp: offer.cashTopUp && offer.cashTopUp.amount > 0 ? offer.cashTopUp : null,
+});
+
+const countItems = (items: MarketplaceItem[]) =>
+  items.length === 0 ? 'nothing' : `${items.length} ${items.length === 1 ? 'item' : 'items'}`;
+
+// Written into the history so every version of the offer stays readable
+export const describeTradeOffer = (
+  offer: TradeOffer,
+  proposerId: string,
+  initiatorId: string
+): string => {
+  const proposerIsInitiator = proposerId === initiatorId;
+  const given = proposerIsInitiator ? offer.initiatorItems : offer.receiverItems;
+  const wanted = proposerIsInitiator ? offer.receiverItems : offer.initiatorItems;
+
+  let summary = `${countItems(given)} for ${countItems(wanted)}`;
+  if (offer.cashTopUp && offer.cashTopUp.amount > 0) {
+    const direction = offer.cashTopUp.payerId === proposerId ? 'plus' : 'asking';
+    summary += `, ${direction} ${offer.cashTopUp.amount} ${offer.cashTopUp.currency}`;
+  }
+  const titles = [...given, ...wanted].map(item => item.title);
+  return titles.length > 0 ? `${summary} (${titles.join(', ')})` : summary;
+};
+
+const getListingExpiry = () => new Date(Date.now() + LISTING_DURATION_DAYS * 24 * 60 * 60 * 1000);
+
+// Firestore rejects undefined values, and empty filters are left out so
+// saved queries compare equal however they were built
+const toSavedQuery = (query: MarketplaceSearchQuery): MarketplaceSearchQuery => {
+  const fields: {[key: string]: any} = {};
+  Object.keys(query).forEach(key => {
+    const value = (query as {[key: string]: any})[key];
+    const isEmpty =
+      value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    if (!isEmpty) {
+      fields[key] = value;
+    }
+  });
+  if (fields.category === 'all') {
+    delete fields.category;
+  }
+  if (fields.shipping === 'any') {
+    delete fields.shipping;
+  }
+  return fields;
+};
+
+export const createRepository = (firestore: DocumentStore, helpers: FirebaseHelpers) => {
+  const users = {
+    async get(uid: string): Promise<User | null> {
+      const doc = await firestore.collection(collections.users).doc(uid).get();
+      return doc.exists ? mapUser(doc) : null;
+    },
+
+    async getMany(uids: string[]): Promise<User[]> {
+      const profiles = await Promise.all(uids.map(uid => users.get(uid)));
+      return profiles.filter((profile): profile is User => profile !== null);
+    },
+
+    async listFollowing(uid: string): Promise<User[]> {
+      const profile = await users.get(uid);
+      return users.getMany(profile?.following || []);
+    },
+
+    async update(uid: string, updates: {[key: string]: any}): Promise<void> {
+      await firestore
+        .collection(collections.users)
+        .doc(uid)
+        .update({...updates, updatedAt: helpers.timestamp()});
+    },
+
+    async getSettings(uid: string): Promise<UserSettings | null> {
+      const doc = await firestore.collection(collections.users).doc(uid).get();
+      return doc.exists ? doc.data()?.settings || null : null;
+    },
+
+    async saveSettings(uid: string, settings: UserSettings): Promise<void> {
+      await users.update(uid, {settings});
+    },
+
+    async follow(uid: string, targetUid: string): Promise<void> {
+      const batch = firestore.batch();
+      batch.update(firestore.collection(collections.users).doc(uid), {
+        following: helpers.arrayUnion(targetUid),
+      });
+      batch.update(firestore.collection(collections.users).doc(targetUid), {
+        followers: helpers.arrayUnion(uid),
+      });
+      await batch.commit();
+    },
+
+    async unfollow(uid: string, targetUid: string): Promise<void> {
+      const batch = firestore.batch();
+      batch.update(firestore.collection(collections.users).doc(uid), {
+        following: helpers.arrayRemove(targetUid),
+      });
+      batch.update(firestore.collection(collections.users).doc(targetUid), {
+        followers: helpers.arrayRemove(uid),
+      });
+      await batch.commit();
+    },
+  };
+
+  const posts = {
+    async list(options: PostListOptions = {}): Promise<Post[]> {
+      let query: Query = firestore.collection(collections.posts);
+
+      if (options.authorIds) {
+        // Firestore 'in' queries accept at most 10 values
+        query = query.where('authorId', 'in', options.authorIds.slice(0, 10));
+      } else {
+        query = query.where('visibility', 'in', ['public', 'followers']);
+      }
+
+      if (options.type) {
+        query = query.where('type', '==', options.type);
+      }
+
+      const snapshot = await query
+        .orderBy('timestamp', 'desc')
+        .limit(options.limit || 50)
+        .get();
+
+      return snapshot.docs.map(mapPost);
+    },
+
+    async listByAuthor(authorId: string, limit: number = 20): Promise<Post[]> {
+      const snapshot = await firestore
+        .collection(collections.posts)
+        .where('authorId', '==', authorId)
+        .orderBy('timestamp', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(mapPost);
+    },
+
+    // Passing a known id makes the create idempotent, so replays never double-post
+    async create(post: NewPost, postId?: string): Promise<string> {
+      const postRef = firestore.collection(collections.posts).doc(postId);
+      if (postId && (await postRef.get()).exists) {
+        return postRef.id;
+      }
+
+      await postRef.set({
+        ...post,
+        authorAvatar: post.authorAvatar || null,
+        timestamp: helpers.timestamp(),
+        likes: [],
+        comments: [],
+        shares: 0,
+      });
+      return postRef.id;
+    },
+
+    async like(postId: string, uid: string): Promise<void> {
+      await firestore
+        .collection(collections.posts)
+        .doc(postId)
+        .update({likes: helpers.arrayUnion(uid)});
+    },
+
+    async unlike(postId: string, uid: string): Promise<void> {
+      await firestore
+        .collection(collections.posts)
+        .doc(postId)
+        .update({likes: helpers.arrayRemove(uid)});
+    },
+  };
+
+  const getMessageOrThrow = async (messageId: string): Promise<Message> => {
+    const doc = await firestore.collection(collections.messages).doc(messageId).get();
+    if (!doc.exists) {
+      throw createBackendError('messages/not-found', 'Message not found');
+    }
+    return mapMessage(doc);
+  };
+
+  // Mirrors the selected variant onto the message and, while it is the newest
+  // message, onto the conversation summary
+  const applyVariant = async (message: Message, variants: MessageVariant[], index: number) => {
+    const selected = variants[index];
+    const conversationRef = firestore.collection(collections.conversations).doc(message.conversationId);
+    const conversationDoc = await conversationRef.get();
+
+    const batch = firestore.batch();
+    batch.update(firestore.collection(collections.messages).doc(message.id), {
+      variants: variants.map(variant => ({
+        content: variant.content,
+        metadata: toMetadataFields(variant.metadata || {}),
+        createdAt: variant.createdAt,
+      })),
+      selectedVariant: index,
+      content: selected.content,
+      metadata: toMetadataFields(selected.metadata || {}),
+    });
+    if (conversationDoc.data()?.lastMessage?.id === message.id) {
+      batch.update(conversationRef, {'lastMessage.content': selected.content});
+    }
+    await batch.commit();
+  };
+
+  const messages = {
+    subscribe(
+      conversationId: string,
+      limit: number,
+      onChange: (messages: Message[]) => void,
+      onError: (error: Error) => void
+    ): () => void {
+      return firestore
+        .collection(collections.messages)
+        .where('conversationId', '==', conversationId)
+        .orderBy('timestamp', 'desc')
+        .limit(limit)
+        .onSnapshot(
+          snapshot => onChange(snapshot.docs.map(mapMessage).reverse()),
+          onError
+        );
+    },
+
+    // Pages backwards from the given message, which is the oldest one loaded so far
+    async listBefore(conversationId: string, before: Message, limit: number): Promise<MessagePage> {
+      let query: Query = firestore
+        .collection(collections.messages)
+        .where('conversationId', '==', conversationId);
+
+      // Cursor on the exact document when it still exists, else on its timestamp
+      const cursor = await firestore.collection(collections.messages).doc(before.id).get();
+      if (cursor.exists) {
+        query = query.orderBy('timestamp', 'desc').startAfter(cursor);
+      } else {
+        query = query.where('timestamp', '<', before.timestamp).orderBy('timestamp', 'desc');
+      }
+
+      const snapshot = await query.limit(limit).get();
+
+      return {
+        messages: snapshot.docs.map(mapMessage).reverse(),
+        hasMore: snapshot.size === limit,
+      };
+    },
+
+    // The message and the conversation summary are written in one batch; a
+    // known message id makes the send idempotent
+    async send(message: NewMessage, recipientIds: string[], messageId?: string): Promise<string> {
+      const messageRef = firestore.collection(collections.messages).doc(messageId);
+      if (messageId && (await messageRef.get()).exists) {
+        return messageRef.id;
+      }
+
+      const unreadUpdates: {[key: string]: FieldValue} = {};
+      recipientIds.forEach(recipientId => {
+        unreadUpdates[`unreadCount.${recipientId}`] = helpers.increment(1);
+      });
+
+      const batch = firestore.batch();
+      batch.set(messageRef, {
+        ...message,
+        senderAvatar: message.senderAvatar || null,
+        attachments: message.attachments || [],
+        ...(message.metadata && {metadata: toMetadataFields(message.metadata)}),
+        timestamp: helpers.timestamp(),
+        deliveredTo: [message.senderId],
+        readBy: [message.senderId],
+      });
+      batch.update(firestore.collection(collections.conversations).doc(message.conversationId), {
+        lastMessage: {
+          id: messageRef.id,
+          content: message.content || describeAttachments(message.attachments),
+          senderId: message.senderId,
+          senderName: message.senderName,
+          type: message.type,
+          timestamp: helpers.timestamp(),
+        },
+        lastMessageTime: helpers.timestamp(),
+        // Refreshed on every send so profile changes reach the chat list
+        [`participantInfo.${message.senderId}`]: {
+          displayName: message.senderName,
+          photoURL: message.senderAvatar || null,
+        },
+        ...unreadUpdates,
+      });
+      await batch.commit();
+
+      return messageRef.id;
+    },
+
+    // Files go under the conversation, named after the message so a retried
+    // upload overwrites the earlier attempt
+    async uploadAttachments(
+      conversationId: string,
+      messageId: string,
+      attachments: MessageAttachment[],
+      onProgress?: (fraction: number) => void
+    ): Promise<MessageAttachment[]> {
+      const weights = attachments.map(attachment => attachment.size || 1);
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      let completedWeight = 0;
+
+      const uploaded: MessageAttachment[] = [];
+      for (let index = 0; index < attachments.length; index++) {
+        const attachment = attachments[index];
+        const url = await helpers.uploadFile(
+          attachment.url,
+          `${messageId}_${attachment.id}_${attachment.name}`,
+          `chat/${conversationId}`,
+          {
+            contentType: attachment.mimeType,
+            onProgress: fraction =>
+              onProgress?.((completedWeight + fraction * weights[index]) / totalWeight),
+          }
+        );
+
+        completedWeight += weights[index];
+        uploaded.push({...attachment, url});
+      }
+
+      return uploaded;
+    },
+
+    // Regenerated AI replies keep every answer; the message shows the newest
+    async addVariant(messageId: string, variant: NewMessageVariant): Promise<void> {
+      const message = await getMessageOrThrow(messageId);
+      const variants: MessageVariant[] = message.variants?.length
+        ? message.variants
+        : [{content: message.content, metadata: message.metadata, createdAt: message.timestamp}];
+
+      const nextVariants = [...variants, {...variant, createdAt: new Date()}];
+      await applyVariant(message, nextVariants, nextVariants.length - 1);
+    },
+
+    async selectVariant(messageId: string, index: number): Promise<void> {
+      const message = await getMessageOrThrow(messageId);
+      if (!message.variants?.[index] || message.selectedVariant === index) return;
+
+      await applyVariant(message, message.variants, index);
+    },
+
+    async markDelivered(messageIds: string[], uid: string): Promise<void> {
+      if (messageIds.length === 0) return;
+
+      const batch = firestore.batch();
+      messageIds.forEach(messageId => {
+        batch.update(firestore.collection(collections.messages).doc(messageId), {
+          deliveredTo: helpers.arrayUnion(uid),
+        });
+      });
+      await batch.commit();
+    },
+
+    // Reading a message implies it was delivered
+    async markRead(messageIds: string[], uid: string): Promise<void> {
+      if (messageIds.length === 0) return;
+
+      const batch = firestore.batch();
+      messageIds.forEach(messageId => {
+        batch.update(firestore.collection(collections.messages).doc(messageId), {
+          deliveredTo: helpers.arrayUnion(uid),
+          readBy: helpers.arrayUnion(uid),
+        });
+      });
+      await batch.commit();
+    },
+  };
+
+  // Writes a system message into the batch and returns the conversation summary
+  // fields for it, to be merged into the caller's conversation write
+  const addSystemMessage = (
+    batch: WriteBatch | Transaction,
+    conversationId: string,
+    content: string
+  ) => {
+    const messageRef = firestore.collection(collections.messages).doc();
+    batch.set(messageRef, {
+      conversationId,
+      senderId: 'system',
+      senderName: 'System',
+      senderAvatar: null,
+      content,
+      type: 'system',
+      timestamp: helpers.timestamp(),
+      deliveredTo: [],
+      readBy: [],
+    });
+
+    return {
+      lastMessage: {
+        id: messageRef.id,
+        content,
+        senderId: 'system',
+        senderName: 'System',
+        type: 'system',
+        timestamp: helpers.timestamp(),
+      },
+      lastMessageTime: helpers.timestamp(),
+    };
+  };
+
+  const getGroupAsAdmin = async (conversationId: string, uid: string): Promise<Conversation> => {
+    const conversation = await conversations.get(conversationId);
+    if (!conversation || !conversation.isGroup) {
+      throw createBackendError('conversations/not-found', 'Group conversation not found');
+    }
+    if (!conversation.admins.includes(uid)) {
+      throw createBackendError(
+        'conversations/permission-denied',
+        'Only group admins can change the group'
+      );
+    }
+    return conversation;
+  };
+
+  const createDirect = async (
+    uid: string,
+    otherUid: string,
+    extraFields: {[key: string]: any} = {}
+  ): Promise<string> => {
+    const [self, other] = await Promise.all([users.get(uid), users.get(otherUid)]);
+
+    const conversationRef = await firestore.collection(collections.conversations).add({
+      participants: [uid, otherUid],
+      participantInfo: {
+        [uid]: toParticipant(self),
+        [otherUid]: toParticipant(other),
+      },
+      createdAt: helpers.timestamp(),
+      lastMessage: null,
+      lastMessageTime: helpers.timestamp(),
+      unreadCount: {
+        [uid]: 0,
+        [otherUid]: 0,
+      },
+      ...extraFields,
+    });
+    return conversationRef.id;
+  };
+
+  const conversations = {
+    async get(conversationId: string): Promise<Conversation | null> {
+      const doc = await firestore
+        .collection(collections.conversations)
+        .doc(conversationId)
+        .get();
+      return doc.exists ? mapConversation(doc) : null;
+    },
+
+    subscribeForUser(
+      uid: string,
+      onChange: (conversations: Conversation[]) => void,
+      onError: (error: Error) => void,
+      limit: number = 50
+    ): () => void {
+      return firestore
+        .collection(collections.conversations)
+        .where('participants', 'array-contains', uid)
+        .orderBy('lastMessageTime', 'desc')
+        .limit(limit)
+        .onSnapshot(snapshot => onChange(snapshot.docs.map(mapConversation)), onError);
+    },
+
+    async findOrCreateDirect(uid: string, otherUid: string): Promise<string> {
+      // Check if conversation already exists between these users
+      const snapshot = await firestore
+        .collection(collections.conversations)
+        .where('participants', 'array-contains', uid)
+        .get();
+
+      // Listing threads are kept apart from the pair's general chat
+      const existing = snapshot.docs.find(doc => {
+        const data = doc.data() || {};
+        const participants: string[] = data.participants || [];
+        return (
+          participants.includes(otherUid) &&
+          participants.length === 2 &&
+          !data.isGroup &&
+          !data.listingId
+        );
+      });
+
+      if (existing) {
+        return existing.id;
+      }
+
+      return await createDirect(uid, otherUid);
+    },
+
+    // Each buyer gets one thread per listing with its seller
+    async findOrCreateForListing(buyerId: string, item: MarketplaceItem): Promise<string> {
+      if (buyerId === item.sellerId) {
+        throw createBackendError(
+          'marketplace/own-listing',
+          'You cannot contact yourself about your own listing'
+        );
+      }
+
+      const snapshot = await firestore
+        .collection(collections.conversations)
+        .where('listingId', '==', item.id)
+        .where('participants', 'array-contains', buyerId)
+        .limit(1)
+        .get();
+
+      if (snapshot.size > 0) {
+        return snapshot.docs[0].id;
+      }
+
+      return await createDirect(buyerId, item.sellerId, {
+        listingId: item.id,
+        listing: toConversationListing(item),
+      });
+    },
+
+    async createAI(uid: string, settings: AIConversationSettings = {}): Promise<string> {
+      const conversationRef = await firestore.collection(collections.conversations).add({
+        title: 'Gemini Assistant',
+        participants: [uid],
+        participantInfo: {},
+        isAIConversation: true,
+        metadata: toAIMetadataFields(settings),
+        createdAt: helpers.timestamp(),
+        lastMessage: null,
+        lastMessageTime: helpers.timestamp(),
+        unreadCount: {[uid]: 0},
+      });
+      return conversationRef.id;
+    },
+
+    async updateAISettings(conversationId: string, settings: AIConversationSettings): Promise<void> {
+      await firestore
+        .collection(collections.conversations)
+        .doc(conversationId)
+        .update({metadata: toAIMetadataFields(settings)});
+    },
+
+    subscribe(
+      conversationId: string,
+      onChange: (conversation: Conversation | null) => void,
+      onError: (error: Error) => void
+    ): () => void {
+      return firestore
+        .collection(collections.conversations)
+        .doc(conversationId)
+        .onSnapshot(doc => onChange(doc.exists ? mapConversation(doc) : null), onError);
+    },
+
+    async createGroup(creatorId: string, group: NewGroup): Promise<string> {
+      const participants = [creatorId, ...group.memberIds.filter(uid => uid !== creatorId)];
+      const profiles = await Promise.all(participants.map(uid => users.get(uid)));
+
+      const participantInfo: {[uid: string]: ConversationParticipant} = {};
+      const unreadCount: {[uid: string]: number} = {};
+      participants.forEach((uid, index) => {
+        participantInfo[uid] = toParticipant(profiles[index]);
+        unreadCount[uid] = 0;
+      });
+
+      const conversationRef = firestore.collection(collections.conversations).doc();
+      const creatorName = participantInfo[creatorId].displayName || 'Someone';
+
+      const batch = firestore.batch();
+      batch.set(conversationRef, {
+        title: group.title,
+        avatarURL: group.avatarURL || null,
+        isGroup: true,
+        participants,
+        participantInfo,
+        admins: [creatorId],
+        createdBy: creatorId,
+        createdAt: helpers.timestamp(),
+        unreadCount,
+        ...addSystemMessage(batch, conversationRef.id, `${creatorName} created the group`),
+      });
+      await batch.commit();
+
+      return conversationRef.id;
+    },
+
+    async updateGroup(conversationId: string, actorId: string, updates: GroupUpdates): Promise<void> {
+      const conversation = await getGroupAsAdmin(conversationId, actorId);
+      const actorName = participantName(conversation, actorId);
+
+      const changes: string[] = [];
+      if (updates.title !== undefined && updates.title !== conversation.title) {
+        changes.push(`renamed the group to "${updates.title}"`);
+      }
+      if (updates.avatarURL !== undefined && updates.avatarURL !== conversation.avatarURL) {
+        changes.push('changed the group photo');
+      }
+      if (changes.length === 0) return;
+
+      const batch = firestore.batch();
+      batch.update(firestore.collection(collections.conversations).doc(conversationId), {
+        ...updates,
+        ...addSystemMessage(batch, conversationId, `${actorName} ${joinNames(changes)}`),
+      });
+      await batch.commit();
+    },
+
+    async addMembers(conversationId: string, actorId: string, memberIds: string[]): Promise<void> {
+      const conversation = await getGroupAsAdmin(conversationId, actorId);
+      const newMemberIds = memberIds.filter(uid => !conversation.participants.includes(uid));
+      if (newMemberIds.length === 0) return;
+
+      const profiles = await Promise.all(newMemberIds.map(uid => users.get(uid)));
+      const memberUpdates: {[key: string]: any} = {};
+      newMemberIds.forEach((uid, index) => {
+        memberUpdates[`participantInfo.${uid}`] = toParticipant(profiles[index]);
+        memberUpdates[`unreadCount.${uid}`] = 0;
+      });
+
+      const addedNames = profiles.map(profile => profile?.displayName || 'Someone');
+      const content = `${participantName(conversation, actorId)} added ${joinNames(addedNames)}`;
+
+      const batch = firestore.batch();
+      batch.update(firestore.collection(collections.conversations).doc(conversationId), {
+        participants: helpers.arrayUnion(...newMemberIds),
+        ...memberUpdates,
+        ...addSystemMessage(batch, conversationId, content),
+      });
+      await batch.commit();
+    },
+
+    async removeMember(conversationId: string, actorId: string, memberId: string): Promise<void> {
+      const conversation = await getGroupAsAdmin(conversationId, actorId);
+      if (!conversation.participants.includes(memberId)) return;
+
+      // Removing yourself is leaving, which hands the group on if you were its last admin
+      if (memberId === actorId) {
+        await conversations.leave(conversationId, actorId);
+        return;
+      }
+
+      const content =
+        `${participantName(conversation, actorId)} removed ${participantName(conversation, memberId)}`;
+
+      const batch = firestore.batch();
+      batch.update(firestore.collection(collections.conversations).doc(conversationId), {
+        participants: helpers.arrayRemove(memberId),
+        admins: helpers.arrayRemove(memberId),
+        [`unreadCount.${memberId}`]: helpers.deleteField(),
+        ...addSystemMessage(batch, conversationId, content),
+      });
+      await batch.commit();
+    },
+
+    async setAdmin(
+      conversationId: string,
+      actorId: string,
+      memberId: string,
+      isAdmin: boolean
+    ): Promise<void> {
+      const conversation = await getGroupAsAdmin(conversationId, actorId);
+      if (!conversation.participants.includes(memberId)) return;
+      if (conversation.admins.includes(memberId) === isAdmin) return;
+
+      if (!isAdmin && conversation.admins.length === 1) {
+        throw createBackendError(
+          'conversations/last-admin',
+          'A group needs at least one admin'
+        );
+      }
+
+      const actorName = participantName(conversation, actorId);
+      const memberName = participantName(conversation, memberId);
+      const content = isAdmin
+        ? `${actorName} made ${memberName} an admin`
+        : `${actorName} removed ${memberName} as admin`;
+
+      const batch = firestore.batch();
+      batch.update(firestore.collection(collections.conversations).doc(conversationId), {
+        admins: isAdmin ? helpers.arrayUnion(memberId) : helpers.arrayRemove(memberId),
+        ...addSystemMessage(batch, conversationId, content),
+      });
+      await batch.commit();
+    },
+
+    // The longest-standing remaining member takes over when the last admin
+    // leaves. Runs in a transaction so admins leaving at once can't both
+    // count on the other staying
+    async leave(conversationId: string, uid: string): Promise<void> {
+      const conversationRef = firestore.collection(collections.conversations).doc(conversationId);
+
+      await firestore.runTransaction(async transaction => {
+        const doc = await transaction.get(conversationRef);
+        if (!doc.exists) return;
+
+        const conversation = mapConversation(doc);
+        if (!conversation.isGroup || !conversation.participants.includes(uid)) return;
+
+        const remaining = conversation.participants.filter(participantId => participantId !== uid);
+        let admins = conversation.admins.filter(
+          adminId => adminId !== uid && remaining.includes(adminId)
+        );
+        let content = `${participantName(conversation, uid)} left the group`;
+
+        if (admins.length === 0 && remaining.length > 0) {
+          admins = [remaining[0]];
+          content += `. ${participantName(conversation, remaining[0])} is now an admin`;
+        }
+
+        transaction.update(conversationRef, {
+          participants: remaining,
+          admins,
+          [`unreadCount.${uid}`]: helpers.deleteField(),
+          ...addSystemMessage(transaction, conversationId, content),
+        });
+      });
+    },
+
+    async markRead(conversationId: string, uid: string): Promise<void> {
+      await firestore
+        .collection(collections.conversations)
+        .doc(conversationId)
+        .update({
+          [`unreadCount.${uid}`]: 0,
+        });
+    },
+
+    async delete(conversationId: string): Promise<void> {
+      // Delete all messages in the conversation along with the conversation
+      const messagesSnapshot = await firestore
+        .collection(collections.messages)
+        .where('conversationId', '==', conversationId)
+        .get();
+
+      const batch = firestore.batch();
+      messagesSnapshot.docs.forEach(doc => {
+        batch.delete(doc.ref);
+      });
+      batch.delete(firestore.collection(collections.conversations).doc(conversationId));
+
+      await batch.commit();
+    },
+  };
+
+  const personas = {
+    async listForUser(uid: string): Promise<AIPersona[]> {
+      const snapshot = await firestore
+        .collection(collections.personas)
+        .where('ownerId', '==', uid)
+        .get();
+
+      return snapshot.docs
+        .map(mapPersona)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async create(uid: string, persona: NewAIPersona): Promise<string> {
+      const personaRef = await firestore.collection(collections.personas).add({
+        name: persona.name,
+        description: persona.description || null,
+        systemPrompt: persona.systemPrompt,
+        ownerId: uid,
+        createdAt: helpers.timestamp(),
+      });
+      return personaRef.id;
+    },
+
+    async delete(personaId: string): Promise<void> {
+      await firestore.collection(collections.personas).doc(personaId).delete();
+    },
+  };
+
+  // Written only by the generateResponse callable, see aiUsage.ts
+  const aiUsage = {
+    async get(uid: string, now: Date = new Date()): Promise<AIUsage> {
+      const keys = getUsagePeriodKeys(now);
+      const [dayDoc, monthDoc] = await Promise.all([
+        firestore.collection(collections.aiUsage).doc(`${uid}_${keys.day}`).get(),
+        firestore.collection(collections.aiUsage).doc(`${uid}_${keys.month}`).get(),
+      ]);
+
+      return {
+        day: mapUsagePeriod(keys.day, dayDoc),
+        month: mapUsagePeriod(keys.month, monthDoc),
+      };
+    },
+
+    async listDays(uid: string, limit: number = 7): Promise<AIUsagePeriod[]> {
+      const snapshot = await firestore
+        .collection(collections.aiUsage)
+        .where('uid', '==', uid)
+        .where('period', '==', 'day')
+        .orderBy('key', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => mapUsagePeriod(doc.data()?.key, doc));
+    },
+  };
+
+  const presence = {
+    async setOnline(uid: string, online: boolean): Promise<void> {
+      await firestore
+        .collection(collections.presence)
+        .doc(uid)
+        .set({uid, online, lastSeen: helpers.timestamp()}, {merge: true});
+    },
+
+    subscribe(
+      uids: string[],
+      onChange: (presenceByUid: {[uid: string]: UserPresence}) => void,
+      onError: (error: Error) => void
+    ): () => void {
+      const presenceByUid: {[uid: string]: UserPresence} = {};
+      const unsubscribes: (() => void)[] = [];
+
+      // Firestore 'in' queries accept at most 10 values
+      for (let i = 0; i < uids.length; i += 10) {
+        unsubscribes.push(
+          firestore
+            .collection(collections.presence)
+            .where('uid', 'in', uids.slice(i, i + 10))
+            .onSnapshot(snapshot => {
+              snapshot.docs.forEach(doc => {
+                presenceByUid[doc.id] = mapPresence(doc);
+              });
+              onChange({...presenceByUid});
+            }, onError)
+        );
+      }
+
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+  };
+
+  // One document per conversation, keyed by the ids of the users typing in it
+  const typing = {
+    async set(conversationId: string, uid: string, isTyping: boolean): Promise<void> {
+      await firestore
+        .collection(collections.typing)
+        .doc(conversationId)
+        .set({[uid]: isTyping ? helpers.timestamp() : helpers.deleteField()}, {merge: true});
+    },
+
+    subscribe(
+      conversationId: string,
+      onChange: (typingUids: string[]) => void,
+      onError: (error: Error) => void
+    ): () => void {
+      return firestore
+        .collection(collections.typing)
+        .doc(conversationId)
+        .onSnapshot(doc => {
+          const data = doc.data() || {};
+          onChange(Object.keys(data).filter(uid => isFresh(data[uid], TYPING_TIMEOUT_MS)));
+        }, onError);
+    },
+  };
+
+  const savedSearches = {
+    async listForUser(uid: string): Promise<SavedSearch[]> {
+      const snapshot = await firestore
+        .collection(collections.savedSearches)
+        .where('userId', '==', uid)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+      return snapshot.docs.map(mapSavedSearch);
+    },
+
+    // The category is copied to the top level so new listings can find the
+    // searches they might match with a single query
+    async create(search: NewSavedSearch): Promise<string> {
+      const query = toSavedQuery(search.query);
+      const searchRef = await firestore.collection(collections.savedSearches).add({
+        ...search,
+        query,
+        category: query.category || 'all',
+        newMatchCount: 0,
+        lastViewedAt: helpers.timestamp(),
+        createdAt: helpers.timestamp(),
+        updatedAt: helpers.timestamp(),
+      });
+      return searchRef.id;
+    },
+
+    async update(searchId: string, updates: Partial<Pick<SavedSearch, 'name' | 'notify'>>): Promise<void> {
+      await firestore
+        .collection(collections.savedSearches)
+        .doc(searchId)
+        .update({...updates, updatedAt: helpers.timestamp()});
+    },
+
+    async remove(searchId: string): Promise<void> {
+      await firestore.collection(collections.savedSearches).doc(searchId).delete();
+    },
+
+    async markViewed(searchId: string): Promise<void> {
+      await firestore
+        .collection(collections.savedSearches)
+        .doc(searchId)
+        .update({newMatchCount: 0, lastViewedAt: helpers.timestamp()});
+    },
+  };
+
+  const getListing = async (
+    itemId: string,
+    transaction?: Transaction
+  ): Promise<MarketplaceItem> => {
+    const ref = firestore.collection(collections.marketplace).doc(itemId);
+    const doc = await (transaction ? transaction.get(ref) : ref.get());
+    if (!doc.exists) {
+      throw createBackendError('marketplace/not-found', 'Listing not found');
+    }
+    return mapMarketplaceItem(doc);
+  };
+
+  // Accepted trades and Buy Now purchases own their reservations until they end.
+  // Callers check inside the transaction that writes, so a reservation made
+  // meanwhile retries the check instead of being overwritten
+  const assertNotHeld = (item: MarketplaceItem) => {
+    if (item.status === 'reserved' && item.reservedByTradeId) {
+      throw createBackendError(
+        'marketplace/held-by-trade',
+        'This listing is reserved for an accepted trade'
+      );
+    }
+    if (item.status === 'reserved' && item.reservedByEscrowId) {
+      throw createBackendError(
+        'marketplace/held-by-purchase',
+        'This listing is reserved for a paid purchase'
+      );
+    }
+    if (isCheckoutHoldActive(item)) {
+      throw createBackendError(
+        'marketplace/held-by-purchase',
+        'A buyer is paying for this listing'
+      );
+    }
+  };
+
+  const marketplace = {
+    async list(options: MarketplaceListOptions = {}): Promise<MarketplaceItem[]> {
+      let query: Query = firestore.collection(collections.marketplace);
+
+      if (options.category && options.category !== 'all') {
+        query = query.where('category', '==', options.category);
+      }
+
+      const snapshot = await query
+        .where('status', '==', 'available')
+        .orderBy('createdAt', 'desc')
+        .limit(options.limit || 50)
+        .get();
+
+      return snapshot.docs.map(mapMarketplaceItem).filter(item => !isCheckoutHoldActive(item));
+    },
+
+    // Equality filters and the most selective keyword run on the server. Range
+    // filters must be on the first sort field, so price bounds only go to the
+    // server for price sorts; everything else is checked on each fetched batch
+    async search(
+      searchQuery: MarketplaceSearchQuery,
+      cursor: MarketplaceSearchCursor | null = null,
+      pageSize: number = MARKETPLACE_PAGE_SIZE
+    ): Promise<MarketplaceSearchPage> {
+      let query: Query = firestore
+        .collection(collections.marketplace)
+        .where('status', '==', 'available');
+
+      if (searchQuery.category && searchQuery.category !== 'all') {
+        query = query.where('category', '==', searchQuery.category);
+      }
+      if (searchQuery.currency) {
+        query = query.where('currency', '==', searchQuery.currency);
+      }
+      if (searchQuery.sellerId) {
+        query = query.where('sellerId', '==', searchQuery.sellerId);
+      }
+      if (searchQuery.conditions && searchQuery.conditions.length > 0) {
+        query = query.where('condition', 'in', searchQuery.conditions);
+      }
+      if (searchQuery.shipping === 'available') {
+        query = query.where('shippingAvailable', '==', true);
+      } else if (searchQuery.shipping === 'free') {
+        query = query.where('freeShipping', '==', true);
+      }
+
+      const indexToken = pickIndexToken(searchQuery);
+      if (indexToken) {
+        query = query.where('searchKeywords', 'array-contains', indexToken);
+      }
+
+      switch (searchQuery.sort) {
+        case 'price-asc':
+        case 'price-desc':
+          if (searchQuery.minPrice !== undefined) {
+            query = query.where('price', '>=', searchQuery.minPrice);
+          }
+          if (searchQuery.maxPrice !== undefined) {
+            query = query.where('price', '<=', searchQuery.maxPrice);
+          }
+          query = query.orderBy('price', searchQuery.sort === 'price-asc' ? 'asc' : 'desc');
+          break;
+        case 'ending-soon':
+          query = query.where('expiresAt', '>', new Date()).orderBy('expiresAt', 'asc');
+          break;
+        default:
+          query = query.orderBy('createdAt', 'desc');
+      }
+
+      const items: MarketplaceItem[] = [];
+      let lastDoc = cursor;
+      let hasMore = true;
+
+      for (let batch = 0; batch < MAX_SEARCH_BATCHES && hasMore && items.length < pageSize; batch++) {
+        const snapshot = await (lastDoc ? query.startAfter(lastDoc) : query).limit(pageSize).get();
+
+        snapshot.docs.forEach(doc => {
+          const item = mapMarketplaceItem(doc);
+          if (
+            !isListingExpired(item) &&
+            !isCheckoutHoldActive(item) &&
+            matchesSearch(item, doc.data()?.searchKeywords || [], searchQuery)
+          ) {
+            items.push(item);
+          }
+        });
+
+        hasMore = snapshot.size === pageSize;
+        if (snapshot.size > 0) {
+          lastDoc = snapshot.docs[snapshot.size - 1];
+        }
+      }
+
+      return {items, cursor: lastDoc, hasMore};
+    },
+
+    async get(itemId: string): Promise<MarketplaceItem | null> {
+      const doc = await firestore.collection(collections.marketplace).doc(itemId).get();
+      return doc.exists ? mapMarketplaceItem(doc) : null;
+    },
+
+    async create(item: NewMarketplaceItem, itemId?: string): Promise<string> {
+      const itemRef = firestore.collection(collections.marketplace).doc(itemId);
+      if (itemId && (await itemRef.get()).exists) {
+        return itemRef.id;
+      }
+
+      // Saved searches are alerted by the marketplace write trigger
+      await itemRef.set({
+        ...item,
+        ...buildListingIndex(item),
+        status: 'available',
+        createdAt: helpers.timestamp(),
+        updatedAt: helpers.timestamp(),
+        expiresAt: getListingExpiry(),
+      });
+
+      return itemRef.id;
+    },
+
+    // The search index is rebuilt from the merged listing on every update, and
+    // images dropped from the listing are removed from storage afterwards
+    async update(itemId: string, updates: Partial<NewMarketplaceItem>): Promise<void> {
+      const current = await firestore.runTransaction(async transaction => {
+        const listing = await getListing(itemId, transaction);
+        if (listing.status === 'sold') {
+          throw createBackendError('marketplace/invalid-status', 'Sold listings cannot be edited');
+        }
+        assertNotHeld(listing);
+
+        transaction.update(firestore.collection(collections.marketplace).doc(itemId), {
+          ...updates,
+          ...buildListingIndex({...listing, ...updates}),
+          updatedAt: helpers.timestamp(),
+        });
+        return listing;
+      });
+
+      if (updates.imagePaths) {
+        const keptPaths = updates.imagePaths;
+        await Promise.all(
+          (current.imagePaths || [])
+            .filter(path => path && !keptPaths.includes(path))
+            .map(path => helpers.deleteFile(path))
+        );
+      }
+    },
+
+    async setStatus(itemId: string, status: ListingStatus): Promise<void> {
+      await firestore.runTransaction(async transaction => {
+        const current = await getListing(itemId, transaction);
+        if (current.status === status) {
+          return;
+        }
+        assertNotHeld(current);
+        if (!canChangeListingStatus(current.status, status)) {
+          throw createBackendError(
+            'marketplace/invalid-status',
+            `A ${current.status} listing cannot be marked ${status}`
+          );
+        }
+
+        // A lapsed checkout hold is dropped with the status change
+        transaction.update(firestore.collection(collections.marketplace).doc(itemId), {
+          status,
+          soldAt: status === 'sold' ? helpers.timestamp() : helpers.deleteField(),
+          ...(current.reservedByEscrowId && {
+            reservedByEscrowId: helpers.deleteField(),
+            reservedUntil: helpers.deleteField(),
+          }),
+          updatedAt: helpers.timestamp(),
+        });
+      });
+    },
+
+    // Relisted items start a fresh listing period and sort as new
+    async relist(itemId: string): Promise<void> {
+      const current = await getListing(itemId);
+      if (!canRelistListing(current)) {
+        throw createBackendError(
+          'marketplace/invalid-status',
+          'Only sold or expired listings can be relisted'
+        );
+      }
+
+      await firestore.collection(collections.marketplace).doc(itemId).update({
+        status: 'available',
+        soldAt: helpers.deleteField(),
+        createdAt: helpers.timestamp(),
+        updatedAt: helpers.timestamp(),
+        expiresAt: getListingExpiry(),
+      });
+    },
+
+    // Listings created before image paths were recorded leave their images behind
+    async delete(itemId: string): Promise<void> {
+      const current = await firestore.runTransaction(async transaction => {
+        const listing = await getListing(itemId, transaction);
+        assertNotHeld(listing);
+        transaction.delete(firestore.collection(collections.marketplace).doc(itemId));
+        return listing;
+      });
+      await Promise.all(
+        (current.imagePaths || []).filter(path => path).map(path => helpers.deleteFile(path))
+      );
+    },
+  };
+
+  const withNote = (summary: string, note: string) =>
+    note.trim() ? `${summary}\n\n${note.trim()}` : summary;
+
+  // Trades only take listings their owner could still sell
+  const assertOfferAvailable = async (trade: NewTrade) => {
+    const entries = [
+      ...trade.initiatorItems.map(item => ({item, ownerId: trade.initiatorId})),
+      ...trade.receiverItems.map(item => ({item, ownerId: trade.receiverId})),
+    ];
+    const docs = await Promise.all(
+      entries.map(({item}) => firestore.collection(collections.marketplace).doc(item.id).get())
+    );
+    assertTradeItemsAvailable(
+      entries.map(({item, ownerId}, index) => ({
+        itemId: item.id,
+        title: item.title,
+        ownerId,
+        state: docs[index].exists ? mapMarketplaceItem(docs[index]) : null,
+      }))
+    );
+  };
+
+  const transitionContext = {firestore, timestamp: helpers.timestamp};
+
+  const trades = {
+    async get(tradeId: string): Promise<Trade | null> {
+      const doc = await firestore.collection(collections.trades).doc(tradeId).get();
+      return doc.exists ? mapTrade(doc) : null;
+    },
+
+    async listForUser(uid: string): Promise<Trade[]> {
+      const [initiated, received] = await Promise.all([
+        firestore.collection(collections.trades).where('initiatorId', '==', uid).get(),
+        firestore.collection(collections.trades).where('receiverId', '==', uid).get(),
+      ]);
+
+      return [...initiated.docs, ...received.docs]
+        .map(mapTrade)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    },
+
+    subscribe(
+      tradeId: string,
+      onChange: (trade: Trade | null) => void,
+      onError: (error: Error) => void
+    ): () => void {
+      return firestore
+        .collection(collections.trades)
+        .doc(tradeId)
+        .onSnapshot(doc => onChange(doc.exists ? mapTrade(doc) : null), onError);
+    },
+
+    async create(trade: NewTrade, note: string = ''): Promise<string> {
+      if (trade.initiatorItems.length === 0 && trade.receiverItems.length === 0) {
+        throw createBackendError('trades/empty-offer', 'Add at least one item to the offer');
+      }
+
+      await assertOfferAvailable(trade);
+
+      const tradeRef = firestore.collection(collections.trades).doc();
+      const summary = describeTradeOffer(trade, trade.initiatorId, trade.initiatorId);
+
+      const batch = firestore.batch();
+      batch.set(tradeRef, {
+        initiatorId: trade.initiatorId,
+        receiverId: trade.receiverId,
+        ...toOfferFields(trade),
+        status: 'pending',
+        awaitingResponseFrom: trade.receiverId,
+        messages: [createTradeMessage(trade.initiatorId, 'offer', withNote(summary, note))],
+        createdAt: helpers.timestamp(),
+        updatedAt: helpers.timestamp(),
+      });
+      batch.set(firestore.collection(collections.notifications).doc(), {
+        userId: trade.receiverId,
+        type: 'trade',
+        title: 'New trade offer',
+        body: summary,
+        data: {tradeId: tradeRef.id},
+        read: false,
+        createdAt: helpers.timestamp(),
+      });
+      batch.set(
+        tradeRef.collection(TRADE_AUDIT_COLLECTION).doc(),
+        toAuditEntryFields(trade.initiatorId, 'create', null, 'pending', [], helpers.timestamp())
+      );
+      await batch.commit();
+
+      return tradeRef.id;
+    },
+
+    // Status changes go through the trade state machine, which checks the
+    // actor's turn and reserves or releases the listings involved
+    async counter(
+      tradeId: string,
+      uid: string,
+      offer: TradeOffer,
+      note: string = ''
+    ): Promise<void> {
+      if (offer.initiatorItems.length === 0 && offer.receiverItems.length === 0) {
+        throw createBackendError('trades/empty-offer', 'Add at least one item to the offer');
+      }
+      const trade = await trades.get(tradeId);
+      if (!trade) {
+        throw createBackendError('trades/not-found', 'Trade not found');
+      }
+
+      await runTradeTransition(transitionContext, {
+        tradeId,
+        actorId: uid,
+        action: 'counter',
+        summary: describeTradeOffer(offer, uid, trade.initiatorId),
+        note,
+        offer: toOfferFields(offer),
+      });
+    },
+
+    async accept(tradeId: string, uid: string): Promise<void> {
+      await runTradeTransition(transitionContext, {tradeId, actorId: uid, action: 'accept'});
+    },
+
+    async reject(tradeId: string, uid: string, reason: string = ''): Promise<void> {
+      await runTradeTransition(transitionContext, {
+        tradeId,
+        actorId: uid,
+        action: 'reject',
+        note: reason,
+      });
+    },
+
+    async cancel(tradeId: string, uid: string, reason: string = ''): Promise<void> {
+      await runTradeTransition(transitionContext, {
+        tradeId,
+        actorId: uid,
+        action: 'cancel',
+        note: reason,
+      });
+    },
+
+    async markShipped(tradeId: string, uid: string, shipment: NewTradeShipment): Promise<void> {
+      await runTradeTransition(transitionContext, {
+        tradeId,
+        actorId: uid,
+        action: 'ship',
+        carrier: shipment.carrier.trim(),
+        trackingNumber: shipment.trackingNumber.trim(),
+        photoURL: shipment.photoURL,
+      });
+    },
+
+    // Confirming the last outstanding shipment completes the trade
+    async confirmReceived(tradeId: string, uid: string, photoURL?: string): Promise<void> {
+      await runTradeTransition(transitionContext, {
+        tradeId,
+        actorId: uid,
+        action: 'receive',
+        photoURL,
+      });
+    },
+
+    async openDispute(tradeId: string, uid: string, reason: string): Promise<void> {
+      await runTradeTransition(transitionContext, {
+        tradeId,
+        actorId: uid,
+        action: 'dispute',
+        note: reason,
+      });
+    },
+
+    async withdrawDispute(tradeId: string, uid: string): Promise<void> {
+      await runTradeTransition(transitionContext, {tradeId, actorId: uid, action: 'resolve'});
+    },
+
+    async listAudit(tradeId: string): Promise<TradeAuditEntry[]> {
+      const snapshot = await firestore
+        .collection(collections.trades)
+        .doc(tradeId)
+        .collection(TRADE_AUDIT_COLLECTION)
+        .orderBy('createdAt', 'asc')
+        .get();
+
+      return snapshot.docs.map(doc => mapTradeAuditEntry(tradeId, doc));
+    },
+
+    async addMessage(tradeId: string, uid: string, content: string): Promise<void> {
+      const trade = await trades.get(tradeId);
+      if (!trade || !isTradeParty(trade, uid)) {
+        throw createBackendError('trades/not-found', 'Trade not found');
+      }
+
+      await firestore
+        .collection(collections.trades)
+        .doc(tradeId)
+        .update({
+          messages: helpers.arrayUnion(createTradeMessage(uid, 'message', content)),
+          updatedAt: helpers.timestamp(),
+        });
+    },
+  };
+
+  const escrowRef = (escrowId: string) => firestore.collection(collections.escrows).doc(escrowId);
+
+  // Purchases only change through the escrow callables; the app reads them here
+  const escrows = {
+    async get(escrowId: string): Promise<Escrow | null> {
+      const doc = await escrowRef(escrowId).get();
+      return doc.exists ? mapEscrow(doc) : null;
+    },
+
+    async listForUser(uid: string): Promise<Escrow[]> {
+      const [bought, sold] = await Promise.all([
+        firestore.collection(collections.escrows).where('buyerId', '==', uid).get(),
+        firestore.collection(collections.escrows).where('sellerId', '==', uid).get(),
+      ]);
+
+      return [...bought.docs, ...sold.docs]
+        .map(mapEscrow)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    },
+
+    subscribe(
+      escrowId: string,
+      onChange: (escrow: Escrow | null) => void,
+      onError: (error: Error) => void
+    ): () => void {
+      return escrowRef(escrowId).onSnapshot(
+        doc => onChange(doc.exists ? mapEscrow(doc) : null),
+        onError
+      );
+    },
+  };
+
+  const notifications = {
+    async listForUser(uid: string, limit: number = 50): Promise<Notification[]> {
+      const snapshot = await firestore
+        .collection(collections.notifications)
+        .where('userId', '==', uid)
+        .orderBy('createdAt', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(mapNotification);
+    },
+
+    async create(notification: NewNotification): Promise<string> {
+      const notificationRef = await firestore.collection(collections.notifications).add({
+        ...notification,
+        read: false,
+        createdAt: helpers.timestamp(),
+      });
+      return notificationRef.id;
+    },
+
+    async markRead(notificationId: string): Promise<void> {
+      await firestore
+        .collection(collections.notifications)
+        .doc(notificationId)
+        .update({read: true});
+    },
+  };
+
+  return {
+    users,
+    posts,
+    messages,
+    conversations,
+    personas,
+    aiUsage,
+    presence,
+    typing,
+    savedSearches,
+    marketplace,
+    trades,
+    escrows,
+    notifications,
+  };
+};
+
+export type Repository = ReturnType<typeof createRepository>;
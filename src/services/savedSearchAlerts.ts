@@ -0,0 +1,152 @@
+/**
+ * Saved Search Alerts
+ * Matches listings against every user's saved searches from the marketplace
+ * write trigger, when a listing goes up, is relisted or changes
+ */
+
+import {
+  DocumentData,
+  DocumentSnapshot,
+  DocumentStore,
+  FieldValueFactory,
+  QuerySnapshot,
+} from './backend';
+import {collections} from './firebase';
+import {ListingIndex, matchesSavedSearch} from './marketplaceSearch';
+import {MarketplaceItem} from '../types';
+
+const SAVED_SEARCH_PAGE_SIZE = 200;
+
+// Edits to any other field can't change which searches a listing matches
+const MATCHED_FIELDS = [
+  'status',
+  'category',
+  'currency',
+  'sellerId',
+  'condition',
+  'price',
+  'searchKeywords',
+  'shippingAvailable',
+  'freeShipping',
+];
+
+export interface SavedSearchAlertContext {
+  firestore: DocumentStore;
+  fieldValues: FieldValueFactory;
+}
+
+type MatchedListing = Pick<
+  MarketplaceItem,
+  'title' | 'category' | 'currency' | 'sellerId' | 'condition' | 'price'
+> &
+  ListingIndex;
+
+const toMillis = (value: any): number => {
+  if (!value) {
+    return 0;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return typeof value.toMillis === 'function' ? value.toMillis() : 0;
+};
+
+const isListed = (listing: DocumentData, now: Date): boolean =>
+  listing.status === 'available' &&
+  (!listing.expiresAt || toMillis(listing.expiresAt) > now.getTime());
+
+// Relisting restarts createdAt, which starts a new listing period
+const hasMatchChanged = (before: DocumentData, after: DocumentData): boolean =>
+  toMillis(before.createdAt) !== toMillis(after.createdAt) ||
+  MATCHED_FIELDS.some(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+
+// Each search is alerted at most once per listing period, recorded in the
+// same transaction as the alert so retried triggers never repeat it
+const alertSearch = (
+  {firestore, fieldValues}: SavedSearchAlertContext,
+  search: DocumentSnapshot,
+  itemId: string,
+  listing: MatchedListing,
+  listedAt: number
+): Promise<boolean> =>
+  firestore.runTransaction(async transaction => {
+    const alertRef = firestore
+      .collection(collections.savedSearchAlerts)
+      .doc(`${search.id}_${itemId}`);
+    const [alert, current] = await Promise.all([
+      transaction.get(alertRef),
+      transaction.get(search.ref),
+    ]);
+    if (!current.exists || (alert.exists && alert.data()?.listedAt === listedAt)) {
+      return false;
+    }
+
+    const data = current.data() || {};
+    transaction.set(alertRef, {
+      savedSearchId: search.id,
+      itemId,
+      userId: data.userId,
+      listedAt,
+      createdAt: fieldValues.serverTimestamp(),
+    });
+    transaction.update(search.ref, {
+      newMatchCount: fieldValues.increment(1),
+      updatedAt: fieldValues.serverTimestamp(),
+    });
+    if (data.notify !== false) {
+      transaction.set(firestore.collection(collections.notifications).doc(), {
+        userId: data.userId,
+        type: 'trade',
+        title: `New match for "${data.name}"`,
+        body: `${listing.title} · ${listing.price} ${listing.currency}`,
+        data: {savedSearchId: search.id, itemId},
+        read: false,
+        createdAt: fieldValues.serverTimestamp(),
+      });
+    }
+    return true;
+  });
+
+// Pages through every search in the listing's category, so popular
+// categories are never cut off. Returns the number of searches alerted
+export const alertSavedSearches = async (
+  context: SavedSearchAlertContext,
+  itemId: string,
+  before: DocumentData | null,
+  after: DocumentData | null,
+  now: Date = new Date()
+): Promise<number> => {
+  if (!after || !isListed(after, now) || (before && !hasMatchChanged(before, after))) {
+    return 0;
+  }
+
+  const listing = after as MatchedListing;
+  const listedAt = toMillis(after.createdAt);
+  let cursor: DocumentSnapshot | null = null;
+  let alerted = 0;
+
+  for (;;) {
+    const query = context.firestore
+      .collection(collections.savedSearches)
+      .where('category', 'in', [listing.category, 'all'])
+      .orderBy('createdAt', 'asc')
+      .limit(SAVED_SEARCH_PAGE_SIZE);
+    const snapshot: QuerySnapshot = await (cursor ? query.startAfter(cursor) : query).get();
+
+    for (const search of snapshot.docs) {
+      const data = search.data() || {};
+      if (
+        data.userId !== listing.sellerId &&
+        matchesSavedSearch(listing, listing, data.query || {}) &&
+        (await alertSearch(context, search, itemId, listing, listedAt))
+      ) {
+        alerted++;
+      }
+    }
+
+    if (snapshot.size < SAVED_SEARCH_PAGE_SIZE) {
+      return alerted;
+    }
+    cursor = snapshot.docs[snapshot.size - 1];
+  }
+};
@@ -0,0 +1,89 @@
+/**
+ * Trade Reminders
+ * Scheduled nudges for accepted trades whose shipment or receipt is overdue,
+ * sent whether or not either trader opens the app
+ */
+
+import {DocumentData, DocumentStore, FieldValueFactory} from './backend';
+import {collections} from './firebase';
+import {OverdueTradeState, getOverdueTradeReminders} from './tradeStateMachine';
+import {TradeShipment} from '../types';
+
+export interface TradeReminderContext {
+  firestore: DocumentStore;
+  fieldValues: FieldValueFactory;
+}
+
+const toDate = (value: unknown): Date => {
+  if (value instanceof Date) {
+    return value;
+  }
+  const timestamp = value as {toDate?: () => Date} | null | undefined;
+  if (timestamp && typeof timestamp.toDate === 'function') {
+    return timestamp.toDate();
+  }
+  return new Date(value as string | number);
+};
+
+const toOverdueTradeState = (data: DocumentData): OverdueTradeState => {
+  const shipments: {[senderId: string]: TradeShipment} = {};
+  Object.keys(data.shipments || {}).forEach(senderId => {
+    const shipment = data.shipments[senderId];
+    shipments[senderId] = {
+      ...shipment,
+      shippedAt: toDate(shipment.shippedAt),
+      receivedAt: shipment.receivedAt ? toDate(shipment.receivedAt) : undefined,
+    };
+  });
+
+  return {
+    status: data.status,
+    initiatorId: data.initiatorId,
+    receiverId: data.receiverId,
+    awaitingResponseFrom: data.awaitingResponseFrom || data.receiverId,
+    initiatorItems: data.initiatorItems || [],
+    receiverItems: data.receiverItems || [],
+    shipments,
+    acceptedAt: data.acceptedAt ? toDate(data.acceptedAt) : undefined,
+    updatedAt: toDate(data.updatedAt),
+    remindersSent: data.remindersSent || [],
+  };
+};
+
+// Each trade's reminders are committed with the keys that mark them sent, so
+// a run that fails part way is picked up by the next one. Returns how many
+// reminders went out
+export const sendOverdueTradeReminders = async (
+  {firestore, fieldValues}: TradeReminderContext,
+  now: Date = new Date()
+): Promise<number> => {
+  const accepted = await firestore
+    .collection(collections.trades)
+    .where('status', '==', 'accepted')
+    .get();
+
+  let sent = 0;
+  for (const doc of accepted.docs) {
+    const reminders = getOverdueTradeReminders(toOverdueTradeState(doc.data() || {}), now);
+    if (reminders.length === 0) continue;
+
+    const batch = firestore.batch();
+    reminders.forEach(reminder => {
+      batch.set(firestore.collection(collections.notifications).doc(), {
+        userId: reminder.userId,
+        type: 'trade',
+        title: reminder.title,
+        body: reminder.body,
+        data: {tradeId: doc.id},
+        read: false,
+        createdAt: fieldValues.serverTimestamp(),
+      });
+    });
+    batch.update(doc.ref, {
+      remindersSent: fieldValues.arrayUnion(...reminders.map(reminder => reminder.key)),
+    });
+    await batch.commit();
+    sent += reminders.length;
+  }
+  return sent;
+};
@@ -0,0 +1,550 @@
+/**
+ * Trade State Machine
+ * Legal trade status changes and who may make them, plus the transactional
+ * executor shared by the repository and the trade callables
+ */
+
+import {DocumentData, DocumentStore, FieldValue, Transaction, createBackendError} from './backend';
+import {isCheckoutHoldActive} from './escrow';
+import {collections} from './firebase';
+import {ListingStatus, Trade, TradeAction, TradeMessage, TradeStatus} from '../types';
+
+// Audit entries live under each trade and are only ever added
+export const TRADE_AUDIT_COLLECTION = 'audit';
+
+// Reminders go out once a step has waited this long
+export const TRADE_SHIPPING_DAYS = 3;
+export const TRADE_RECEIPT_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rejected, completed and cancelled trades are final; a disputed trade is
+// frozen until the dispute is withdrawn, or called off if nothing has shipped
+const TRADE_TRANSITIONS: {[status in TradeStatus]: TradeStatus[]} = {
+  pending: ['pending', 'accepted', 'rejected', 'cancelled'],
+  accepted: ['accepted', 'completed', 'cancelled', 'disputed'],
+  disputed: ['accepted', 'cancelled'],
+  rejected: [],
+  completed: [],
+  cancelled: [],
+};
+
+const actionTargets: {[action in TradeAction]: TradeStatus} = {
+  counter: 'pending',
+  accept: 'accepted',
+  reject: 'rejected',
+  cancel: 'cancelled',
+  ship: 'accepted',
+  receive: 'accepted',
+  dispute: 'disputed',
+  resolve: 'accepted',
+};
+
+// The statuses each action can be taken from
+const actionSources: {[action in TradeAction]: TradeStatus[]} = {
+  counter: ['pending'],
+  accept: ['pending'],
+  reject: ['pending'],
+  cancel: ['pending', 'accepted', 'disputed'],
+  ship: ['accepted'],
+  receive: ['accepted'],
+  dispute: ['accepted'],
+  resolve: ['disputed'],
+};
+
+const actionMessages: {[action in TradeAction]: {type: TradeMessage['type']; content: string}} = {
+  counter: {type: 'counter-offer', content: 'Sent a counter-offer'},
+  accept: {type: 'acceptance', content: 'Accepted the offer'},
+  reject: {type: 'rejection', content: 'Rejected the offer'},
+  cancel: {type: 'cancellation', content: 'Cancelled the trade'},
+  ship: {type: 'shipment', content: 'Shipped their items'},
+  receive: {type: 'receipt', content: 'Confirmed receipt'},
+  dispute: {type: 'dispute', content: 'Opened a dispute'},
+  resolve: {type: 'resolution', content: 'Withdrew the dispute'},
+};
+
+const actionNotificationTitles: {[action in TradeAction]: string} = {
+  counter: 'Trade counter-offer',
+  accept: 'Trade accepted',
+  reject: 'Trade rejected',
+  cancel: 'Trade cancelled',
+  ship: 'Trade items shipped',
+  receive: 'Trade items received',
+  dispute: 'Trade disputed',
+  resolve: 'Trade dispute withdrawn',
+};
+
+// Added by the receipt confirmation that completes a trade
+const completion = {content: 'Completed the trade', title: 'Trade completed'};
+
+export type TradeState = Pick<
+  Trade,
+  | 'status'
+  | 'initiatorId'
+  | 'receiverId'
+  | 'awaitingResponseFrom'
+  | 'initiatorItems'
+  | 'receiverItems'
+  | 'shipments'
+  | 'dispute'
+>;
+
+// The listing fields that decide whether an item can go into a trade
+export interface TradeItemState {
+  id: string;
+  sellerId: string;
+  status: ListingStatus;
+  reservedByTradeId?: string;
+  reservedByEscrowId?: string;
+  reservedUntil?: Date;
+  expiresAt?: Date;
+}
+
+export const canTransitionTrade = (from: TradeStatus, to: TradeStatus): boolean =>
+  TRADE_TRANSITIONS[from].includes(to);
+
+const canTakeAction = (status: TradeStatus, action: TradeAction): boolean =>
+  actionSources[action].includes(status) && canTransitionTrade(status, actionTargets[action]);
+
+export const isTradeParty = (trade: Pick<Trade, 'initiatorId' | 'receiverId'>, uid: string) =>
+  trade.initiatorId === uid || trade.receiverId === uid;
+
+const getCounterparty = (trade: Pick<Trade, 'initiatorId' | 'receiverId'>, uid: string) =>
+  trade.initiatorId === uid ? trade.receiverId : trade.initiatorId;
+
+// Each party giving items ships them; a side adding only cash has nothing to send
+export const getTradeSenders = (trade: TradeState): string[] => [
+  ...(trade.initiatorItems.length > 0 ? [trade.initiatorId] : []),
+  ...(trade.receiverItems.length > 0 ? [trade.receiverId] : []),
+];
+
+const getShipment = (trade: TradeState, senderId: string) =>
+  trade.shipments ? trade.shipments[senderId] : undefined;
+
+export const isTradeFullyReceived = (trade: TradeState): boolean =>
+  getTradeSenders(trade).every(senderId => !!getShipment(trade, senderId)?.receivedAt);
+
+// The party an open offer waits on answers it and the proposer can withdraw
+// it. An accepted or disputed trade can be called off until something ships;
+// after that only withdrawing the dispute unfreezes it. Each shipment is
+// confirmed by the party receiving it
+const isAllowedActor = (trade: TradeState, action: TradeAction, uid: string): boolean => {
+  const otherShipment = getShipment(trade, getCounterparty(trade, uid));
+
+  switch (action) {
+    case 'counter':
+    case 'accept':
+    case 'reject':
+      return trade.awaitingResponseFrom === uid;
+    case 'cancel':
+      return trade.status === 'pending'
+        ? trade.awaitingResponseFrom !== uid
+        : Object.keys(trade.shipments || {}).length === 0;
+    case 'ship':
+      return getTradeSenders(trade).includes(uid) && !getShipment(trade, uid)?.receivedAt;
+    case 'receive':
+      return !!otherShipment && !otherShipment.receivedAt;
+    case 'dispute':
+      return true;
+    case 'resolve':
+      return !!trade.dispute && trade.dispute.openedBy === uid;
+  }
+};
+
+export const getTradeActions = (trade: TradeState, uid: string): TradeAction[] => {
+  if (!isTradeParty(trade, uid)) {
+    return [];
+  }
+  return (Object.keys(actionTargets) as TradeAction[]).filter(
+    action =>
+      canTakeAction(trade.status, action) && isAllowedActor(trade, action, uid)
+  );
+};
+
+// Returns the status the action moves the trade to
+export const assertTradeAction = (
+  trade: TradeState,
+  action: TradeAction,
+  uid: string
+): TradeStatus => {
+  if (!isTradeParty(trade, uid)) {
+    throw createBackendError('trades/not-a-party', 'Only the two traders can change a trade');
+  }
+
+  const nextStatus = actionTargets[action];
+  if (!canTakeAction(trade.status, action)) {
+    throw createBackendError(
+      'trades/invalid-transition',
+      `Cannot ${action} a trade that is ${trade.status}`
+    );
+  }
+  if (!isAllowedActor(trade, action, uid)) {
+    throw action === 'counter' || action === 'accept' || action === 'reject'
+      ? createBackendError('trades/not-your-turn', 'Waiting for the other party to respond')
+      : createBackendError('trades/not-allowed', `You cannot ${action} this trade right now`);
+  }
+  return nextStatus;
+};
+
+const getItemProblem = (
+  item: TradeItemState | null,
+  ownerId: string,
+  tradeId?: string
+): string | null => {
+  if (!item) {
+    return 'has been removed';
+  }
+  if (item.sellerId !== ownerId) {
+    return 'is not listed by the trader offering it';
+  }
+  if (item.status === 'sold') {
+    return 'has been sold';
+  }
+  if (item.status === 'reserved' && (!tradeId || item.reservedByTradeId !== tradeId)) {
+    return 'is reserved';
+  }
+  if (isCheckoutHoldActive(item)) {
+    return 'is being bought';
+  }
+  if (item.status === 'available' && item.expiresAt && item.expiresAt.getTime() <= Date.now()) {
+    return 'has expired';
+  }
+  return null;
+};
+
+// Items reserved by `tradeId` itself still count as available to it
+export const assertTradeItemsAvailable = (
+  items: {itemId: string; title: string; state: TradeItemState | null; ownerId: string}[],
+  tradeId?: string
+): void => {
+  items.forEach(({title, state, ownerId}) => {
+    const problem = getItemProblem(state, ownerId, tradeId);
+    if (problem) {
+      throw createBackendError('trades/item-unavailable', `"${title}" ${problem}`);
+    }
+  });
+};
+
+// Server timestamps are not allowed inside arrays, so history entries carry the client time
+export const createTradeMessage = (
+  senderId: string,
+  type: TradeMessage['type'],
+  content: string
+): TradeMessage => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+  senderId,
+  type,
+  content,
+  timestamp: new Date(),
+});
+
+export const toAuditEntryFields = (
+  actorId: string,
+  action: 'create' | TradeAction,
+  fromStatus: TradeStatus | null,
+  toStatus: TradeStatus,
+  itemIds: string[],
+  timestamp: FieldValue
+): DocumentData => ({actorId, action, fromStatus, toStatus, itemIds, createdAt: timestamp});
+
+// Overdue steps
+export interface TradeReminder {
+  // Stored on the trade so each reminder goes out once
+  key: string;
+  userId: string;
+  title: string;
+  body: string;
+}
+
+export type OverdueTradeState = TradeState &
+  Pick<Trade, 'acceptedAt' | 'updatedAt' | 'remindersSent'>;
+
+// Accepted trades remind senders who have not shipped and recipients who
+// have not confirmed a delivery; disputed trades are left alone
+export const getOverdueTradeReminders = (
+  trade: OverdueTradeState,
+  now: Date = new Date()
+): TradeReminder[] => {
+  if (trade.status !== 'accepted') {
+    return [];
+  }
+
+  const acceptedAt = trade.acceptedAt || trade.updatedAt;
+  const reminders: TradeReminder[] = [];
+  getTradeSenders(trade).forEach(senderId => {
+    const shipment = getShipment(trade, senderId);
+    if (!shipment) {
+      if (now.getTime() - acceptedAt.getTime() >= TRADE_SHIPPING_DAYS * DAY_MS) {
+        reminders.push({
+          key: `ship-${senderId}`,
+          userId: senderId,
+          title: 'Trade shipment overdue',
+          body: 'Ship your items and add the tracking number so the trade can finish',
+        });
+      }
+    } else if (
+      !shipment.receivedAt &&
+      now.getTime() - shipment.shippedAt.getTime() >= TRADE_RECEIPT_DAYS * DAY_MS
+    ) {
+      reminders.push({
+        key: `receive-${senderId}`,
+        userId: getCounterparty(trade, senderId),
+        title: 'Confirm your trade delivery',
+        body: `Items were shipped via ${shipment.carrier} ${TRADE_RECEIPT_DAYS} days ago. ` +
+          'Confirm receipt or open a dispute',
+      });
+    }
+  });
+
+  return reminders.filter(reminder => !(trade.remindersSent || []).includes(reminder.key));
+};
+
+// Transaction execution
+export interface TradeTransitionContext {
+  firestore: DocumentStore;
+  timestamp: () => FieldValue;
+}
+
+export interface TradeTransitionRequest {
+  tradeId: string;
+  actorId: string;
+  action: TradeAction;
+  // Replaces the default history line and notification text
+  summary?: string;
+  // Also the dispute reason
+  note?: string;
+  // Replacement offer fields, only read for counter-offers
+  offer?: DocumentData;
+  // Only read when shipping
+  carrier?: string;
+  trackingNumber?: string;
+  // Proof of shipping or of receipt
+  photoURL?: string;
+}
+
+const toItemState = (id: string, data: DocumentData | undefined): TradeItemState | null => {
+  if (!data) {
+    return null;
+  }
+  const toOptionalDate = (value: any): Date | undefined =>
+    value ? (typeof value.toDate === 'function' ? value.toDate() : new Date(value)) : undefined;
+  return {
+    id,
+    sellerId: data.sellerId,
+    status: data.status,
+    reservedByTradeId: data.reservedByTradeId || undefined,
+    reservedByEscrowId: data.reservedByEscrowId || undefined,
+    reservedUntil: toOptionalDate(data.reservedUntil),
+    expiresAt: toOptionalDate(data.expiresAt),
+  };
+};
+
+const readOfferedItems = async (
+  transaction: Transaction,
+  firestore: DocumentStore,
+  offer: DocumentData,
+  trade: TradeState
+) => {
+  const entries = [
+    ...(offer.initiatorItems || []).map((item: any) => ({item, ownerId: trade.initiatorId})),
+    ...(offer.receiverItems || []).map((item: any) => ({item, ownerId: trade.receiverId})),
+  ];
+  return Promise.all(
+    entries.map(async ({item, ownerId}: {item: any; ownerId: string}) => {
+      const ref = firestore.collection(collections.marketplace).doc(item.id);
+      const snapshot = await transaction.get(ref);
+      return {
+        ref,
+        itemId: item.id as string,
+        title: item.title as string,
+        ownerId,
+        state: toItemState(item.id, snapshot.data()),
+      };
+    })
+  );
+};
+
+// Only presence of the shipment dates matters to the rules, so stored
+// timestamps are used as they are
+const toTradeState = (data: DocumentData): TradeState => ({
+  status: data.status,
+  initiatorId: data.initiatorId,
+  receiverId: data.receiverId,
+  awaitingResponseFrom: data.awaitingResponseFrom || data.receiverId,
+  initiatorItems: data.initiatorItems || [],
+  receiverItems: data.receiverItems || [],
+  shipments: data.shipments || {},
+  dispute: data.dispute || undefined,
+});
+
+// The trade fields each action writes besides its status and history
+const getActionFields = (
+  trade: TradeState,
+  request: TradeTransitionRequest,
+  timestamp: () => FieldValue
+): DocumentData => {
+  const {actorId, action} = request;
+  const otherId = getCounterparty(trade, actorId);
+
+  switch (action) {
+    case 'counter':
+      return {...(request.offer || {}), awaitingResponseFrom: otherId};
+    case 'accept':
+      return {acceptedAt: timestamp()};
+    case 'ship':
+      return {
+        [`shipments.${actorId}`]: {
+          carrier: request.carrier,
+          trackingNumber: request.trackingNumber,
+          shippedAt: timestamp(),
+          shippedPhotoURL: request.photoURL || null,
+        },
+      };
+    case 'receive':
+      return {
+        [`shipments.${otherId}.receivedAt`]: timestamp(),
+        [`shipments.${otherId}.receivedPhotoURL`]: request.photoURL || null,
+      };
+    case 'dispute':
+      return {
+        dispute: {openedBy: actorId, reason: (request.note || '').trim(), openedAt: timestamp()},
+      };
+    case 'resolve':
+      return {dispute: null};
+    default:
+      return {};
+  }
+};
+
+const assertRequestComplete = (request: TradeTransitionRequest) => {
+  if (request.action === 'ship' && !(request.carrier || '').trim()) {
+    throw createBackendError('trades/invalid-shipment', 'Add the carrier the items went with');
+  }
+  if (request.action === 'ship' && !(request.trackingNumber || '').trim()) {
+    throw createBackendError('trades/invalid-shipment', 'Add the tracking number');
+  }
+  if (request.action === 'dispute' && !(request.note || '').trim()) {
+    throw createBackendError('trades/invalid-dispute', 'Describe what went wrong');
+  }
+};
+
+const getDefaultSummary = (request: TradeTransitionRequest) =>
+  request.action === 'ship'
+    ? `Shipped via ${(request.carrier || '').trim()} (${(request.trackingNumber || '').trim()})`
+    : actionMessages[request.action].content;
+
+// Validates the change against the stored trade, then writes the new status,
+// item reservations, history, notification and audit entry together. The
+// last receipt confirmation completes the trade
+export const runTradeTransition = async (
+  {firestore, timestamp}: TradeTransitionContext,
+  request: TradeTransitionRequest
+): Promise<TradeStatus> => {
+  const {tradeId, actorId, action} = request;
+  const tradeRef = firestore.collection(collections.trades).doc(tradeId);
+  assertRequestComplete(request);
+
+  return firestore.runTransaction(async transaction => {
+    const tradeSnapshot = await transaction.get(tradeRef);
+    const data = tradeSnapshot.data();
+    if (!tradeSnapshot.exists || !data) {
+      throw createBackendError('trades/not-found', 'Trade not found');
+    }
+
+    const trade = toTradeState(data);
+    let nextStatus = assertTradeAction(trade, action, actorId);
+    const otherId = getCounterparty(trade, actorId);
+
+    if (action === 'receive') {
+      const shipments = {...trade.shipments};
+      shipments[otherId] = {...shipments[otherId], receivedAt: new Date()};
+      if (isTradeFullyReceived({...trade, shipments})) {
+        nextStatus = 'completed';
+      }
+    }
+
+    const offer = action === 'counter' && request.offer ? request.offer : data;
+    const items = await readOfferedItems(transaction, firestore, offer, trade);
+    if (action === 'counter' || action === 'accept') {
+      assertTradeItemsAvailable(items, tradeId);
+    }
+
+    // Only items this trade holds are released or sold, never ones reserved elsewhere since
+    const heldItems = items.filter(
+      item =>
+        item.state &&
+        item.state.status === 'reserved' &&
+        item.state.reservedByTradeId === tradeId
+    );
+    let changedItems: typeof items = [];
+    if (action === 'accept') {
+      changedItems = items;
+      items.forEach(item =>
+        transaction.update(item.ref, {
+          status: 'reserved',
+          reservedByTradeId: tradeId,
+          // A lapsed checkout hold gives way to the trade
+          reservedByEscrowId: null,
+          reservedUntil: null,
+          updatedAt: timestamp(),
+        })
+      );
+    } else if (nextStatus === 'cancelled' || nextStatus === 'rejected') {
+      changedItems = heldItems;
+      heldItems.forEach(item =>
+        transaction.update(item.ref, {
+          status: 'available',
+          reservedByTradeId: null,
+          updatedAt: timestamp(),
+        })
+      );
+    } else if (nextStatus === 'completed') {
+      changedItems = heldItems;
+      heldItems.forEach(item =>
+        transaction.update(item.ref, {
+          status: 'sold',
+          reservedByTradeId: null,
+          soldAt: timestamp(),
+          updatedAt: timestamp(),
+        })
+      );
+    }
+
+    const summary = request.summary || getDefaultSummary(request);
+    const note = (request.note || '').trim();
+    const content = note ? `${summary}\n\n${note}` : summary;
+    const messages = [createTradeMessage(actorId, actionMessages[action].type, content)];
+    if (nextStatus === 'completed') {
+      messages.push(createTradeMessage(actorId, 'completion', completion.content));
+    }
+
+    transaction.update(tradeRef, {
+      ...getActionFields(trade, request, timestamp),
+      status: nextStatus,
+      messages: [...(data.messages || []), ...messages],
+      updatedAt: timestamp(),
+    });
+    transaction.set(firestore.collection(collections.notifications).doc(), {
+      userId: otherId,
+      type: 'trade',
+      title: nextStatus === 'completed' ? completion.title : actionNotificationTitles[action],
+      body: summary,
+      data: {tradeId},
+      read: false,
+      createdAt: timestamp(),
+    });
+    transaction.set(
+      tradeRef.collection(TRADE_AUDIT_COLLECTION).doc(),
+      toAuditEntryFields(
+        actorId,
+        action,
+        trade.status,
+        nextStatus,
+        changedItems.map(item => item.itemId),
+        timestamp()
+      )
+    );
+
+    return nextStatus;
+  });
+};
@@ -22,7 +22,48 @@ export interface User {
   isContentCreator?: boolean;
 }
 
+export interface UserPresence {
+  uid: string;
+  online: boolean;
+  lastSeen?: Date;
+}
+
 // Message and Chat types
+// 'pending' and 'failed' are client-side outbox states; the rest are derived
+// from the receipts recorded on the message
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+// Files sent with a message. While the message waits in the outbox the url is
+// the local file; it becomes the download URL once uploaded
+export type MessageAttachmentKind = 'image' | 'file';
+
+export interface MessageAttachment {
+  id: string;
+  kind: MessageAttachmentKind;
+  url: string;
+  name: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  // Size the chat renders the preview at
+  thumbnail?: {width: number; height: number};
+}
+
+export interface MessageMetadata {
+  model?: string;
+  tokens?: number;
+  processingTime?: number;
+  // Set when the user stopped the reply before it finished
+  stopped?: boolean;
+}
+
+export interface MessageVariant {
+  content: string;
+  metadata?: MessageMetadata;
+  createdAt: Date;
+}
+
 export interface Message {
   id: string;
   content: string;
@@ -30,28 +71,113 @@ export interface Message {
   senderName: string;
   senderAvatar?: string;
   timestamp: Date;
-  type: 'user' | 'ai' | 'system';
+  type: 'text' | 'image' | 'file' | 'user' | 'ai' | 'system';
   conversationId: string;
-  metadata?: {
-    model?: string;
-    tokens?: number;
-    processingTime?: number;
-  };
+  attachments?: MessageAttachment[];
+  deliveryStatus?: MessageDeliveryStatus;
+  // User ids whose clients have received / displayed the message, sender included
+  deliveredTo?: string[];
+  readBy?: string[];
+  metadata?: MessageMetadata;
+  // Earlier answers to the same prompt, kept when an AI reply is regenerated;
+  // content and metadata mirror the selected one
+  variants?: MessageVariant[];
+  selectedVariant?: number;
+}
+
+// Display info copied onto the conversation so the chat list needs no user lookups
+export interface ConversationParticipant {
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+// Summary of the newest message, kept up to date by every send
+export interface ConversationLastMessage {
+  id: string;
+  content: string;
+  senderId: string;
+  senderName: string;
+  type: Message['type'];
+  timestamp: Date;
 }
 
 export interface Conversation {
   id: string;
-  title: string;
+  title?: string;
   participants: string[];
-  lastMessage?: Message;
-  lastActivity: Date;
+  participantInfo: {[uid: string]: ConversationParticipant};
+  lastMessage?: ConversationLastMessage;
+  lastMessageTime: Date;
+  unreadCount: {[uid: string]: number};
   createdAt: Date;
   isAIConversation: boolean;
-  metadata?: {
-    model?: string;
-    systemPrompt?: string;
-    temperature?: number;
-  };
+  isGroup: boolean;
+  avatarURL?: string;
+  // Group members allowed to rename the group and manage membership
+  admins: string[];
+  createdBy?: string;
+  metadata?: AIConversationSettings;
+  // Set on buyer-seller threads opened from a listing
+  listing?: ConversationListing;
+}
+
+// Listing details as they were when the buyer first got in touch
+export interface ConversationListing {
+  id: string;
+  title: string;
+  imageURL: string | null;
+  price: number;
+  currency: string;
+  sellerId: string;
+}
+
+// Generation settings of an AI conversation; unset fields use the defaults
+export interface AIConversationSettings {
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Persona the system prompt was taken from, unset for a custom prompt
+  personaId?: string;
+}
+
+// Reusable system prompt. Built-in personas ship with the app, the rest are
+// saved by a user and only listed for them
+export interface AIPersona {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  ownerId?: string;
+  createdAt?: Date;
+}
+
+// AI usage ledger, kept per calendar day and month (UTC)
+export interface AIModelUsage {
+  model: string;
+  requests: number;
+  tokens: number;
+}
+
+export interface AIUsagePeriod {
+  key: string;
+  requests: number;
+  tokens: number;
+  models: AIModelUsage[];
+}
+
+export interface AIUsage {
+  day: AIUsagePeriod;
+  month: AIUsagePeriod;
+}
+
+// Limits for a user's tier; null means unlimited
+export interface AIQuota {
+  tier: string;
+  label: string;
+  dailyRequests: number | null;
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
 }
 
 // Post and Feed types
@@ -66,7 +192,7 @@ export interface Post {
   comments: Comment[];
   shares: number;
   images?: string[];
-  type: 'text' | 'image' | 'poll' | 'article';
+  type: 'text' | 'image' | 'poll' | 'article' | 'ai-generated';
   visibility: 'public' | 'followers' | 'private';
   tags?: string[];
   groupId?: string;
@@ -84,6 +210,8 @@ export interface Comment {
 }
 
 // Marketplace types
+export type ListingStatus = 'available' | 'reserved' | 'sold';
+
 export interface MarketplaceItem {
   id: string;
   title: string;
@@ -93,11 +221,24 @@ export interface MarketplaceItem {
   sellerId: string;
   sellerName: string;
   images: string[];
+  // Storage paths parallel to images, empty where unknown; removed with the listing
+  imagePaths?: string[];
   category: string;
   condition: 'new' | 'like-new' | 'good' | 'fair' | 'poor';
-  status: 'available' | 'sold' | 'reserved';
+  status: ListingStatus;
   createdAt: Date;
   updatedAt: Date;
+  // Listings written before expiry existed never expire until the index
+  // backfill gives them a listing period
+  expiresAt?: Date;
+  soldAt?: Date;
+  // Set while an accepted trade holds the item
+  reservedByTradeId?: string;
+  // Set while a Buy Now purchase holds the item
+  reservedByEscrowId?: string;
+  // End of an unpaid checkout's hold; the listing stays available and the
+  // hold lapses after this. Cleared once the purchase is paid
+  reservedUntil?: Date;
   tags?: string[];
   shipping?: {
     cost: number;
@@ -106,6 +247,36 @@ export interface MarketplaceItem {
   };
 }
 
+export type MarketplaceSort = 'newest' | 'price-asc' | 'price-desc' | 'ending-soon';
+
+// Unset fields don't filter
+export interface MarketplaceSearchQuery {
+  keywords?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  currency?: string;
+  conditions?: MarketplaceItem['condition'][];
+  shipping?: 'any' | 'available' | 'free';
+  tags?: string[];
+  sellerId?: string;
+  sort?: MarketplaceSort;
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: MarketplaceSearchQuery;
+  // Alert with a notification as well as the badge
+  notify: boolean;
+  // Listings matched since the search was last opened
+  newMatchCount: number;
+  lastViewedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Trading types
 export interface Trade {
   id: string;
@@ -113,32 +284,184 @@ export interface Trade {
   receiverId: string;
   initiatorItems: MarketplaceItem[];
   receiverItems: MarketplaceItem[];
-  status: 'pending' | 'accepted' | 'rejected' | 'completed' | 'cancelled';
+  cashTopUp?: TradeCashTopUp;
+  status: TradeStatus;
+  // The party the current offer is waiting on; counter-offers hand it over
+  awaitingResponseFrom: string;
   messages: TradeMessage[];
+  // Keyed by the uid of the party sending the items
+  shipments?: {[senderId: string]: TradeShipment};
+  dispute?: TradeDispute;
+  acceptedAt?: Date;
+  // Keys of the overdue-step reminders already sent
+  remindersSent?: string[];
   createdAt: Date;
   updatedAt: Date;
   escrowId?: string;
 }
 
+export interface TradeShipment {
+  carrier: string;
+  trackingNumber: string;
+  shippedAt: Date;
+  shippedPhotoURL?: string;
+  // Confirmed by the other party
+  receivedAt?: Date;
+  receivedPhotoURL?: string;
+}
+
+// An open dispute freezes the trade until whoever opened it withdraws it
+export interface TradeDispute {
+  openedBy: string;
+  reason: string;
+  openedAt: Date;
+}
+
+// Cash either party adds to balance the items
+export interface TradeCashTopUp {
+  payerId: string;
+  amount: number;
+  currency: string;
+}
+
 export interface TradeMessage {
   id: string;
   senderId: string;
   content: string;
   timestamp: Date;
-  type: 'message' | 'offer' | 'counter-offer' | 'acceptance' | 'rejection';
+  type:
+    | 'message'
+    | 'offer'
+    | 'counter-offer'
+    | 'acceptance'
+    | 'rejection'
+    | 'cancellation'
+    | 'completion'
+    | 'shipment'
+    | 'receipt'
+    | 'dispute'
+    | 'resolution';
+}
+
+export type TradeStatus =
+  | 'pending'
+  | 'accepted'
+  | 'rejected'
+  | 'completed'
+  | 'cancelled'
+  | 'disputed';
+
+export type TradeAction =
+  | 'counter'
+  | 'accept'
+  | 'reject'
+  | 'cancel'
+  | 'ship'
+  | 'receive'
+  | 'dispute'
+  | 'resolve';
+
+// Append-only record of every change made to a trade
+export interface TradeAuditEntry {
+  id: string;
+  tradeId: string;
+  actorId: string;
+  action: 'create' | TradeAction;
+  fromStatus: TradeStatus | null;
+  toStatus: TradeStatus;
+  // Listings reserved, released or sold by the change
+  itemIds: string[];
+  createdAt: Date;
+}
+
+// Payment types
+export type PaymentSessionStatus =
+  | 'open'
+  | 'paid'
+  | 'released'
+  | 'refunded'
+  | 'cancelled'
+  | 'expired';
+
+// A checkout at the payment provider; paid funds stay with the provider until released
+export interface PaymentSession {
+  id: string;
+  url: string;
+  status: PaymentSessionStatus;
+  amount: number;
+  currency: string;
+  // Open sessions can no longer be paid after this
+  expiresAt?: Date;
+  paidAt?: Date;
+}
+
+export type EscrowStatus =
+  | 'awaiting-payment'
+  | 'held'
+  | 'releasing'
+  | 'released'
+  | 'cancelled'
+  | 'expired'
+  | 'refunded';
+
+export type EscrowReleaseReason = 'confirmed' | 'timeout';
+
+export type EscrowEndReason =
+  | 'cancelled-by-buyer'
+  | 'payment-cancelled'
+  | 'payment-expired'
+  | 'checkout-failed'
+  | 'listing-unavailable';
+
+// A Buy Now purchase, holding the buyer's payment until the item arrives
+export interface Escrow {
+  id: string;
+  itemId: string;
+  buyerId: string;
+  sellerId: string;
+  // Listing details at checkout
+  listing: ConversationListing;
+  // Price plus shipping
+  amount: number;
+  currency: string;
+  status: EscrowStatus;
+  paymentSessionId?: string;
+  checkoutUrl?: string;
+  // An unpaid checkout lapses at this point, with its payment session
+  expiresAt: Date;
+  // When the provider took the payment
+  fundedAt?: Date;
+  // Held funds go to the seller at this point unless the buyer confirms receipt sooner
+  releaseAfter?: Date;
+  releasedAt?: Date;
+  releaseReason?: EscrowReleaseReason;
+  // Unpaid checkouts that ended, by the buyer's uid or 'system'
+  endedAt?: Date;
+  endedBy?: string;
+  endReason?: EscrowEndReason;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Navigation types
 export type RootStackParamList = {
   Auth: undefined;
   Main: undefined;
-  Chat: {conversationId?: string};
+  Chat: {conversationId?: string; userId?: string};
+  NewGroup: undefined;
+  GroupInfo: {conversationId: string};
   Profile: {userId?: string};
   Settings: undefined;
-  Marketplace: undefined;
+  AIUsage: undefined;
+  Marketplace: {sellerId?: string; sellerName?: string; search?: MarketplaceSearchQuery} | undefined;
+  SavedSearches: undefined;
   ItemDetails: {itemId: string};
-  CreateListing: undefined;
-  Trade: {tradeId: string};
+  CreateListing: {itemId?: string} | undefined;
+  // A new proposal is started with the counterparty and, optionally, an item of theirs
+  Trade: {tradeId?: string; receiverId?: string; itemId?: string};
+  Trades: undefined;
+  // Checkout starts from a listing; existing purchases are opened by escrow
+  Checkout: {itemId?: string; escrowId?: string};
   Article: {articleId: string};
   CreatePost: undefined;
 };
@@ -179,6 +502,12 @@ export interface CloudFunctionResponse<T = any> {
   data: T;
 }
 
+// One earlier turn of an AI conversation, sent as context with the prompt
+export interface GeminiMessage {
+  role: 'user' | 'model';
+  content: string;
+}
+
 export interface GeminiRequest {
   prompt: string;
   conversationId?: string;
@@ -186,6 +515,12 @@ export interface GeminiRequest {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  // Oldest first, not including the prompt
+  history?: GeminiMessage[];
+  // Download URLs of images the model should look at
+  imageUrls?: string[];
+  // 'json' asks the model for a bare JSON object instead of prose
+  responseFormat?: 'text' | 'json';
 }
 
 export interface GeminiResponse {
@@ -196,6 +531,20 @@ export interface GeminiResponse {
   conversationId: string;
 }
 
+// Sent by generateResponse while streaming; `text` continues the answer so far
+export interface GeminiStreamChunk {
+  text: string;
+}
+
+// Listing fields proposed from photos; anything the model is unsure of is left out
+export interface ListingSuggestion {
+  title?: string;
+  description?: string;
+  category?: string;
+  condition?: MarketplaceItem['condition'];
+  tags?: string[];
+}
+
 // Notification types
 export interface Notification {
   id: string;
@@ -223,10 +572,15 @@ export interface UserSettings {
     showEmail: boolean;
     showLocation: boolean;
     allowMessages: 'everyone' | 'followers' | 'none';
+    readReceipts: boolean;
   };
   appearance: {
     theme: 'light' | 'dark' | 'system';
     language: string;
     fontSize: 'small' | 'medium' | 'large';
   };
+  // Missing from settings saved before assistant features existed
+  ai?: {
+    smartReplies: boolean;
+  };
 }
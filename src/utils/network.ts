@@ -6,6 +6,16 @@
 import NetInfo from '@react-native-community/netinfo';
 import {Alert} from 'react-native';
 import StorageManager from './storage';
+import {createBackendError} from '../services/backend';
+import {
+  OfflineAction,
+  OfflineActionHandlers,
+  OfflineActionPayloads,
+  OfflineActionType,
+  createIdempotencyKey,
+  isPermanentError,
+  offlineActionLabels,
+} from '../services/offlineActions';
 
 export interface NetworkState {
   isConnected: boolean;
@@ -14,6 +24,10 @@ export interface NetworkState {
   isWifiEnabled?: boolean;
 }
 
+const MAX_OFFLINE_RETRIES = 3;
+// Transient failures are retried after 5s, then 10s, while still online
+const OFFLINE_RETRY_DELAY_MS = 5000;
+
 class NetworkManager {
   private static instance: NetworkManager;
   private networkState: NetworkState = {
@@ -22,10 +36,16 @@ class NetworkManager {
     type: 'unknown',
   };
   private listeners: ((state: NetworkState) => void)[] = [];
-  private offlineQueue: any[] = [];
+  private offlineQueue: OfflineAction[] = [];
+  private offlineHandlers: OfflineActionHandlers | null = null;
+  private queueListeners: ((queue: OfflineAction[]) => void)[] = [];
+  private queueLoaded: Promise<void>;
+  private processingQueue = false;
+  private processAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
 
   private constructor() {
-    this.initialize();
+    this.queueLoaded = this.initialize();
   }
 
   public static getInstance(): NetworkManager {
@@ -59,8 +79,14 @@ class NetworkManager {
       }
     });
 
-    // Load offline queue from storage
-    this.offlineQueue = await StorageManager.getOfflineQueue();
+    // Load offline queue from storage, filling in fields older queue items lack
+    const storedQueue = await StorageManager.getOfflineQueue();
+    this.offlineQueue = storedQueue.map(item => ({
+      ...item,
+      idempotencyKey: item.idempotencyKey || item.id,
+      retryCount: item.retryCount || 0,
+      status: item.status || 'pending',
+    }));
   }
 
   public getCurrentState(): NetworkState {
@@ -88,54 +114,150 @@ class NetworkManager {
   }
 
   // Offline queue management
-  public async addToOfflineQueue(action: string, data: any): Promise<void> {
-    const queueItem = {
+  public setOfflineActionHandlers(handlers: OfflineActionHandlers | null): void {
+    this.offlineHandlers = handlers;
+
+    if (handlers && this.isOnline()) {
+      this.processOfflineQueue();
+    }
+  }
+
+  public async addToOfflineQueue<K extends OfflineActionType>(
+    action: K,
+    data: OfflineActionPayloads[K],
+    idempotencyKey: string = createIdempotencyKey()
+  ): Promise<OfflineAction<K>> {
+    await this.queueLoaded;
+
+    const queueItem: OfflineAction<K> = {
       id: `${Date.now()}_${Math.random()}`,
       action,
       data,
+      idempotencyKey,
       timestamp: Date.now(),
       retryCount: 0,
+      status: 'pending',
     };
 
     this.offlineQueue.push(queueItem);
-    await StorageManager.addToOfflineQueue(action, data);
+    await this.persistOfflineQueue();
+    return queueItem;
+  }
+
+  public getOfflineQueue(): OfflineAction[] {
+    return [...this.offlineQueue];
+  }
+
+  public getFailedOfflineActions(): OfflineAction[] {
+    return this.offlineQueue.filter(item => item.status === 'failed');
+  }
+
+  public addQueueListener(listener: (queue: OfflineAction[]) => void): () => void {
+    this.queueListeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.queueListeners.indexOf(listener);
+      if (index > -1) {
+        this.queueListeners.splice(index, 1);
+      }
+    };
+  }
+
+  public async retryOfflineAction(itemId: string): Promise<void> {
+    await this.queueLoaded;
+
+    const item = this.offlineQueue.find(queued => queued.id === itemId);
+    if (!item) {
+      return;
+    }
+
+    item.status = 'pending';
+    item.retryCount = 0;
+    item.lastError = undefined;
+    await this.persistOfflineQueue();
+
+    if (this.isOnline()) {
+      await this.processOfflineQueue();
+    }
+  }
+
+  public async discardOfflineAction(itemId: string): Promise<void> {
+    await this.queueLoaded;
+
+    this.offlineQueue = this.offlineQueue.filter(item => item.id !== itemId);
+    await this.persistOfflineQueue();
+  }
+
+  private async persistOfflineQueue(): Promise<void> {
+    await StorageManager.saveOfflineQueue(this.offlineQueue);
+    const snapshot = this.getOfflineQueue();
+    this.queueListeners.forEach(listener => listener(snapshot));
   }
 
   private async processOfflineQueue(): Promise<void> {
-    if (this.offlineQueue.length === 0) {
+    await this.queueLoaded;
+
+    // Actions stay queued until the backend has registered its handlers
+    if (!this.offlineHandlers) {
+      return;
+    }
+
+    // Retries requested during a pass are picked up by another pass right after it
+    if (this.processingQueue) {
+      this.processAgain = true;
       return;
     }
 
-    console.log(`Processing ${this.offlineQueue.length} offline actions...`);
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const pendingItems = this.offlineQueue.filter(item => item.status === 'pending');
+    if (pendingItems.length === 0) {
+      return;
+    }
 
+    console.log(`Processing ${pendingItems.length} offline actions...`);
+
+    this.processingQueue = true;
+    this.processAgain = false;
     const processedItems: string[] = [];
+    const failedItems: OfflineAction[] = [];
+
+    try {
+      // Replay in the order the actions were queued
+      for (const item of pendingItems) {
+        if (this.isOffline()) {
+          break;
+        }
 
-    for (const item of this.offlineQueue) {
-      try {
-        await this.executeOfflineAction(item);
-        processedItems.push(item.id);
-      } catch (error) {
-        console.error('Error processing offline action:', error);
-        
-        // Increment retry count
-        item.retryCount = (item.retryCount || 0) + 1;
-        
-        // Remove from queue if max retries reached
-        if (item.retryCount >= 3) {
+        try {
+          await this.executeOfflineAction(item);
           processedItems.push(item.id);
-          console.warn('Max retries reached for offline action:', item.action);
+        } catch (error) {
+          console.error('Error processing offline action:', error);
+
+          item.retryCount = (item.retryCount || 0) + 1;
+          item.lastError = error instanceof Error ? error.message : String(error);
+
+          // Failed actions are kept so the user can retry or discard them
+          if (isPermanentError(error) || item.retryCount >= MAX_OFFLINE_RETRIES) {
+            item.status = 'failed';
+            failedItems.push(item);
+            console.warn('Offline action failed:', item.action, item.lastError);
+          }
         }
       }
-    }
-
-    // Remove processed items from queue
-    this.offlineQueue = this.offlineQueue.filter(
-      item => !processedItems.includes(item.id)
-    );
 
-    // Update storage
-    for (const itemId of processedItems) {
-      await StorageManager.removeFromOfflineQueue(itemId);
+      // Remove processed items from queue
+      this.offlineQueue = this.offlineQueue.filter(
+        item => !processedItems.includes(item.id)
+      );
+      await this.persistOfflineQueue();
+    } finally {
+      this.processingQueue = false;
     }
 
     if (processedItems.length > 0) {
@@ -144,19 +266,78 @@ class NetworkManager {
         `${processedItems.length} offline actions have been synchronized.`
       );
     }
+
+    if (failedItems.length > 0) {
+      this.showSyncFailures(failedItems);
+    }
+
+    if (this.processAgain) {
+      this.processAgain = false;
+      await this.processOfflineQueue();
+    } else {
+      this.scheduleRetry();
+    }
+  }
+
+  // Items left pending after a transient failure are retried with backoff;
+  // ones left behind by losing the connection wait for it to come back
+  private scheduleRetry(): void {
+    const retryCounts = this.offlineQueue
+      .filter(item => item.status === 'pending' && item.retryCount > 0)
+      .map(item => item.retryCount);
+    if (retryCounts.length === 0 || this.isOffline()) {
+      return;
+    }
+
+    const delay = OFFLINE_RETRY_DELAY_MS * 2 ** (Math.min(...retryCounts) - 1);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.isOnline()) {
+        this.processOfflineQueue();
+      }
+    }, delay);
+  }
+
+  private async executeOfflineAction(item: OfflineAction): Promise<void> {
+    const handler = this.offlineHandlers?.[item.action] as
+      | ((data: any, idempotencyKey: string) => Promise<void>)
+      | undefined;
+
+    if (!handler) {
+      throw createBackendError(
+        'offline/unknown-action',
+        `No handler registered for offline action "${item.action}"`
+      );
+    }
+
+    await handler(item.data, item.idempotencyKey);
   }
 
-  private async executeOfflineAction(item: any): Promise<void> {
-    // This would contain the logic to execute different types of offline actions
-    // For now, we'll just log the action
-    console.log('Executing offline action:', item.action, item.data);
-    
-    // In a real implementation, you would:
-    // - Send messages that were queued
-    // - Create posts that were saved offline
-    // - Update user profiles
-    // - Sync marketplace listings
-    // etc.
+  private showSyncFailures(failedItems: OfflineAction[]): void {
+    const details = failedItems
+      .map(item => `• ${offlineActionLabels[item.action] || item.action}: ${item.lastError}`)
+      .join('\n');
+
+    Alert.alert(
+      'Some Changes Were Not Synced',
+      `${failedItems.length} offline actions could not be completed:\n\n${details}`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            failedItems.forEach(item => this.discardOfflineAction(item.id));
+          },
+        },
+        {text: 'Keep for Later', style: 'cancel'},
+        {
+          text: 'Retry',
+          onPress: () => {
+            failedItems.forEach(item => this.retryOfflineAction(item.id));
+          },
+        },
+      ]
+    );
   }
 
   // Network request wrapper with offline handling
@@ -0,0 +1,234 @@
+/**
+ * Message Outbox
+ * Durable queue of outgoing chat messages; messages are shown immediately and
+ * delivered in order whenever the device is online
+ */
+
+import StorageManager from './storage';
+import NetworkManager from './network';
+import {NewMessage} from '../services/repository';
+import {createIdempotencyKey} from '../services/offlineActions';
+
+export type OutboxMessageStatus = 'pending' | 'failed';
+
+export interface OutboxMessage {
+  // Also used as the message document id so a resend is written at most once
+  id: string;
+  message: NewMessage;
+  recipientIds: string[];
+  createdAt: number;
+  status: OutboxMessageStatus;
+  attempts: number;
+  lastError?: string;
+  // Fraction of the attachments uploaded during the current attempt
+  uploadProgress?: number;
+}
+
+interface DeliveryWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export type OutboxSender = (
+  entry: OutboxMessage,
+  onProgress: (fraction: number) => void
+) => Promise<void>;
+
+class MessageOutbox {
+  private static instance: MessageOutbox;
+  private entries: OutboxMessage[] = [];
+  private sender: OutboxSender | null = null;
+  private listeners: ((entries: OutboxMessage[]) => void)[] = [];
+  private loaded: Promise<void>;
+  private flushing = false;
+  private flushAgain = false;
+  private deliveryWaiters = new Map<string, DeliveryWaiter[]>();
+
+  private constructor() {
+    this.loaded = this.initialize();
+  }
+
+  public static getInstance(): MessageOutbox {
+    if (!MessageOutbox.instance) {
+      MessageOutbox.instance = new MessageOutbox();
+    }
+    return MessageOutbox.instance;
+  }
+
+  private async initialize() {
+    // Deliver queued messages as soon as connectivity returns
+    NetworkManager.addNetworkListener(() => {
+      if (NetworkManager.isOnline()) {
+        this.flush();
+      }
+    });
+
+    this.entries = await StorageManager.getMessageOutbox();
+    this.notifyListeners();
+  }
+
+  public setSender(sender: OutboxSender | null): void {
+    this.sender = sender;
+
+    if (sender) {
+      this.flush();
+    }
+  }
+
+  public async enqueue(message: NewMessage, recipientIds: string[]): Promise<OutboxMessage> {
+    await this.loaded;
+
+    const entry: OutboxMessage = {
+      id: createIdempotencyKey(),
+      message,
+      recipientIds,
+      createdAt: Date.now(),
+      status: 'pending',
+      attempts: 0,
+    };
+
+    this.entries.push(entry);
+    await this.persist();
+
+    this.flush();
+    return entry;
+  }
+
+  public getEntries(conversationId?: string): OutboxMessage[] {
+    return this.entries.filter(
+      entry => !conversationId || entry.message.conversationId === conversationId
+    );
+  }
+
+  // Resolves once the entry is written to the backend, right away if it already
+  // left the outbox; rejects when sending it fails or it is deleted first
+  public async waitForDelivery(entryId: string): Promise<void> {
+    await this.loaded;
+
+    if (!this.entries.some(entry => entry.id === entryId)) {
+      return;
+    }
+    return new Promise((resolve, reject) => {
+      this.deliveryWaiters.set(entryId, [
+        ...(this.deliveryWaiters.get(entryId) || []),
+        {resolve, reject},
+      ]);
+    });
+  }
+
+  public addListener(listener: (entries: OutboxMessage[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public async retry(entryId: string): Promise<void> {
+    await this.loaded;
+
+    const entry = this.entries.find(queued => queued.id === entryId);
+    if (!entry) {
+      return;
+    }
+
+    entry.status = 'pending';
+    entry.lastError = undefined;
+    await this.persist();
+
+    await this.flush();
+  }
+
+  public async remove(entryId: string): Promise<void> {
+    await this.loaded;
+
+    this.entries = this.entries.filter(entry => entry.id !== entryId);
+    await this.persist();
+    this.settleDelivery(entryId, new Error('The message was deleted before it was sent'));
+  }
+
+  public async flush(): Promise<void> {
+    await this.loaded;
+
+    const sender = this.sender;
+    if (!sender || NetworkManager.isOffline()) {
+      return;
+    }
+
+    // The current pass skips entries it already tried, so a retry requested
+    // during it is sent by another pass right after
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+
+    this.flushing = true;
+    this.flushAgain = false;
+    const attempted = new Set<string>();
+
+    try {
+      // Messages enqueued while flushing are picked up by the same pass
+      let entry = this.nextPendingEntry(attempted);
+      while (entry && NetworkManager.isOnline()) {
+        attempted.add(entry.id);
+
+        const sending = entry;
+        try {
+          await sender(sending, fraction => {
+            sending.uploadProgress = fraction;
+            this.notifyListeners();
+          });
+          this.entries = this.entries.filter(queued => queued.id !== sending.id);
+          this.settleDelivery(sending.id);
+        } catch (error) {
+          sending.uploadProgress = undefined;
+          console.error('Error sending outbox message:', error);
+
+          // Losing the connection mid-send leaves the message pending for the next flush
+          if (NetworkManager.isOnline()) {
+            sending.attempts += 1;
+            sending.status = 'failed';
+            sending.lastError = error instanceof Error ? error.message : String(error);
+            this.settleDelivery(sending.id, new Error(sending.lastError));
+          }
+        }
+
+        await this.persist();
+        entry = this.nextPendingEntry(attempted);
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.flushAgain) {
+      this.flushAgain = false;
+      await this.flush();
+    }
+  }
+
+  private nextPendingEntry(attempted: Set<string>): OutboxMessage | undefined {
+    return this.entries.find(entry => entry.status === 'pending' && !attempted.has(entry.id));
+  }
+
+  private settleDelivery(entryId: string, error?: Error): void {
+    const waiters = this.deliveryWaiters.get(entryId) || [];
+    this.deliveryWaiters.delete(entryId);
+    waiters.forEach(waiter => (error ? waiter.reject(error) : waiter.resolve()));
+  }
+
+  private async persist(): Promise<void> {
+    await StorageManager.saveMessageOutbox(this.entries);
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const snapshot = this.getEntries();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export default MessageOutbox.getInstance();
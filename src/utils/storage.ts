@@ -4,6 +4,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Message} from '../types';
 
 export interface CacheItem<T> {
   data: T;
@@ -11,6 +12,11 @@ export interface CacheItem<T> {
   expiresAt?: number;
 }
 
+export interface MessageCache {
+  messages: Message[];
+  hasMore: boolean;
+}
+
 class StorageManager {
   private static instance: StorageManager;
 
@@ -146,19 +152,12 @@ class StorageManager {
     await this.removeItem(draftKey);
   }
 
-  // Offline queue management
-  async addToOfflineQueue(action: string, data: any): Promise<void> {
+  // Offline queue persistence; NetworkManager owns the queue itself
+  async saveOfflineQueue(queue: any[]): Promise<void> {
     try {
-      const queue = await this.getItem<any[]>('offline_queue') || [];
-      queue.push({
-        id: `${Date.now()}_${Math.random()}`,
-        action,
-        data,
-        timestamp: Date.now(),
-      });
       await this.setItem('offline_queue', queue);
     } catch (error) {
-      console.error('Error adding to offline queue:', error);
+      console.error('Error saving offline queue:', error);
     }
   }
 
@@ -166,18 +165,42 @@ class StorageManager {
     return await this.getItem<any[]>('offline_queue') || [];
   }
 
-  async removeFromOfflineQueue(itemId: string): Promise<void> {
+  // Outgoing chat messages that have not been confirmed by the backend
+  async getMessageOutbox(): Promise<any[]> {
+    return await this.getItem<any[]>('message_outbox') || [];
+  }
+
+  async saveMessageOutbox(outbox: any[]): Promise<void> {
     try {
-      const queue = await this.getItem<any[]>('offline_queue') || [];
-      const updatedQueue = queue.filter(item => item.id !== itemId);
-      await this.setItem('offline_queue', updatedQueue);
+      await this.setItem('message_outbox', outbox);
     } catch (error) {
-      console.error('Error removing from offline queue:', error);
+      console.error('Error saving message outbox:', error);
     }
   }
 
-  async clearOfflineQueue(): Promise<void> {
-    await this.removeItem('offline_queue');
+  // Loaded message history per conversation
+  async setMessageCache(conversationId: string, cache: MessageCache): Promise<void> {
+    try {
+      await this.setCache(`messages_${conversationId}`, cache);
+    } catch (error) {
+      console.error('Error caching messages:', error);
+    }
+  }
+
+  async getMessageCache(conversationId: string): Promise<MessageCache | null> {
+    const cache = await this.getCache<MessageCache>(`messages_${conversationId}`);
+    if (!cache) {
+      return null;
+    }
+
+    // Dates come back from JSON as strings
+    return {
+      ...cache,
+      messages: cache.messages.map(message => ({
+        ...message,
+        timestamp: new Date(message.timestamp),
+      })),
+    };
   }
 
   // Recent searches